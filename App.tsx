@@ -1,114 +1,728 @@
-import React, { useState, useRef } from 'react';
-import { Upload, FileJson, ArrowRight, Download, RefreshCw, AlertCircle, CheckCircle, AlertTriangle } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Upload, FileJson, ArrowRight, Download, RefreshCw, AlertCircle, CheckCircle, AlertTriangle, Settings, ListFilter, History, RotateCcw, Columns2, ClipboardCheck, Sigma, Pause, Play, Square, ShieldCheck, Network, FileText, BookOpen, Database, ScrollText, Languages, PencilLine, Undo2, Redo2, Search } from 'lucide-react';
 import { Button } from './components/Button';
 import { JsonViewer } from './components/JsonViewer';
-import { processJsonKnowledgeBase, ProcessResult } from './services/geminiService';
-import { ProcessingStatus, ProcessProgress } from './types';
+import { SettingsPanel } from './components/SettingsPanel';
+import { FieldSelectorEditor } from './components/FieldSelectorEditor';
+import { LintReportPanel } from './components/LintReportPanel';
+import { ProfileEditor } from './components/ProfileEditor';
+import { CachePanel } from './components/CachePanel';
+import { WorkspacePanel } from './components/WorkspacePanel';
+import { GraphExplorer } from './components/GraphExplorer';
+import { ReviewPanel } from './components/ReviewPanel';
+import { MathPreviewPanel } from './components/MathPreviewPanel';
+import { JsonRepairPanel } from './components/JsonRepairPanel';
+import { AuditLogPanel } from './components/AuditLogPanel';
+import { ItemEditor } from './components/ItemEditor';
+import { SearchPanel } from './components/SearchPanel';
+import { processJsonKnowledgeBase, reprocessUnit, ProcessFailure, ProcessOptions, ProcessResult, RenderIssue, UnitSource } from './services/geminiService';
+import { CheckpointEntry, hashContent, indexedDbCheckpointStore, summarizeCheckpoint } from './services/checkpointStore';
+import { DEFAULT_MODELS, DEFAULT_PROVIDER_SETTINGS, PROVIDER_LABELS } from './services/llmProvider';
+import { createProvider } from './services/providerFactory';
+import { RunController } from './services/runController';
+import { parseJsonFile } from './services/fileParser';
+import { ACCEPTED_EXTENSIONS, FORMAT_HANDLERS, SourceFormat, detectFormat, parseDocument, serializeDocument } from './services/formats';
+import { DOCUMENT_EXPORTS, DocumentFormat } from './services/documentExport';
+import { JsonDiagnosis, JsonRepairIssue, applyRepairs, diagnoseJson } from './services/jsonRepair';
+import { AuditRun, buildAuditLog, buildAuditRun, exportAuditHtml, exportAuditJson, parseAuditLog, replayAuditLog } from './services/auditLog';
+import { CacheEntry, exportCache, indexedDbResultCache } from './services/resultCache';
+import { WorkspaceFile, ZIP_EXTENSION, buildResultZip, loadWorkspaceFile, readWorkspaceInputs } from './services/workspace';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE, RuleProfile, exportProfiles } from './services/ruleProfiles';
+import { DEFAULT_FIELD_RULES, detectFieldLanguage } from './services/fieldSelector';
+import { getAtPath, parsePath } from './services/jsonPath';
+import { EditableField, FieldChange, applyAcceptedChanges, collectChanges, editField, mergeChanges, replaceUnits } from './services/review';
+import { Replacement, applyReplacements } from './services/search';
+import { EditHistory, HistoryAction, createHistory, pushHistory, redo, undo } from './services/editHistory';
+import { DEFAULT_LINT_OPTIONS, LintOptions, applyLintFixes, exportLintReport, lintKnowledgeBase } from './services/schemaLint';
+import { CONTENT_LANGUAGE_LABELS } from './services/latexNormalizer';
+import { LOCALE_NAMES, Locale, MessageKey, formatDateTime, localeFromTags, setLocale, t } from './services/i18n';
+import { ProcessingStatus, ProcessProgress, NormalizationMode, ProviderSettings, ProviderKind, FieldRule, ContentLanguage } from './types';
+
+type ViewMode = 'split' | 'search' | 'review' | 'edit' | 'preview' | 'graph';
+
+const VIEW_MODES: { mode: ViewMode; label: MessageKey; icon: React.ElementType; needsResult: boolean }[] = [
+  { mode: 'split', label: 'app.view.split', icon: Columns2, needsResult: false },
+  { mode: 'search', label: 'app.view.search', icon: Search, needsResult: false },
+  { mode: 'review', label: 'app.view.review', icon: ClipboardCheck, needsResult: true },
+  { mode: 'edit', label: 'app.view.edit', icon: PencilLine, needsResult: true },
+  { mode: 'preview', label: 'app.view.preview', icon: Sigma, needsResult: true },
+  { mode: 'graph', label: 'app.view.graph', icon: Network, needsResult: false },
+];
+
+/** The result and its review state, kept as one snapshot per undo step. */
+interface EditState {
+  data: any;
+  changes: FieldChange[];
+  renderIssues: RenderIssue[];
+}
+
+/** Content language of the prompt and local rules; 'auto' detects it from the selected fields. */
+type ContentLanguageSetting = 'auto' | ContentLanguage;
+
+const SETTINGS_STORAGE_KEY = 'json-optimizer:provider-settings';
+const FIELD_RULES_STORAGE_KEY = 'json-optimizer:field-rules';
+const LINT_OPTIONS_STORAGE_KEY = 'json-optimizer:lint-options';
+const PROFILES_STORAGE_KEY = 'json-optimizer:profiles';
+const SELECTED_PROFILE_STORAGE_KEY = 'json-optimizer:selected-profile';
+const USE_CACHE_STORAGE_KEY = 'json-optimizer:use-cache';
+const API_KEY_SESSION_KEY = 'json-optimizer:api-key';
+const LOCALE_STORAGE_KEY = 'json-optimizer:locale';
+const CONTENT_LANGUAGE_STORAGE_KEY = 'json-optimizer:content-language';
+
+// Deployments without the /api proxy (see netlify.toml) build with
+// VITE_DEFAULT_PROVIDER set to a direct provider, whose key users enter themselves.
+const BUILD_PROVIDER = import.meta.env.VITE_DEFAULT_PROVIDER as ProviderKind | undefined;
+const INITIAL_PROVIDER_SETTINGS: ProviderSettings = BUILD_PROVIDER && BUILD_PROVIDER in DEFAULT_MODELS
+  ? { kind: BUILD_PROVIDER, model: DEFAULT_MODELS[BUILD_PROVIDER] }
+  : DEFAULT_PROVIDER_SETTINGS;
+
+// The API key is deliberately left out of persisted settings: it lives in
+// session storage only, so it is gone once the tab is closed.
+function loadProviderSettings(): ProviderSettings {
+  const apiKey = sessionStorage.getItem(API_KEY_SESSION_KEY) ?? undefined;
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return { ...INITIAL_PROVIDER_SETTINGS, ...(stored ? JSON.parse(stored) : {}), apiKey };
+  } catch {
+    return { ...INITIAL_PROVIDER_SETTINGS, apiKey };
+  }
+}
+
+function loadFieldRules(): FieldRule[] {
+  try {
+    const stored = localStorage.getItem(FIELD_RULES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_FIELD_RULES;
+  } catch {
+    return DEFAULT_FIELD_RULES;
+  }
+}
+
+function loadLintOptions(): LintOptions {
+  try {
+    const stored = localStorage.getItem(LINT_OPTIONS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_LINT_OPTIONS, ...JSON.parse(stored) } : DEFAULT_LINT_OPTIONS;
+  } catch {
+    return DEFAULT_LINT_OPTIONS;
+  }
+}
+
+function loadProfiles(): RuleProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    const profiles = stored ? JSON.parse(stored) : null;
+    return Array.isArray(profiles) && profiles.length > 0 ? profiles : BUILT_IN_PROFILES;
+  } catch {
+    return BUILT_IN_PROFILES;
+  }
+}
+
+// An explicit choice wins; otherwise follow the browser's preferred languages.
+function loadLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return stored === 'zh' || stored === 'en' ? stored : localeFromTags(navigator.languages ?? [navigator.language]);
+}
+
+function loadContentLanguage(): ContentLanguageSetting {
+  const stored = localStorage.getItem(CONTENT_LANGUAGE_STORAGE_KEY);
+  return stored === 'zh' || stored === 'en' ? stored : 'auto';
+}
+
+function downloadText(text: string, fileName: string, mimeType = 'application/json') {
+  downloadBlob(new Blob([text], { type: mimeType }), fileName);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function describeAction(action: HistoryAction): string {
+  return t(action.key, action.params);
+}
+
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return '--';
+  if (seconds < 60) return t('app.eta.seconds', { count: seconds });
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60
+    ? t('app.eta.minutes', { count: minutes })
+    : t('app.eta.hours', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+}
 
 const App: React.FC = () => {
+  // The locale is module state in the i18n service; setting it here, before the first render, keeps both in step.
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const initial = loadLocale();
+    setLocale(initial);
+    return initial;
+  });
   const [file, setFile] = useState<File | null>(null);
   const [originalData, setOriginalData] = useState<any | null>(null); 
-  const [processedData, setProcessedData] = useState<any | null>(null);
   const [status, setStatus] = useState<ProcessingStatus>('idle');
   const [error, setError] = useState<string | null>(null);
-  const [resultStats, setResultStats] = useState<{success: number, failed: number} | null>(null);
+  const [resultStats, setResultStats] = useState<ProcessResult['stats'] | null>(null);
+  const [failures, setFailures] = useState<ProcessFailure[]>([]);
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat>({ format: 'json', options: {} });
+  const [fileHash, setFileHash] = useState<string | null>(null);
+  // Text and proposed fixes of a JSON upload that failed to parse; `version` remounts the panel after each pass.
+  const [repair, setRepair] = useState<{ text: string; diagnosis: JsonDiagnosis; version: number } | null>(null);
+  // Runs behind the current result (a retry adds one) and where each unit's value came from.
+  const [auditRuns, setAuditRuns] = useState<AuditRun[]>([]);
+  const [unitSources, setUnitSources] = useState<Record<string, UnitSource>>({});
+  const [showAudit, setShowAudit] = useState(false);
+  const [savedCheckpoint, setSavedCheckpoint] = useState<CheckpointEntry[] | null>(null);
+  // Every run, review decision and manual edit adds a snapshot; null until there is a result.
+  const [history, setHistory] = useState<EditHistory<EditState> | null>(null);
+  const [rerunningPath, setRerunningPath] = useState<string | null>(null);
+  const [rerunError, setRerunError] = useState<{ path: string; message: string } | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('split');
+  const [mode, setMode] = useState<NormalizationMode>('hybrid');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [fieldRules, setFieldRules] = useState<FieldRule[]>(loadFieldRules);
+  const [showFieldSelector, setShowFieldSelector] = useState(false);
+  const [lintOptions, setLintOptions] = useState<LintOptions>(loadLintOptions);
+  const [showLint, setShowLint] = useState(false);
+  const [profiles, setProfiles] = useState<RuleProfile[]>(loadProfiles);
+  const [selectedProfileId, setSelectedProfileId] = useState(() => localStorage.getItem(SELECTED_PROFILE_STORAGE_KEY) ?? DEFAULT_PROFILE.id);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [useCache, setUseCache] = useState(() => localStorage.getItem(USE_CACHE_STORAGE_KEY) !== 'false');
+  const [contentLanguage, setContentLanguage] = useState<ContentLanguageSetting>(loadContentLanguage);
+  const [showCache, setShowCache] = useState(false);
+  const [workspace, setWorkspace] = useState<WorkspaceFile[] | null>(null);
+  const [workspaceName, setWorkspaceName] = useState('workspace');
   const [progress, setProgress] = useState<ProcessProgress>({ total: 0, current: 0, percentage: 0 });
+  const [parseProgress, setParseProgress] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const runControllerRef = useRef<RunController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const auditInputRef = useRef<HTMLInputElement>(null);
+
+  const processedData = history?.present.state.data ?? null;
+  const changes = history?.present.state.changes ?? [];
+  const renderIssues = history?.present.state.renderIssues ?? [];
+  const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
+  const profile = profiles.find(p => p.id === selectedProfileId) ?? profiles[0];
+  // Lint messages are built in the current locale, so the report is rebuilt when it changes.
+  const lintReport = useMemo(
+    () => (originalData ? lintKnowledgeBase(originalData, lintOptions) : null),
+    [originalData, lintOptions, locale]
+  );
+  const detectedLanguage = useMemo(
+    () => (originalData ? detectFieldLanguage(originalData, fieldRules) : null),
+    [originalData, fieldRules]
+  );
+
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  useEffect(() => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    document.documentElement.lang = locale === 'zh' ? 'zh-CN' : 'en';
+  }, [locale]);
+
+  useEffect(() => {
+    localStorage.setItem(CONTENT_LANGUAGE_STORAGE_KEY, contentLanguage);
+  }, [contentLanguage]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) step through the history; text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y') || status === 'processing') return;
+      if (event.target instanceof Element && event.target.closest('input, textarea, select')) return;
+      event.preventDefault();
+      setHistory(prev => prev && (key === 'y' || event.shiftKey ? redo(prev) : undo(prev)));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [status]);
+
+  useEffect(() => {
+    const { apiKey, ...persisted } = providerSettings;
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(persisted));
+    if (apiKey) sessionStorage.setItem(API_KEY_SESSION_KEY, apiKey); else sessionStorage.removeItem(API_KEY_SESSION_KEY);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(FIELD_RULES_STORAGE_KEY, JSON.stringify(fieldRules));
+  }, [fieldRules]);
+
+  useEffect(() => {
+    localStorage.setItem(LINT_OPTIONS_STORAGE_KEY, JSON.stringify(lintOptions));
+  }, [lintOptions]);
+
+  useEffect(() => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  }, [profiles]);
+
+  useEffect(() => {
+    localStorage.setItem(SELECTED_PROFILE_STORAGE_KEY, selectedProfileId);
+  }, [selectedProfileId]);
+
+  useEffect(() => {
+    localStorage.setItem(USE_CACHE_STORAGE_KEY, String(useCache));
+  }, [useCache]);
+
+  // Settings shared by single-file runs and the workspace queue.
+  const processOptions: ProcessOptions = {
+    mode,
+    provider,
+    fields: fieldRules,
+    profile,
+    cache: useCache ? indexedDbResultCache : undefined,
+    rateLimits: providerSettings.limits,
+    // Left unset on 'auto' so that every file, including each one in a workspace, is detected on its own.
+    language: contentLanguage === 'auto' ? undefined : contentLanguage,
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    // Several files or a zip open as a workspace; a single file keeps the detailed view.
+    if (selected.length > 1 || selected.some(f => f.name.toLowerCase().endsWith(ZIP_EXTENSION))) {
+      openWorkspace(selected);
+      return;
+    }
+    const selectedFile = selected[0];
     if (selectedFile) {
-      if (selectedFile.type !== 'application/json' && !selectedFile.name.endsWith('.json')) {
-        setError("请上传有效的 JSON 文件。");
+      const format = detectFormat(selectedFile.name) ?? (selectedFile.type === 'application/json' ? 'json' : null);
+      if (!format) {
+        setError(t('app.unsupportedFile', { extensions: ACCEPTED_EXTENSIONS.join(' / ') }));
         return;
       }
       setFile(selectedFile);
-      parseFile(selectedFile);
+      parseFile(selectedFile, format);
     }
   };
 
-  const parseFile = (fileToParse: File) => {
+  const openWorkspace = async (selected: File[]) => {
+    setError(null);
+    setStatus('parsing');
+    try {
+      const inputs = await readWorkspaceInputs(selected);
+      if (inputs.length === 0) throw new Error(t('app.noFilesFound', { extensions: ACCEPTED_EXTENSIONS.join(' / ') }));
+      setWorkspace(await Promise.all(inputs.map(({ path, text }) => loadWorkspaceFile(path, text))));
+      setWorkspaceName(selected.length === 1 ? selected[0].name.replace(/\.zip$/i, '') : 'workspace');
+      setStatus('idle');
+    } catch (err) {
+      setError(t('app.readFailed', { message: err instanceof Error ? err.message : String(err) }));
+      setStatus('error');
+    }
+  };
+
+  const handleWorkspaceUpdate = (path: string, patch: Partial<WorkspaceFile>) => {
+    setWorkspace(prev => prev && prev.map(file => (file.path === path ? { ...file, ...patch } : file)));
+  };
+
+  const handleWorkspaceDownload = () => {
+    if (!workspace) return;
+    const { zip, skipped } = buildResultZip(workspace);
+    downloadBlob(zip, `optimized_${workspaceName}.zip`);
+    if (skipped.length > 0) setError(t('app.zipSkipped', { files: skipped.join('\n') }));
+  };
+
+  // Look for a checkpoint left by an earlier run on the same file content.
+  const loadCheckpoint = async (hash: string) => {
+    try {
+      setFileHash(hash);
+      const entries = await indexedDbCheckpointStore.load(hash);
+      setSavedCheckpoint(entries.length > 0 ? entries : null);
+    } catch (err) {
+      console.warn('Checkpoints unavailable:', err);
+    }
+  };
+
+  const parseFile = (fileToParse: File, format: SourceFormat['format']) => {
     setStatus('parsing');
     setError(null);
     setResultStats(null);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const json = JSON.parse(text);
-        
-        setOriginalData(json);
-        setProcessedData(null);
-        setStatus('idle');
-      } catch (err) {
+    setFailures([]);
+    setFileHash(null);
+    setSavedCheckpoint(null);
+    setViewMode('split');
+    setParseProgress(0);
+    setRepair(null);
+    setAuditRuns([]);
+    setUnitSources({});
+    // JSON is parsed in a worker as the file streams in, so large files keep the page responsive.
+    // The other formats are converted to the same document shape and written back on download.
+    const parsed = format === 'json'
+      ? parseJsonFile(fileToParse, (loaded, total) => setParseProgress(total > 0 ? Math.round((loaded / total) * 100) : 0))
+          .then(({ data, hash }) => ({ data, hash, source: { format, options: {} } as SourceFormat }))
+      : fileToParse.text().then(async text => ({ ...parseDocument(text, format), hash: await hashContent(text) }));
+    parsed
+      .then(handleParsed)
+      .catch(async err => {
         const errorMessage = err instanceof Error ? err.message : String(err);
-        setError(`解析 JSON 文件失败。请检查文件语法格式是否正确。\n错误详情: ${errorMessage}`);
+        setError(t('app.parseFailed', { format: FORMAT_HANDLERS[format].label, message: errorMessage }));
         setStatus('error');
-      }
-    };
-    reader.readAsText(fileToParse);
+        // Hand-edited JSON usually fails for a handful of known reasons; offer to fix them in place.
+        if (format === 'json') offerRepair(await fileToParse.text().catch(() => ''));
+      });
+  };
+
+  const handleParsed = ({ data: json, hash, source }: { data: unknown; hash: string; source: SourceFormat }) => {
+    setOriginalData(json);
+    setSourceFormat(source);
+    setHistory(null);
+    setRerunError(null);
+    setStatus('idle');
+    // Open the lint report right away when the upload has structural errors.
+    setShowLint(lintKnowledgeBase(json, lintOptions).issues.some(issue => issue.severity === 'error'));
+    loadCheckpoint(hash);
+  };
+
+  const offerRepair = (text: string) => {
+    const diagnosis = diagnoseJson(text);
+    setRepair(prev => (diagnosis.issues.length > 0 ? { text, diagnosis, version: (prev?.version ?? 0) + 1 } : null));
+  };
+
+  const handleApplyRepairs = async (issues: JsonRepairIssue[]) => {
+    if (!repair) return;
+    const text = applyRepairs(repair.text, issues);
+    try {
+      const parsed = parseDocument(text, 'json');
+      setRepair(null);
+      setError(null);
+      handleParsed({ ...parsed, hash: await hashContent(text) });
+    } catch (err) {
+      setError(t('app.repairFailed', { message: err instanceof Error ? err.message : String(err) }));
+      offerRepair(text);
+    }
+  };
+
+  const handleDownloadRepaired = (issues: JsonRepairIssue[]) => {
+    if (!repair) return;
+    downloadText(applyRepairs(repair.text, issues), `repaired_${file?.name || 'knowledge_base.json'}`);
   };
 
-  const handleProcess = async () => {
+  const recordEdit = (state: EditState, action: HistoryAction) => {
+    setHistory(prev => (prev ? pushHistory(prev, state, action) : createHistory(state, action)));
+  };
+
+  const handleReviewChange = (next: FieldChange[]) => {
+    recordEdit({ data: processedData, changes: next, renderIssues }, { key: 'editHistory.review' });
+  };
+
+  const handleEditField = (field: EditableField, value: string) => {
+    const before = String(getAtPath(originalData, parsePath(field.path)) ?? '');
+    recordEdit(
+      { data: processedData, changes: editField(changes, field, before, value), renderIssues },
+      { key: 'editHistory.edit', params: { path: field.path } }
+    );
+  };
+
+  // Sends one item to the model again. An accepted result replaces the item's
+  // fields and changes as one undoable step; a rejected one leaves them as they were.
+  const handleRerunUnit = async (unitPath: string) => {
     if (!originalData) return;
+    setRerunningPath(unitPath);
+    setRerunError(null);
+    const startedAt = Date.now();
+    try {
+      const result = await reprocessUnit(originalData, unitPath, processOptions);
+      const run = await buildAuditRun(provider, profile, 'llm', startedAt, result, [unitPath]);
+      setAuditRuns(prev => [...prev, run]);
+      if (result.failures.length > 0) {
+        setRerunError({ path: unitPath, message: result.failures[0].reason });
+        return;
+      }
+      // Applied to the latest snapshot, so edits made while the request was out are kept.
+      setHistory(prev => {
+        if (!prev) return prev;
+        const state = prev.present.state;
+        return pushHistory(prev, {
+          ...replaceUnits(state, originalData, result.data, fieldRules, [unitPath]),
+          renderIssues: [...state.renderIssues.filter(issue => issue.unitPath !== unitPath), ...result.renderIssues],
+        }, { key: 'editHistory.rerun', params: { path: unitPath } });
+      });
+      setUnitSources(prev => ({ ...prev, ...result.sources }));
+      if (failures.some(failure => failure.path === unitPath)) {
+        setFailures(prev => prev.filter(failure => failure.path !== unitPath));
+        setResultStats(prev => prev && { ...prev, success: prev.success + 1, failed: prev.failed - 1 });
+      }
+    } catch (err) {
+      setRerunError({ path: unitPath, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setRerunningPath(null);
+    }
+  };
 
+  const runProcessing = async (
+    input: any,
+    extraOptions: Partial<ProcessOptions>,
+    previous: ProcessResult['stats'] | null = null,
+    mergeUnits?: string[]
+  ) => {
     setStatus('processing');
     setError(null);
     setResultStats(null);
     setProgress({ total: 0, current: 0, percentage: 0 });
+    setPaused(false);
+    setCancelled(false);
+    const controller = new RunController();
+    runControllerRef.current = controller;
+    const startedAt = Date.now();
+    // Retries and continued runs add to the log of the result they build on.
+    const continuing = previous !== null || mergeUnits !== undefined || extraOptions.checkpoint?.resume !== undefined;
 
     try {
-      const result: ProcessResult = await processJsonKnowledgeBase(originalData, (current, total) => {
-        setProgress({
+      const result: ProcessResult = await processJsonKnowledgeBase(input, (current, total, throughput) => {
+        setProgress(prev => ({
           current,
           total,
-          percentage: total > 0 ? Math.round((current / total) * 100) : 0
-        });
+          percentage: total > 0 ? Math.round((current / total) * 100) : 0,
+          throughput: throughput ?? prev.throughput,
+        }));
+      }, {
+        ...processOptions,
+        controller,
+        checkpoint: fileHash ? { store: indexedDbCheckpointStore, fileHash } : undefined,
+        ...extraOptions,
       });
+
+      // Items picked in search are taken into the existing result, replacing their earlier outcome.
+      const merged = mergeUnits && history && resultStats ? { units: mergeUnits, state: history.present.state, stats: resultStats } : null;
+      const nextFailures = merged
+        ? [...failures.filter(failure => !merged.units.includes(failure.path)), ...result.failures]
+        : result.failures;
+
+      // A retry only covers the previously failed items, so fold its counts into the earlier run.
+      const stats = merged
+        ? {
+            ...merged.stats,
+            success: merged.stats.success + failures.length - nextFailures.length,
+            failed: merged.stats.failed - failures.length + nextFailures.length,
+          }
+        : previous
+        ? {
+            ...previous,
+            success: previous.success + result.stats.success,
+            // Counted this way so that a cancelled retry keeps the items it never reached.
+            failed: previous.failed - result.stats.success - result.stats.cached,
+            local: previous.local + result.stats.local,
+            cached: previous.cached + result.stats.cached,
+          }
+        : result.stats;
       
-      setProcessedData(result.data);
-      setResultStats({ success: result.stats.success, failed: result.stats.failed });
+      // Keep review decisions and manual edits for changes a retry did not touch.
+      recordEdit(merged ? {
+        ...replaceUnits(merged.state, originalData, result.data, fieldRules, merged.units),
+        renderIssues: [...merged.state.renderIssues.filter(issue => !merged.units.includes(issue.unitPath)), ...result.renderIssues],
+      } : {
+        data: result.data,
+        changes: mergeChanges(changes, collectChanges(originalData, result.data, fieldRules)),
+        renderIssues: result.renderIssues,
+      }, { key: 'editHistory.run' });
+      setResultStats(stats);
+      const run = await buildAuditRun(provider, profile, mode, startedAt, result, extraOptions.onlyPaths);
+      setAuditRuns(prev => (continuing ? [...prev, run] : [run]));
+      setUnitSources(prev => (continuing ? { ...prev, ...result.sources } : result.sources));
+      setFailures(nextFailures);
+      setSavedCheckpoint(null);
+      setCancelled(result.cancelled);
       setStatus('complete');
       
-      if (result.stats.failed > 0) {
-          setError(`处理完成，但有 ${result.stats.failed} 个条目因网络或API限制跳过处理（保持原样）。`);
+      if (stats.failed > 0 && !result.cancelled) {
+          setError(t('app.skipped', { count: stats.failed }));
       }
 
     } catch (err: any) {
       console.error(err);
-      const msg = err instanceof Error ? err.message : "未知错误";
-      setError(`严重错误导致中断: ${msg}`);
+      const msg = err instanceof Error ? err.message : t('app.unknownError');
+      setError(t('app.fatal', { message: msg }));
       setStatus('error');
+    } finally {
+      runControllerRef.current = null;
+      setPaused(false);
     }
   };
 
+  const handleTogglePause = () => {
+    const controller = runControllerRef.current;
+    if (!controller) return;
+    if (controller.isPaused) {
+      controller.resume();
+    } else {
+      controller.pause();
+    }
+    setPaused(controller.isPaused);
+  };
+
+  const handleCancel = () => {
+    runControllerRef.current?.cancel();
+    setPaused(false);
+  };
+
+  // Picks up a cancelled run from its checkpoint, keeping review decisions already made.
+  const handleContinue = async () => {
+    if (!originalData || !fileHash) return;
+    const resume = await indexedDbCheckpointStore.load(fileHash).catch(() => []);
+    runProcessing(originalData, { checkpoint: { store: indexedDbCheckpointStore, fileHash, resume } });
+  };
+
+  const handleProcess = () => {
+    if (!originalData) return;
+    runProcessing(originalData, {});
+  };
+
+  const handleResume = () => {
+    if (!originalData || !savedCheckpoint) return;
+    runProcessing(originalData, { checkpoint: fileHash ? { store: indexedDbCheckpointStore, fileHash, resume: savedCheckpoint } : undefined });
+  };
+
+  const handleDiscardCheckpoint = async () => {
+    setSavedCheckpoint(null);
+    if (fileHash) {
+      await indexedDbCheckpointStore.clear(fileHash).catch(err => console.warn('Failed to clear checkpoint:', err));
+    }
+  };
+
+  // Processes only the items picked in search, from the original input. With a
+  // result already there, their fields are taken over into it.
+  const handleProcessSelection = (unitPaths: string[]) => {
+    if (!originalData) return;
+    runProcessing(originalData, { onlyPaths: unitPaths }, null, processedData ? unitPaths : undefined);
+  };
+
+  const handleRetryFailed = () => {
+    if (!processedData || failures.length === 0) return;
+    runProcessing(processedData, { onlyPaths: failures.map(f => f.path) }, resultStats);
+  };
+
   const handleDownload = () => {
     if (!processedData) return;
     
-    const jsonString = JSON.stringify(processedData, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `optimized_${file?.name || 'knowledge_base.json'}`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    // Only changes accepted in review make it into the export, written in the uploaded format.
+    try {
+      const text = serializeDocument(applyAcceptedChanges(originalData, changes), sourceFormat);
+      downloadText(text, `optimized_${file?.name || 'knowledge_base.json'}`, FORMAT_HANDLERS[sourceFormat.format].mimeType);
+    } catch (err) {
+      setError(t('app.exportFailed', { message: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const currentAuditLog = () =>
+    fileHash && resultStats && auditRuns.length > 0
+      ? buildAuditLog(fileHash, file?.name || 'knowledge_base.json', fieldRules, resultStats, auditRuns, changes, unitSources)
+      : null;
+
+  const handleExportAudit = (format: 'json' | 'html') => {
+    const log = currentAuditLog();
+    if (!log) return;
+    const title = (file?.name || 'knowledge_base').replace(/\.[^.]+$/, '');
+    if (format === 'json') downloadText(exportAuditJson(log), `audit_${title}.json`);
+    else downloadText(exportAuditHtml(log), `audit_${title}.html`, 'text/html');
+  };
+
+  // Reproduces a logged result on the same input without calling the model.
+  const handleAuditFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected || !originalData) return;
+    try {
+      const log = parseAuditLog(await selected.text());
+      if (log.inputHash !== fileHash) throw new Error(t('app.auditOtherFile'));
+      const { data, changes: replayed, mismatched } = replayAuditLog(originalData, log);
+      if (mismatched.length > 0) throw new Error(t('app.auditMismatch', { paths: mismatched.join('\n') }));
+      setHistory(createHistory({ data, changes: replayed, renderIssues: [] }, { key: 'editHistory.replay' }));
+      setResultStats(log.stats);
+      setFailures(log.runs[log.runs.length - 1]?.failures ?? []);
+      setAuditRuns(log.runs);
+      setUnitSources(Object.fromEntries(log.changes.flatMap(change => (change.source ? [[change.unitPath, change.source]] : []))));
+      setCancelled(false);
+      setError(null);
+      setStatus('complete');
+    } catch (err) {
+      setError(t('app.auditFailed', { message: err instanceof Error ? err.message : String(err) }));
+      setStatus('error');
+    }
+  };
+
+  const handleExportDocument = (format: DocumentFormat) => {
+    const { extension, mimeType, render } = DOCUMENT_EXPORTS[format];
+    const data = processedData ? applyAcceptedChanges(originalData, changes) : originalData;
+    const title = (file?.name || 'knowledge_base').replace(/\.[^.]+$/, '');
+    downloadText(render(data, title), `${title}${extension}`, mimeType);
+  };
+
+  // Rewrites the input before processing; checkpoints are looked up for the new content.
+  const replaceInput = (data: any) => {
+    setOriginalData(data);
+    hashContent(JSON.stringify(data, null, 2))
+      .then(loadCheckpoint)
+      .catch(err => console.warn('Checkpoints unavailable:', err));
+  };
+
+  // Fixes rewrite the input, so they are only offered before processing starts.
+  const handleApplyLintFixes = () => {
+    if (!originalData || !lintReport) return;
+    replaceInput(applyLintFixes(originalData, lintReport.issues));
+  };
+
+  // Before there is a result a bulk replace rewrites the input, like lint fixes;
+  // afterwards it is a set of manual edits that can be undone in one step.
+  const handleReplace = (replacements: Replacement[]) => {
+    if (!history) {
+      replaceInput(applyReplacements(originalData, replacements));
+      return;
+    }
+    const edited = replacements.reduce(
+      (acc, { field, after }) => editField(acc, field, String(getAtPath(originalData, parsePath(field.path)) ?? ''), after),
+      changes
+    );
+    recordEdit({ data: processedData, changes: edited, renderIssues }, { key: 'editHistory.replace', params: { count: replacements.length } });
+  };
+
+  const handleExportLint = () => {
+    if (!lintReport) return;
+    const name = file?.name || 'knowledge_base.json';
+    downloadText(exportLintReport(lintReport, name), `lint_${name}`);
+  };
+
+  const handleExportProfiles = () => {
+    downloadText(exportProfiles(profiles), 'rule_profiles.json');
+  };
+
+  const handleExportCache = (entries: CacheEntry[]) => {
+    downloadText(exportCache(entries), 'result_cache.json');
   };
 
   const handleReset = () => {
     setFile(null);
     setOriginalData(null);
-    setProcessedData(null);
+    setHistory(null);
+    setRerunError(null);
     setStatus('idle');
     setError(null);
     setResultStats(null);
+    setFailures([]);
+    setFileHash(null);
+    setSavedCheckpoint(null);
+    setRepair(null);
+    setAuditRuns([]);
+    setUnitSources({});
+    setViewMode('split');
+    setCancelled(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  const checkpointSummary = savedCheckpoint && summarizeCheckpoint(savedCheckpoint);
+  const auditLog = showAudit ? currentAuditLog() : null;
+  const acceptedCount = changes.filter(change => change.decision === 'accepted').length;
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
       {/* Header */}
@@ -118,14 +732,67 @@ const App: React.FC = () => {
             <div className="bg-indigo-600 p-2 rounded-lg">
               <RefreshCw className="w-5 h-5 text-white" />
             </div>
-            <h1 className="text-xl font-bold text-slate-800">最优化 JSON 知识库标准化工具</h1>
+            <h1 className="text-xl font-bold text-slate-800">{t('app.title')}</h1>
           </div>
-          <div className="text-sm text-slate-500 hidden sm:block">
-            由 Gemini 1.5 Flash 驱动 (高容错模式)
+          <div className="flex items-center gap-3">
+            <div className="text-sm text-slate-500 hidden sm:block">
+              {t('app.poweredBy', { provider: t(PROVIDER_LABELS[provider.kind]) })} <span className="font-mono">{provider.model}</span> {t('app.poweredBySuffix')}
+            </div>
+            <label className="flex items-center gap-1 text-slate-500" title={t('app.interfaceLanguage')}>
+              <Languages className="w-5 h-5" />
+              <select
+                value={locale}
+                onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+                className="text-sm bg-transparent text-slate-600 focus:outline-none"
+              >
+                {(Object.keys(LOCALE_NAMES) as Locale[]).map(key => <option key={key} value={key}>{LOCALE_NAMES[key]}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={() => setShowCache(true)}
+              className="p-2 rounded-lg text-slate-500 hover:text-indigo-600 hover:bg-slate-100"
+              title={t('cachePanel.title')}
+            >
+              <Database className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-2 rounded-lg text-slate-500 hover:text-indigo-600 hover:bg-slate-100"
+              title={t('settings.title')}
+            >
+              <Settings className="w-5 h-5" />
+            </button>
           </div>
         </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          settings={providerSettings}
+          onChange={setProviderSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {auditLog && (
+        <AuditLogPanel
+          log={auditLog}
+          onExportJson={() => handleExportAudit('json')}
+          onExportHtml={() => handleExportAudit('html')}
+          onClose={() => setShowAudit(false)}
+        />
+      )}
+
+      {showCache && (
+        <CachePanel
+          cache={indexedDbResultCache}
+          enabled={useCache}
+          onEnabledChange={setUseCache}
+          onExport={handleExportCache}
+          onClose={() => setShowCache(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
         
@@ -134,29 +801,145 @@ const App: React.FC = () => {
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 text-red-700">
             <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
             <div>
-              <h3 className="font-semibold">错误</h3>
+              <h3 className="font-semibold">{t('app.error')}</h3>
               <p className="text-sm whitespace-pre-wrap">{error}</p>
             </div>
           </div>
         )}
+
+        {repair && status === 'error' && (
+          <JsonRepairPanel
+            key={repair.version}
+            text={repair.text}
+            diagnosis={repair.diagnosis}
+            onApply={handleApplyRepairs}
+            onDownload={handleDownloadRepaired}
+          />
+        )}
         
+        {status === 'complete' && cancelled && resultStats && (
+          <div className="mb-6 p-4 bg-slate-100 border border-slate-300 rounded-lg flex items-start gap-3 text-slate-700">
+            <Square className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold">{t('app.cancelled.title')}</h3>
+              <p className="text-sm">
+                {t('app.cancelled.body', { done: resultStats.success + resultStats.failed + resultStats.cached, total: resultStats.total })}
+              </p>
+              {fileHash && (
+                <button
+                  onClick={handleContinue}
+                  className="mt-3 text-sm font-medium text-slate-800 hover:text-slate-950 flex items-center gap-1 underline"
+                >
+                  <Play className="w-4 h-4" /> {t('app.cancelled.continue')}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {status === 'complete' && resultStats && resultStats.failed > 0 && (
            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3 text-amber-800">
             <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0" />
             <div>
-              <h3 className="font-semibold">部分完成</h3>
+              <h3 className="font-semibold">{t('app.partial.title')}</h3>
+              <p className="text-sm">
+                {t('app.partial.processed', { count: resultStats.success + resultStats.failed + resultStats.cached })}
+                {t('app.partial.succeeded', { count: resultStats.success })}
+                {resultStats.cached > 0 && t('app.partial.cached', { count: resultStats.cached })}
+                {t('app.partial.failed', { count: resultStats.failed })}
+              </p>
+              {failures.length > 0 && (
+                <ul className="mt-2 text-xs font-mono text-amber-700 space-y-0.5">
+                  {failures.slice(0, 5).map(failure => (
+                    <li key={failure.path}>{failure.path} — {failure.reason}</li>
+                  ))}
+                  {failures.length > 5 && <li>{t('app.partial.more', { count: failures.length - 5 })}</li>}
+                </ul>
+              )}
+              <button
+                onClick={handleRetryFailed}
+                className="mt-3 text-sm font-medium text-amber-900 hover:text-amber-950 flex items-center gap-1 underline"
+              >
+                <RotateCcw className="w-4 h-4" /> {t('app.partial.retry')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status === 'complete' && renderIssues.length > 0 && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 text-red-700">
+            <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold">{t('app.render.title')}</h3>
               <p className="text-sm">
-                共处理 {resultStats.success + resultStats.failed} 条数据。
-                成功标准化 <span className="font-bold">{resultStats.success}</span> 条。
-                <span className="font-bold text-red-600">{resultStats.failed}</span> 条因 API 限制保持原样（未修改）。
-                建议检查结果后，再次上传处理未完成的部分。
+                {t('app.render.body', { count: renderIssues.length })}
+                <button onClick={() => setViewMode('preview')} className="ml-1 underline font-medium">{t('app.render.show')}</button>
               </p>
             </div>
           </div>
         )}
 
+        {checkpointSummary && status === 'idle' && originalData && (
+          <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg flex items-start gap-3 text-indigo-800">
+            <History className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">
+              <h3 className="font-semibold">{t('app.checkpoint.title')}</h3>
+              <p className="text-sm">
+                {t('app.checkpoint.body', { time: formatDateTime(checkpointSummary.updatedAt), done: checkpointSummary.done, failed: checkpointSummary.failed })}
+              </p>
+              <div className="mt-3 flex gap-3">
+                <Button onClick={handleResume}>
+                  <History className="w-4 h-4" /> {t('app.checkpoint.resume')}
+                </Button>
+                <Button onClick={handleDiscardCheckpoint} variant="outline">
+                  {t('app.checkpoint.discard')}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* State: Workspace */}
+        {workspace && !originalData && (
+          <>
+            <div className="flex items-center gap-3 mb-4">
+              <button
+                onClick={() => setShowFieldSelector(!showFieldSelector)}
+                className={`text-sm flex items-center gap-1 ${showFieldSelector ? 'text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}
+              >
+                <ListFilter className="w-4 h-4" /> {t('fieldEditor.title')}
+              </button>
+              <button
+                onClick={() => setShowProfiles(!showProfiles)}
+                className={`text-sm flex items-center gap-1 ${showProfiles ? 'text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}
+              >
+                <BookOpen className="w-4 h-4" /> {t('app.profile', { name: profile.name })}
+              </button>
+            </div>
+            {showFieldSelector && (
+              <FieldSelectorEditor rules={fieldRules} data={workspace.map(f => f.originalData)} onChange={setFieldRules} />
+            )}
+            {showProfiles && (
+              <ProfileEditor
+                profiles={profiles}
+                selectedId={profile.id}
+                onChange={setProfiles}
+                onSelect={setSelectedProfileId}
+                onExport={handleExportProfiles}
+              />
+            )}
+            <WorkspacePanel
+              files={workspace}
+              onUpdate={handleWorkspaceUpdate}
+              processOptions={processOptions}
+              onDownload={handleWorkspaceDownload}
+              onClose={() => setWorkspace(null)}
+            />
+          </>
+        )}
+
         {/* State: No File Selected */}
-        {!originalData && (
+        {!originalData && !workspace && (
           <div className="max-w-xl mx-auto mt-12">
             <div 
               className="border-2 border-dashed border-slate-300 rounded-xl p-12 text-center bg-white hover:border-indigo-500 transition-colors cursor-pointer shadow-sm"
@@ -165,16 +948,26 @@ const App: React.FC = () => {
               <div className="bg-indigo-50 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Upload className="w-8 h-8 text-indigo-600" />
               </div>
-              <h2 className="text-xl font-semibold text-slate-900 mb-2">上传知识库文件</h2>
-              <p className="text-slate-500 mb-6">请选择包含最优化算法知识点的 JSON 文件。</p>
-              <Button onClick={(e) => { e.stopPropagation(); fileInputRef.current?.click(); }}>
-                选择文件
-              </Button>
+              <h2 className="text-xl font-semibold text-slate-900 mb-2">{t('app.upload.title')}</h2>
+              <p className="text-slate-500 mb-6">{t('app.upload.hint')}</p>
+              {status === 'parsing' ? (
+                <div className="max-w-xs mx-auto">
+                  <div className="text-sm text-slate-500 mb-2">{t('app.upload.parsing', { file: file?.name ?? t('app.upload.file'), progress: parseProgress })}</div>
+                  <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-600 transition-all duration-200" style={{ width: `${parseProgress}%` }}></div>
+                  </div>
+                </div>
+              ) : (
+                <Button onClick={(e) => { e.stopPropagation(); fileInputRef.current?.click(); }}>
+                  {t('app.upload.choose')}
+                </Button>
+              )}
               <input 
                 type="file" 
                 ref={fileInputRef} 
                 onChange={handleFileChange} 
-                accept=".json" 
+                accept={[...ACCEPTED_EXTENSIONS, ZIP_EXTENSION].join(',')}
+                multiple
                 className="hidden" 
               />
             </div>
@@ -182,24 +975,28 @@ const App: React.FC = () => {
             <div className="mt-8 bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
               <h3 className="font-semibold text-slate-800 mb-3 flex items-center gap-2">
                 <CheckCircle className="w-4 h-4 text-green-500" />
-                自动化处理任务
+                {t('app.tasks.title')}
               </h3>
               <ul className="space-y-2 text-sm text-slate-600">
                 <li className="flex gap-2">
                   <span className="font-mono bg-slate-100 px-1 rounded text-xs py-0.5">math</span>
-                  数学符号补全：将变量（如 x, A, b）包裹在 LaTeX $ 符号中。
+                  {t('app.tasks.math')}
                 </li>
                 <li className="flex gap-2">
                   <span className="font-mono bg-slate-100 px-1 rounded text-xs py-0.5">merge</span>
-                  公式合并：合并相邻的数学块（如 $min$ $f(x)$ → $min f(x)$）。
+                  {t('app.tasks.merge')}
                 </li>
                 <li className="flex gap-2">
                   <span className="font-mono bg-slate-100 px-1 rounded text-xs py-0.5">escape</span>
-                  转义处理：应用双反斜杠以符合 JSON 格式（如 \\min）。
+                  {t('app.tasks.escape')}
+                </li>
+                <li className="flex gap-2">
+                  <span className="font-mono bg-slate-100 px-1 rounded text-xs py-0.5">local</span>
+                  {t('app.tasks.local')}
                 </li>
                 <li className="flex gap-2">
                   <span className="font-mono bg-slate-100 px-1 rounded text-xs py-0.5">robust</span>
-                  高容错模式：即使部分处理失败，也能返回已完成的数据。
+                  {t('app.tasks.robust')}
                 </li>
               </ul>
             </div>
@@ -217,16 +1014,56 @@ const App: React.FC = () => {
                   <span className="text-sm font-medium text-slate-700">{file?.name}</span>
                 </div>
                 <button onClick={handleReset} className="text-sm text-slate-500 hover:text-red-600 underline">
-                  更换文件
+                  {t('app.changeFile')}
+                </button>
+                <button
+                  onClick={() => setShowFieldSelector(!showFieldSelector)}
+                  className={`text-sm flex items-center gap-1 ${showFieldSelector ? 'text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}
+                >
+                  <ListFilter className="w-4 h-4" /> {t('fieldEditor.title')}
                 </button>
+                <button
+                  onClick={() => setShowProfiles(!showProfiles)}
+                  className={`text-sm flex items-center gap-1 ${showProfiles ? 'text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}
+                >
+                  <BookOpen className="w-4 h-4" /> {t('app.profile', { name: profile.name })}
+                </button>
+                {lintReport && (
+                  <button
+                    onClick={() => setShowLint(!showLint)}
+                    className={`text-sm flex items-center gap-1 ${showLint ? 'text-indigo-600' : 'text-slate-500 hover:text-indigo-600'}`}
+                  >
+                    <ShieldCheck className="w-4 h-4" /> {t('lintPanel.title')}
+                    {lintReport.issues.length > 0 && (
+                      <span className={`text-xs px-1.5 rounded-full ${lintReport.issues.some(i => i.severity === 'error') ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                        {lintReport.issues.length}
+                      </span>
+                    )}
+                  </button>
+                )}
+                {status !== 'processing' && (
+                  <button
+                    onClick={() => auditInputRef.current?.click()}
+                    className="text-sm flex items-center gap-1 text-slate-500 hover:text-indigo-600"
+                    title={t('app.applyAuditHint')}
+                  >
+                    <ScrollText className="w-4 h-4" /> {t('app.applyAudit')}
+                  </button>
+                )}
+                <input ref={auditInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleAuditFile} />
               </div>
 
               <div className="flex items-center gap-3 flex-1 justify-end">
                 {status === 'processing' && (
                    <div className="flex flex-col items-end mr-4 min-w-[200px]">
                      <div className="flex justify-between w-full text-xs mb-1">
-                        <span className="text-slate-500 font-medium">处理进度</span>
-                        <span className="text-indigo-600 font-bold">{progress.percentage}%</span>
+                        <span className="text-slate-500 font-medium">{t('app.progress')}</span>
+                        <span className="text-indigo-600 font-bold">
+                          {progress.throughput && progress.throughput.etaSeconds !== null && (
+                            <span className="text-slate-400 font-normal mr-2">{t('app.remaining', { eta: formatEta(progress.throughput.etaSeconds) })}</span>
+                          )}
+                          {progress.percentage}%
+                        </span>
                      </div>
                      <div className="w-full h-2.5 bg-slate-200 rounded-full overflow-hidden shadow-inner">
                        <div 
@@ -237,27 +1074,175 @@ const App: React.FC = () => {
                    </div>
                 )}
                 
+                {status !== 'complete' && status !== 'processing' && (
+                  <select
+                    value={mode}
+                    onChange={(e) => setMode(e.target.value as NormalizationMode)}
+                    className="text-sm border border-slate-300 rounded-lg px-2 py-2 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    title={t('app.mode')}
+                  >
+                    <option value="hybrid">{t('app.mode.hybrid')}</option>
+                    <option value="local">{t('app.mode.local')}</option>
+                    <option value="llm">{t('app.mode.llm')}</option>
+                  </select>
+                )}
+
+                {status !== 'complete' && status !== 'processing' && (
+                  <select
+                    value={contentLanguage}
+                    onChange={(e) => setContentLanguage(e.target.value as ContentLanguageSetting)}
+                    className="text-sm border border-slate-300 rounded-lg px-2 py-2 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    title={t('app.contentLanguage')}
+                  >
+                    <option value="auto">
+                      {t('app.contentLanguage.auto', { language: detectedLanguage ? t(CONTENT_LANGUAGE_LABELS[detectedLanguage]) : '—' })}
+                    </option>
+                    {(Object.keys(CONTENT_LANGUAGE_LABELS) as ContentLanguage[]).map(language => (
+                      <option key={language} value={language}>{t('app.contentLanguage.fixed', { language: t(CONTENT_LANGUAGE_LABELS[language]) })}</option>
+                    ))}
+                  </select>
+                )}
+
+                {status === 'processing' && (
+                  <>
+                    <Button onClick={handleTogglePause} variant="outline">
+                      {paused ? <><Play className="w-4 h-4" /> {t('common.resume')}</> : <><Pause className="w-4 h-4" /> {t('common.pause')}</>}
+                    </Button>
+                    <Button onClick={handleCancel} variant="outline" className="text-red-600 hover:bg-red-50">
+                      <Square className="w-4 h-4" /> {t('common.cancel')}
+                    </Button>
+                  </>
+                )}
+
                 {status !== 'complete' && status !== 'processing' && (
                   <Button onClick={handleProcess} variant="primary">
-                    开始 AI 格式化 <ArrowRight className="w-4 h-4" />
+                    {t('app.start')} <ArrowRight className="w-4 h-4" />
+                  </Button>
+                )}
+
+                {status !== 'processing' && history && (
+                  <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+                    <button
+                      onClick={() => setHistory(undo(history))}
+                      disabled={history.past.length === 0}
+                      className="px-2.5 py-2 bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title={history.past.length > 0 ? t('app.undo', { action: describeAction(history.present.action) }) : t('app.nothingToUndo')}
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setHistory(redo(history))}
+                      disabled={history.future.length === 0}
+                      className="px-2.5 py-2 bg-white text-slate-600 hover:bg-slate-50 border-l border-slate-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title={history.future.length > 0 ? t('app.redo', { action: describeAction(history.future[0].action) }) : t('app.nothingToRedo')}
+                    >
+                      <Redo2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+
+                {status !== 'processing' && (
+                  <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+                    {VIEW_MODES.map(({ mode: key, label, icon: Icon, needsResult }) => (
+                      <button
+                        key={key}
+                        onClick={() => setViewMode(key)}
+                        disabled={needsResult && !processedData}
+                        className={`px-3 py-2 text-sm flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed ${viewMode === key ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                      >
+                        <Icon className="w-4 h-4" /> {t(label)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {status !== 'processing' && (Object.keys(DOCUMENT_EXPORTS) as DocumentFormat[]).map(format => (
+                  <Button key={format} onClick={() => handleExportDocument(format)} variant="outline">
+                    <FileText className="w-4 h-4" /> {t(DOCUMENT_EXPORTS[format].label)}
+                  </Button>
+                ))}
+
+                {status === 'complete' && auditRuns.length > 0 && (
+                  <Button onClick={() => setShowAudit(true)} variant="outline">
+                    <ScrollText className="w-4 h-4" /> {t('auditPanel.title')}
                   </Button>
                 )}
 
                 {status === 'complete' && (
                   <Button onClick={handleDownload} variant="primary" className="bg-green-600 hover:bg-green-700 focus:ring-green-500">
-                    <Download className="w-4 h-4" /> 下载结果
+                    <Download className="w-4 h-4" /> {t(cancelled ? 'app.downloadPartial' : 'app.download', { accepted: acceptedCount, total: changes.length })}
                   </Button>
                 )}
               </div>
             </div>
 
-            {/* Split View */}
+            {showFieldSelector && (
+              <FieldSelectorEditor rules={fieldRules} data={originalData} onChange={setFieldRules} />
+            )}
+
+            {showProfiles && (
+              <ProfileEditor
+                profiles={profiles}
+                selectedId={profile.id}
+                onChange={setProfiles}
+                onSelect={setSelectedProfileId}
+                onExport={handleExportProfiles}
+              />
+            )}
+
+            {showLint && lintReport && (
+              <LintReportPanel
+                report={lintReport}
+                options={lintOptions}
+                onOptionsChange={setLintOptions}
+                onApplyFixes={status === 'idle' ? handleApplyLintFixes : undefined}
+                onExport={handleExportLint}
+              />
+            )}
+
+            {viewMode === 'search' && status !== 'processing' ? (
+              <SearchPanel
+                originalData={originalData}
+                processedData={processedData}
+                changes={changes}
+                failures={failures}
+                fieldRules={fieldRules}
+                onProcess={handleProcessSelection}
+                onReplace={handleReplace}
+                className="flex-1 min-h-0"
+              />
+            ) : viewMode === 'review' && processedData ? (
+              <ReviewPanel changes={changes} onChange={handleReviewChange} renderIssues={renderIssues} className="flex-1 min-h-0" />
+            ) : viewMode === 'edit' && processedData ? (
+              <ItemEditor
+                originalData={originalData}
+                processedData={processedData}
+                changes={changes}
+                fieldRules={fieldRules}
+                onEdit={handleEditField}
+                onRerun={handleRerunUnit}
+                rerunningPath={rerunningPath}
+                rerunError={rerunError}
+                className="flex-1 min-h-0"
+              />
+            ) : viewMode === 'graph' && status !== 'processing' ? (
+              <GraphExplorer originalData={originalData} processedData={processedData} className="flex-1 min-h-0" />
+            ) : viewMode === 'preview' && processedData ? (
+              <MathPreviewPanel
+                originalData={originalData}
+                processedData={processedData}
+                fieldRules={fieldRules}
+                renderIssues={renderIssues}
+                className="flex-1 min-h-0"
+              />
+            ) : (
+            /* Split View */
             <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-4 min-h-0">
               {/* Original */}
               <div className="min-h-0 flex flex-col">
                 <JsonViewer 
                   data={originalData} 
-                  title="原始数据" 
+                  title={t('app.original')} 
                   className="h-full"
                 />
               </div>
@@ -267,21 +1252,21 @@ const App: React.FC = () => {
                 {processedData ? (
                    <JsonViewer 
                    data={processedData} 
-                   title={resultStats ? `格式化结果 (成功: ${resultStats.success}, 跳过: ${resultStats.failed})` : "格式化结果"} 
+                   title={resultStats ? t('app.resultWithStats', { ...resultStats }) : t('app.result')} 
                    className="h-full"
                  />
                 ) : (
                   <div className="h-full bg-slate-50 border-2 border-dashed border-slate-300 rounded-lg flex flex-col items-center justify-center text-slate-400 p-6">
                      {status === 'processing' ? (
                        <div className="text-center w-full max-w-sm">
-                         <div className="w-16 h-16 border-[6px] border-indigo-100 border-t-indigo-600 rounded-full animate-spin mx-auto mb-6"></div>
+                         <div className={`w-16 h-16 border-[6px] border-indigo-100 border-t-indigo-600 rounded-full mx-auto mb-6 ${paused ? '' : 'animate-spin'}`}></div>
                          
-                         <h3 className="text-slate-800 font-bold text-xl mb-2">正在深度标准化...</h3>
-                         <p className="text-slate-500 mb-8">正在以高容错模式处理数据 (批次: 3条/次)</p>
+                         <h3 className="text-slate-800 font-bold text-xl mb-2">{paused ? t('app.paused') : t('app.processing')}</h3>
+                         <p className="text-slate-500 mb-8">{paused ? t('app.pausedHint') : t('app.processingHint')}</p>
                          
                          <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-lg text-left">
                             <div className="flex justify-between items-end mb-2">
-                                <span className="text-sm font-semibold text-slate-600">已处理条目</span>
+                                <span className="text-sm font-semibold text-slate-600">{t('app.processedItems')}</span>
                                 <div className="text-right">
                                     <span className="text-2xl font-bold text-indigo-600">{progress.current}</span>
                                     <span className="text-slate-400 text-sm ml-1">/ {progress.total}</span>
@@ -294,22 +1279,43 @@ const App: React.FC = () => {
                                     style={{ width: `${progress.percentage}%` }}
                                 ></div>
                             </div>
-                            <p className="text-xs text-slate-400 text-center mt-2">
-                                为防止 API 限流，处理速度已限制。请耐心等待。
-                            </p>
+                            {progress.throughput ? (
+                              <div className="grid grid-cols-3 gap-2 text-center mt-3">
+                                <div>
+                                  <div className="text-sm font-semibold text-slate-700">{progress.throughput.itemsPerMinute}</div>
+                                  <div className="text-xs text-slate-400">{t('app.itemsPerMinute')}</div>
+                                </div>
+                                <div>
+                                  <div className="text-sm font-semibold text-slate-700">{formatEta(progress.throughput.etaSeconds)}</div>
+                                  <div className="text-xs text-slate-400">{t('app.eta')}</div>
+                                </div>
+                                <div>
+                                  <div className="text-sm font-semibold text-slate-700">{progress.throughput.inFlight} / {progress.throughput.concurrency}</div>
+                                  <div className="text-xs text-slate-400">{t('app.inFlight')}</div>
+                                </div>
+                              </div>
+                            ) : (
+                              <p className="text-xs text-slate-400 text-center mt-2">{t('app.firstBatch')}</p>
+                            )}
+                            {progress.throughput && progress.throughput.pausedForMs > 0 && (
+                              <p className="text-xs text-amber-600 text-center mt-2">
+                                {t('app.rateLimited', { seconds: Math.ceil(progress.throughput.pausedForMs / 1000) })}
+                              </p>
+                            )}
                          </div>
                        </div>
                      ) : (
                         <>
                           <ArrowRight className="w-16 h-16 mb-4 opacity-10 text-slate-400" />
-                          <p className="text-lg font-medium text-slate-400">处理后的结果将显示在这里</p>
-                          <p className="text-sm text-slate-300 mt-2">点击上方“开始 AI 格式化”按钮开始</p>
+                          <p className="text-lg font-medium text-slate-400">{t('app.emptyResult')}</p>
+                          <p className="text-sm text-slate-300 mt-2">{t('app.emptyResultHint')}</p>
                         </>
                      )}
                   </div>
                 )}
               </div>
             </div>
+            )}
           </div>
         )}
       </main>
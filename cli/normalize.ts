@@ -0,0 +1,321 @@
+// Headless entry point: runs the same pipeline as the web app over files on disk.
+//
+//   npm run normalize -- "kb/**/*.json" --out-dir normalized --provider gemini
+//   npm run normalize -- chapter1.json --in-place --mode local
+//   npm run normalize -- "kb/*.json" --dry-run --report report.json
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_MAX_BATCH_ITEMS, DEFAULT_MAX_BATCH_TOKENS, ProcessFailure, ProcessResult, RenderIssue, processJsonKnowledgeBase } from '../services/geminiService';
+import { DEFAULT_MODELS } from '../services/llmProvider';
+import { createProvider } from '../services/providerFactory';
+import { DEFAULT_FIELD_RULES } from '../services/fieldSelector';
+import { DEFAULT_RATE_LIMITS } from '../services/scheduler';
+import { RunController } from '../services/runController';
+import { BUILT_IN_PROFILES, RuleProfile, parseProfiles } from '../services/ruleProfiles';
+import { createMemoryResultCache, exportCache, parseCacheExport } from '../services/resultCache';
+import { ACCEPTED_EXTENSIONS, detectFormat, parseDocument, serializeDocument } from '../services/formats';
+import { localeFromTags, setLocale } from '../services/i18n';
+import { ContentLanguage, NormalizationMode, ProviderKind } from '../types';
+
+const USAGE = `Usage: npm run normalize -- <file|dir|glob>... [options]
+
+Options:
+  -o, --out <file>          Output file (single input only)
+      --out-dir <dir>       Write outputs here, mirroring the input layout
+      --in-place            Overwrite the input files
+      --dry-run             Process but write nothing (use with --report)
+      --report <file>       Write a JSON report of stats and failures
+      --provider <name>     gemini | openai | proxy | mock (default: gemini)
+      --model <id>          Model id (default depends on provider)
+      --base-url <url>      Endpoint for the openai provider or the proxy
+      --mode <mode>         hybrid | local | llm (default: hybrid)
+      --fields <patterns>   Comma-separated field patterns (default: $..name,$..description)
+      --language <lang>     Content language: auto | zh | en (default: auto, detected per file)
+      --profile <id|file>   Rule profile: ${BUILT_IN_PROFILES.map(p => p.id).join(' | ')} (default: ${BUILT_IN_PROFILES[0].id}),
+                            or a profile file exported from the web app (first profile, or
+                            file.json#<id>)
+      --cache <file>        Reuse and extend a result cache file (created if missing;
+                            also reads caches exported from the web app)
+      --batch-size <n>      Maximum items per request (default: ${DEFAULT_MAX_BATCH_ITEMS})
+      --batch-tokens <n>    Estimated tokens per request (default: ${DEFAULT_MAX_BATCH_TOKENS})
+      --concurrency <n>     Maximum requests in flight (default: ${DEFAULT_RATE_LIMITS.maxConcurrency})
+      --rpm <n>             Requests per minute budget (default: ${DEFAULT_RATE_LIMITS.requestsPerMinute})
+      --tpm <n>             Tokens per minute budget (default: ${DEFAULT_RATE_LIMITS.tokensPerMinute})
+  -q, --quiet               Only print the summary
+  -h, --help                Show this help
+
+Without --out, --out-dir or --in-place, results are written next to the input
+as optimized_<name>. The API key is read from API_KEY (or GEMINI_API_KEY /
+OPENAI_API_KEY for the respective provider). Messages in the report follow
+LC_ALL / LANG (Chinese for zh_*, English otherwise).
+
+Supported inputs: ${ACCEPTED_EXTENSIONS.join(' ')}. Each file is written back in
+its own format.
+
+Ctrl+C cancels the run: the file in progress is written with the items
+finished so far and the remaining files are skipped. Press it again to exit
+immediately.`;
+
+interface FileReport {
+  input: string;
+  output: string | null;
+  changed: boolean;
+  cancelled?: boolean;
+  language?: ContentLanguage;
+  stats?: ProcessResult['stats'];
+  failures: ProcessFailure[];
+  renderIssues: RenderIssue[];
+  error?: string;
+}
+
+const GLOB_CHARS = /[*?[]/;
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories.
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async entry => {
+    if (entry.name === 'node_modules' || entry.name.startsWith('.')) return [];
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : [full];
+  }));
+  return files.flat();
+}
+
+/** Expands files, directories (every supported format inside) and glob patterns. */
+async function expandInputs(patterns: string[]): Promise<string[]> {
+  const found = new Set<string>();
+  for (const pattern of patterns) {
+    const normalized = pattern.split(path.sep).join('/');
+    if (GLOB_CHARS.test(normalized)) {
+      const segments = normalized.split('/');
+      const firstGlob = segments.findIndex(s => GLOB_CHARS.test(s));
+      const base = segments.slice(0, firstGlob).join('/') || '.';
+      const regex = globToRegExp(normalized.replace(/^\.\//, ''));
+      for (const file of await walk(base)) {
+        const relative = file.split(path.sep).join('/').replace(/^\.\//, '');
+        if (regex.test(relative)) found.add(file);
+      }
+      continue;
+    }
+    const stat = await fs.stat(pattern).catch(() => null);
+    if (!stat) throw new Error(`Input not found: ${pattern}`);
+    if (stat.isDirectory()) {
+      (await walk(pattern)).filter(f => detectFormat(f) !== null).forEach(f => found.add(f));
+    } else {
+      found.add(pattern);
+    }
+  }
+  return Array.from(found).sort();
+}
+
+function positiveInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`--${name} must be a positive integer`);
+  return n;
+}
+
+/** Resolves --profile to a built-in profile id or an exported profile file. */
+async function loadProfile(spec: string): Promise<RuleProfile> {
+  const builtIn = BUILT_IN_PROFILES.find(p => p.id === spec);
+  if (builtIn) return builtIn;
+  const [file, id] = spec.split('#');
+  if (!(await fs.stat(file).catch(() => null))) throw new Error(`Unknown profile: ${spec}`);
+  const profiles = parseProfiles(await fs.readFile(file, 'utf8'));
+  const profile = id ? profiles.find(p => p.id === id) : profiles[0];
+  if (!profile) throw new Error(`Profile ${id} not found in ${file}`);
+  return profile;
+}
+
+function outputPathFor(input: string, inputs: string[], args: Record<string, any>): string {
+  if (args['in-place']) return input;
+  if (args.out) return args.out;
+  if (args['out-dir']) {
+    // Mirror the layout below the deepest directory shared by all inputs.
+    const dirs = inputs.map(f => path.dirname(path.resolve(f)));
+    let common = dirs[0];
+    while (!dirs.every(d => d === common || d.startsWith(common + path.sep))) {
+      common = path.dirname(common);
+    }
+    return path.join(args['out-dir'], path.relative(common, path.resolve(input)));
+  }
+  return path.join(path.dirname(input), `optimized_${path.basename(input)}`);
+}
+
+async function main() {
+  // Failure reasons and other messages follow the terminal's locale; CI shells without one get English.
+  setLocale(localeFromTags([process.env.LC_ALL, process.env.LC_MESSAGES, process.env.LANG], 'en'));
+  const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      'out-dir': { type: 'string' },
+      'in-place': { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      report: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      mode: { type: 'string' },
+      fields: { type: 'string' },
+      language: { type: 'string' },
+      profile: { type: 'string' },
+      cache: { type: 'string' },
+      'batch-size': { type: 'string' },
+      'batch-tokens': { type: 'string' },
+      concurrency: { type: 'string' },
+      rpm: { type: 'string' },
+      tpm: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (args.help || positionals.length === 0) {
+    console.log(USAGE);
+    process.exit(args.help ? 0 : 2);
+  }
+
+  const kind = (args.provider ?? 'gemini') as ProviderKind;
+  if (!(kind in DEFAULT_MODELS)) throw new Error(`Unknown provider: ${kind}`);
+  const mode = (args.mode ?? 'hybrid') as NormalizationMode;
+  if (!['hybrid', 'local', 'llm'].includes(mode)) throw new Error(`Unknown mode: ${mode}`);
+  const language = args.language === undefined || args.language === 'auto' ? undefined : args.language as ContentLanguage;
+  if (language && !['zh', 'en'].includes(language)) throw new Error(`Unknown language: ${language}`);
+
+  const apiKey = process.env.API_KEY
+    || (kind === 'gemini' ? process.env.GEMINI_API_KEY : kind === 'openai' ? process.env.OPENAI_API_KEY : undefined);
+  const provider = createProvider({
+    kind,
+    model: args.model ?? DEFAULT_MODELS[kind],
+    baseUrl: args['base-url'],
+    apiKey,
+  });
+  const fields = args.fields
+    ? args.fields.split(',').map(pattern => ({ pattern: pattern.trim() })).filter(f => f.pattern)
+    : DEFAULT_FIELD_RULES;
+  const profile = args.profile ? await loadProfile(args.profile) : undefined;
+  const cacheText = args.cache ? await fs.readFile(args.cache, 'utf8').catch(() => null) : null;
+  const cache = args.cache ? createMemoryResultCache(cacheText ? parseCacheExport(cacheText) : []) : undefined;
+  const batchSize = positiveInt(args['batch-size'], 'batch-size');
+  const maxBatchTokens = positiveInt(args['batch-tokens'], 'batch-tokens');
+  const concurrency = positiveInt(args.concurrency, 'concurrency');
+  const rateLimits = {
+    ...(args.rpm && { requestsPerMinute: positiveInt(args.rpm, 'rpm') }),
+    ...(args.tpm && { tokensPerMinute: positiveInt(args.tpm, 'tpm') }),
+  };
+
+  const inputs = await expandInputs(positionals);
+  if (inputs.length === 0) throw new Error('No input files matched');
+  if (args.out && inputs.length > 1) throw new Error('--out only works with a single input; use --out-dir');
+
+  if (args.quiet) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+  const log = (message: string) => process.stderr.write(`${message}\n`);
+
+  const startedAt = new Date().toISOString();
+  const reports: FileReport[] = [];
+
+  const controller = new RunController();
+  process.once('SIGINT', () => {
+    log('Cancelling; writing partial results (Ctrl+C again to exit now)...');
+    controller.cancel();
+    process.once('SIGINT', () => process.exit(130));
+  });
+
+  for (const input of inputs) {
+    if (controller.signal.aborted) break;
+    const report: FileReport = { input, output: null, changed: false, failures: [], renderIssues: [] };
+    reports.push(report);
+    try {
+      const text = await fs.readFile(input, 'utf8');
+      // Unknown extensions (e.g. explicit file arguments) are read as JSON.
+      const { data, source } = parseDocument(text, detectFormat(input) ?? 'json');
+      const result = await processJsonKnowledgeBase(data, (current, total, throughput) => {
+        if (args.quiet) return;
+        const rate = throughput ? ` (${throughput.itemsPerMinute}/min${throughput.etaSeconds !== null ? `, ETA ${throughput.etaSeconds}s` : ''})` : '';
+        log(`  ${input}: ${current}/${total}${rate}`);
+      }, { mode, language, provider, fields, profile, cache, batchSize, maxBatchTokens, concurrency, rateLimits, signal: controller.signal });
+
+      const output = serializeDocument(result.data, source);
+      report.language = result.language;
+      report.stats = result.stats;
+      report.failures = result.failures;
+      report.renderIssues = result.renderIssues;
+      report.cancelled = result.cancelled;
+      // Edits are copy-on-write, so an untouched document comes back as the same object.
+      report.changed = result.data !== data;
+
+      if (!args['dry-run'] && report.changed) {
+        const target = outputPathFor(input, inputs, args);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, output);
+        report.output = target;
+      }
+      log(`${result.cancelled ? '■' : report.changed ? '✎' : '✓'} ${input} (success ${result.stats.success}, local ${result.stats.local}, cached ${result.stats.cached}, failed ${result.stats.failed})`);
+    } catch (e) {
+      report.error = e instanceof Error ? e.message : String(e);
+      log(`✗ ${input}: ${report.error}`);
+    }
+  }
+
+  const totals = reports.reduce((acc, r) => ({
+    files: acc.files + 1,
+    changed: acc.changed + (r.changed ? 1 : 0),
+    errors: acc.errors + (r.error ? 1 : 0),
+    items: acc.items + (r.stats?.total ?? 0),
+    cached: acc.cached + (r.stats?.cached ?? 0),
+    failed: acc.failed + (r.stats?.failed ?? 0),
+  }), { files: 0, changed: 0, errors: 0, items: 0, cached: 0, failed: 0 });
+
+  if (cache && args.cache && !args['dry-run']) {
+    await fs.writeFile(args.cache, exportCache(await cache.list()));
+  }
+
+  if (args.report) {
+    await fs.writeFile(args.report, JSON.stringify({
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      provider: provider.kind,
+      model: provider.model,
+      mode,
+      dryRun: !!args['dry-run'],
+      cancelled: controller.signal.aborted,
+      totals,
+      files: reports,
+    }, null, 2));
+  }
+
+  log(`\n${totals.files} files, ${totals.changed} changed, ${totals.items} items, ${totals.cached} cached, ${totals.failed} failed, ${totals.errors} errors`);
+  if (controller.signal.aborted) {
+    log(`Cancelled; ${inputs.length - reports.length} files not started`);
+    process.exit(130);
+  }
+  process.exit(totals.errors > 0 || totals.failed > 0 ? 1 : 0);
+}
+
+main().catch(e => {
+  process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+  process.exit(2);
+});
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { AuditLog, SOURCE_LABELS, runTitle, statsLine } from '../services/auditLog';
+import { formatDateTime, t } from '../services/i18n';
+import { Button } from './Button';
+
+interface AuditLogPanelProps {
+  log: AuditLog;
+  onExportJson: () => void;
+  onExportHtml: () => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+export const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ log, onExportJson, onExportHtml, onClose }) => {
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const { stats } = log;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl p-6 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-slate-800">{t('auditPanel.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-500 mb-1">
+          {t('auditPanel.inputHash')}<span className="font-mono">{log.inputHash}</span>
+        </p>
+        <p className="text-sm text-slate-700 mb-4">
+          {statsLine(stats)}{t('auditPanel.replayHint')}
+        </p>
+
+        <div className="overflow-auto flex-1 space-y-4">
+          {log.runs.map((run, r) => (
+            <section key={r} className="border border-slate-200 rounded-lg p-3">
+              <h3 className="text-sm font-semibold text-slate-800">{runTitle(run, r)}</h3>
+              <p className="text-xs text-slate-500 mb-2">
+                {formatDateTime(run.startedAt)} – {formatDateTime(run.finishedAt)} · {run.provider.kind} / {run.provider.model}
+                {' · '}{t('auditPanel.profile', { name: run.profile.name })} <span className="font-mono">{run.profile.promptVersion.slice(0, 12)}</span>
+              </p>
+              {run.batches.length === 0 ? (
+                <p className="text-xs text-slate-500">{t('audit.noRequests')}</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="text-slate-500 text-left">
+                    <tr>
+                      <th className="py-1 font-medium">{t('audit.column.batch')}</th>
+                      <th className="py-1 font-medium">{t('audit.column.request')}</th>
+                      <th className="py-1 font-medium">{t('audit.column.duration')}</th>
+                      <th className="py-1 font-medium">{t('audit.column.result')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {run.batches.flatMap((batch, b) => batch.attempts.map((attempt, a) => (
+                      <tr key={`${b}-${a}`}>
+                        <td className="py-1 text-slate-500">{a === 0 ? t('auditPanel.batch', { n: b + 1, count: batch.paths.length }) : ''}</td>
+                        <td className="py-1 font-mono text-slate-600">{attempt.soloPath ? t('audit.soloRetry', { path: attempt.soloPath }) : t('audit.attempt', { n: a + 1 })}</td>
+                        <td className="py-1 text-slate-500">{attempt.durationMs} ms</td>
+                        <td className="py-1">
+                          {attempt.error ? (
+                            <span className="text-red-600">{attempt.error.kind}: {attempt.error.message}</span>
+                          ) : attempt.rejected && attempt.rejected.length > 0 ? (
+                            <span className="text-amber-700">
+                              {t('audit.rejected', { count: attempt.rejected.length, reasons: attempt.rejected.map(r => r.reason).join(t('common.listSeparator')) })}
+                            </span>
+                          ) : (
+                            <span className="text-green-700">{t('audit.succeeded')}</span>
+                          )}
+                        </td>
+                      </tr>
+                    )))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          ))}
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-800 mb-2">{t('audit.changedFields', { count: log.changes.length })}</h3>
+            <ul className="text-xs divide-y divide-slate-100 border border-slate-100 rounded">
+              {log.changes.slice(0, limit).map(change => (
+                <li key={change.path} className="px-2 py-1.5">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-slate-500 break-all">{change.path}</span>
+                    {change.source && <span className="px-1.5 rounded bg-slate-100 text-slate-600">{t(SOURCE_LABELS[change.source])}</span>}
+                  </div>
+                  <p className="font-mono text-red-700 break-all">- {change.before}</p>
+                  <p className="font-mono text-green-700 break-all">+ {change.edited ?? change.after}</p>
+                </li>
+              ))}
+            </ul>
+            {log.changes.length > limit && (
+              <button onClick={() => setLimit(limit + PAGE_SIZE)} className="mt-2 text-xs text-indigo-600 underline">
+                {t('common.showMore', { count: log.changes.length - limit })}
+              </button>
+            )}
+          </section>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <Button onClick={onExportHtml} variant="outline">
+            <Download className="w-4 h-4" /> {t('auditPanel.downloadHtml')}
+          </Button>
+          <Button onClick={onExportJson} variant="primary">
+            <Download className="w-4 h-4" /> {t('auditPanel.downloadJson')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Trash2, X } from 'lucide-react';
+import { CacheEntry, ResultCache, summarizeCache } from '../services/resultCache';
+import { t } from '../services/i18n';
+import { Button } from './Button';
+
+interface CachePanelProps {
+  cache: ResultCache;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onExport: (entries: CacheEntry[]) => void;
+  onClose: () => void;
+}
+
+const VISIBLE_ENTRIES = 50;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export const CachePanel: React.FC<CachePanelProps> = ({ cache, enabled, onEnabledChange, onExport, onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    cache.list()
+      .then(list => setEntries(list.sort((a, b) => b.createdAt - a.createdAt)))
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [cache]);
+
+  const summary = useMemo(() => (entries ? summarizeCache(entries) : null), [entries]);
+
+  const handleClear = async () => {
+    if (!window.confirm(t('cachePanel.confirmClear'))) return;
+    try {
+      await cache.clear();
+      setEntries([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl p-6 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-slate-800">{t('cachePanel.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700 mb-2">
+          <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+          {t('cachePanel.enable')}
+        </label>
+        <p className="text-xs text-slate-500 mb-4">
+          {t('cachePanel.hint')}
+        </p>
+
+        {error && <p className="text-sm text-red-600 mb-2">{t('cachePanel.unavailable', { message: error })}</p>}
+
+        {summary && (
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <p className="text-sm text-slate-600">
+              {t('cachePanel.summary', { count: summary.count, size: formatBytes(summary.bytes) })}
+              {Array.from(summary.byModel).map(([model, count]) => (
+                <span key={model} className="ml-2 text-xs font-mono bg-slate-100 px-1.5 py-0.5 rounded">{model}: {count}</span>
+              ))}
+            </p>
+            <div className="flex items-center gap-2">
+              <Button onClick={() => entries && onExport(entries)} variant="outline" className="text-sm py-1.5" disabled={summary.count === 0}>
+                <Download className="w-4 h-4" /> {t('cachePanel.export')}
+              </Button>
+              <Button onClick={handleClear} variant="outline" className="text-sm py-1.5 text-red-600 hover:bg-red-50" disabled={summary.count === 0}>
+                <Trash2 className="w-4 h-4" /> {t('cachePanel.clear')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {entries === null && !error && <p className="p-4 text-sm text-slate-400">{t('common.loading')}</p>}
+          {entries?.length === 0 && <p className="p-4 text-sm text-slate-400">{t('cachePanel.empty')}</p>}
+          {entries?.slice(0, VISIBLE_ENTRIES).map(entry => (
+            <div key={entry.key} className="p-3 text-xs">
+              <div className="flex justify-between text-slate-400 mb-1">
+                <span className="font-mono">{entry.model} · {entry.profileName}</span>
+                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              {Object.keys(entry.output).map(field => (
+                <div key={field} className="grid grid-cols-[6rem_1fr_1fr] gap-2 font-mono">
+                  <span className="text-slate-500">{field}</span>
+                  <span className="text-slate-500 truncate" title={entry.input[field]}>{entry.input[field]}</span>
+                  <span className="text-slate-800 truncate" title={entry.output[field]}>{entry.output[field]}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+          {entries && entries.length > VISIBLE_ENTRIES && (
+            <p className="p-3 text-xs text-slate-400">{t('cachePanel.truncated', { count: VISIBLE_ENTRIES })}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useMemo } from 'react';
+import { diffChars } from '../services/textDiff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+export const DiffView: React.FC<DiffViewProps> = ({ before, after, className = '' }) => {
+  const parts = useMemo(() => diffChars(before, after), [before, after]);
+
+  return (
+    <div className={`font-mono text-xs whitespace-pre-wrap break-all leading-relaxed ${className}`}>
+      {parts.map((part, i) => {
+        if (part.type === 'insert') {
+          return <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline rounded-sm">{part.text}</ins>;
+        }
+        if (part.type === 'delete') {
+          return <del key={i} className="bg-red-100 text-red-700 rounded-sm">{part.text}</del>;
+        }
+        return <span key={i} className="text-slate-700">{part.text}</span>;
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { FieldRule, NormalizeRule } from '../types';
+import { compilePattern, countSelectedFields } from '../services/fieldSelector';
+import { ALL_RULES } from '../services/latexNormalizer';
+import { MessageKey, t } from '../services/i18n';
+
+interface FieldSelectorEditorProps {
+  rules: FieldRule[];
+  data: any;
+  onChange: (rules: FieldRule[]) => void;
+}
+
+const RULE_LABELS: Record<NormalizeRule, MessageKey> = {
+  wrap: 'fieldEditor.rule.wrap',
+  merge: 'fieldEditor.rule.merge',
+  escape: 'fieldEditor.rule.escape',
+};
+
+function patternError(pattern: string): string | null {
+  try {
+    compilePattern(pattern);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+export const FieldSelectorEditor: React.FC<FieldSelectorEditorProps> = ({ rules, data, onChange }) => {
+  const errors = rules.map(rule => patternError(rule.pattern));
+  const hasErrors = errors.some(Boolean);
+
+  const matchedCount = useMemo(
+    () => (hasErrors ? null : countSelectedFields(data, rules)),
+    [data, rules, hasErrors]
+  );
+
+  const updateRule = (index: number, patch: Partial<FieldRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const toggleNormalizeRule = (index: number, rule: NormalizeRule) => {
+    const current = rules[index].rules ?? ALL_RULES;
+    const next = current.includes(rule) ? current.filter(r => r !== rule) : [...current, rule];
+    updateRule(index, { rules: ALL_RULES.filter(r => next.includes(r)) });
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 mb-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-semibold text-slate-800 text-sm">{t('fieldEditor.title')}</h3>
+          <p className="text-xs text-slate-500">
+            {t('fieldEditor.hintJsonPath')} <code className="font-mono">$..relations[*].note</code>{t('fieldEditor.hintWildcard')} <code className="font-mono">**.formula</code>{t('document.listSeparator')}<code className="font-mono">proof_*</code>{t('fieldEditor.hintEnd')}
+          </p>
+        </div>
+        <span className="text-xs text-slate-500 whitespace-nowrap">
+          {matchedCount === null ? t('fieldEditor.invalid') : t('fieldEditor.matched', { count: matchedCount })}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-3">
+            <input
+              value={rule.pattern}
+              onChange={(e) => updateRule(index, { pattern: e.target.value })}
+              className={`flex-1 min-w-[200px] text-sm font-mono border rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${errors[index] ? 'border-red-400' : 'border-slate-300'}`}
+              title={errors[index] ?? undefined}
+            />
+            {ALL_RULES.map(normalizeRule => (
+              <label key={normalizeRule} className="flex items-center gap-1 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={(rule.rules ?? ALL_RULES).includes(normalizeRule)}
+                  onChange={() => toggleNormalizeRule(index, normalizeRule)}
+                />
+                {t(RULE_LABELS[normalizeRule])}
+              </label>
+            ))}
+            <button
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              className="text-slate-400 hover:text-red-600"
+              title={t('common.delete')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange([...rules, { pattern: '' }])}
+        className="mt-3 text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+      >
+        <Plus className="w-4 h-4" /> {t('fieldEditor.add')}
+      </button>
+    </div>
+  );
+};
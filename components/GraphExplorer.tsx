@@ -0,0 +1,313 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Plus, X } from 'lucide-react';
+import { KnowledgeGraph, buildKnowledgeGraph, layoutGraph, neighboursOf } from '../services/knowledgeGraph';
+import { formatPath, getAtPath } from '../services/jsonPath';
+import { MessageKey, t } from '../services/i18n';
+import { MathText } from './MathText';
+
+interface GraphExplorerProps {
+  originalData: any;
+  /** Normalized data, once a run has finished. */
+  processedData: any | null;
+  className?: string;
+}
+
+type ProblemFilter = 'all' | 'cyclic' | 'orphans' | 'dangling';
+
+const PROBLEM_FILTERS: { key: ProblemFilter; label: MessageKey }[] = [
+  { key: 'all', label: 'graph.filter.all' },
+  { key: 'cyclic', label: 'graph.filter.cyclic' },
+  { key: 'orphans', label: 'graph.filter.orphans' },
+  { key: 'dangling', label: 'graph.filter.dangling' },
+];
+
+// The layout is quadratic in the node count, so larger selections are truncated.
+const MAX_VISIBLE_NODES = 150;
+const WIDTH = 800;
+const HEIGHT = 560;
+const NODE_RADIUS = 9;
+
+function problemSet(graph: KnowledgeGraph, filter: ProblemFilter): Set<string> | null {
+  if (filter === 'cyclic') return graph.cyclic;
+  if (filter === 'orphans') return graph.orphans;
+  if (filter === 'dangling') return graph.dangling;
+  return null;
+}
+
+function nodeStroke(graph: KnowledgeGraph, key: string): { stroke: string; dash?: string } {
+  if (graph.dangling.has(key)) return { stroke: '#dc2626' };
+  if (graph.cyclic.has(key)) return { stroke: '#d97706' };
+  if (graph.orphans.has(key)) return { stroke: '#94a3b8', dash: '3 2' };
+  return { stroke: '#475569' };
+}
+
+export const GraphExplorer: React.FC<GraphExplorerProps> = ({ originalData, processedData, className = '' }) => {
+  const graph = useMemo(() => buildKnowledgeGraph(originalData), [originalData]);
+  const [search, setSearch] = useState('');
+  const [difficulty, setDifficulty] = useState<string | null>(null);
+  const [problemFilter, setProblemFilter] = useState<ProblemFilter>('all');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const difficulties = useMemo(
+    () => Array.from(new Set(graph.nodes.map(node => node.difficulty).filter((d): d is string => !!d))).sort(),
+    [graph]
+  );
+
+  const { visibleKeys, truncated } = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const problems = problemSet(graph, problemFilter);
+    const matches = graph.nodes.filter(node =>
+      (!query || node.label.toLowerCase().includes(query) || node.key.toLowerCase().includes(query)) &&
+      (!difficulty || node.difficulty === difficulty) &&
+      (!problems || problems.has(node.key))
+    ).map(node => node.key);
+
+    // Expanded neighbours are added even when they do not match the filters.
+    const keys = new Set(matches.slice(0, MAX_VISIBLE_NODES));
+    for (const key of expanded) {
+      if (!keys.has(key)) continue;
+      neighboursOf(graph, key).forEach(neighbour => keys.add(neighbour));
+    }
+    return { visibleKeys: Array.from(keys), truncated: matches.length > MAX_VISIBLE_NODES };
+  }, [graph, search, difficulty, problemFilter, expanded]);
+
+  // Re-layout only when the set of visible nodes changes, not on every filter keystroke.
+  const layoutKey = visibleKeys.join('\u0000');
+  const positions = useMemo(() => layoutGraph(graph, visibleKeys, WIDTH, HEIGHT), [graph, layoutKey]);
+
+  const visibleEdges = graph.edges.filter(edge => !edge.dangling && positions.has(edge.from) && positions.has(edge.to));
+  const selectedNode = selected ? graph.nodesByKey.get(selected) : undefined;
+
+  const toggleExpanded = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setExpanded(next);
+  };
+
+  return (
+    <div className={`flex gap-4 ${className}`}>
+      <div className="flex-1 min-w-0 flex flex-col bg-white border border-slate-200 rounded-lg shadow-sm">
+        <div className="flex flex-wrap items-center gap-2 p-3 border-b border-slate-200">
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('graph.search')}
+              className="text-sm border border-slate-300 rounded-lg pl-7 pr-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          {difficulties.length > 0 && (
+            <select
+              value={difficulty ?? ''}
+              onChange={(e) => setDifficulty(e.target.value || null)}
+              className="text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+            >
+              <option value="">{t('graph.allDifficulties')}</option>
+              {difficulties.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          )}
+          <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+            {PROBLEM_FILTERS.map(({ key, label }) => {
+              const count = problemSet(graph, key)?.size;
+              return (
+                <button
+                  key={key}
+                  onClick={() => setProblemFilter(key)}
+                  className={`px-2.5 py-1.5 text-xs ${problemFilter === key ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {t(label)}{count !== undefined && ` ${count}`}
+                </button>
+              );
+            })}
+          </div>
+          <span className="text-xs text-slate-500 ml-auto">
+            {t('graph.shown', { shown: visibleKeys.length, total: graph.nodes.length })}
+            {truncated && t('graph.truncated', { count: MAX_VISIBLE_NODES })}
+          </span>
+        </div>
+
+        <div className="flex-1 min-h-0 relative">
+          {graph.nodes.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-sm text-slate-400">{t('graph.empty')}</div>
+          ) : (
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full" onClick={() => setSelected(null)}>
+              <defs>
+                <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+                </marker>
+              </defs>
+              {visibleEdges.map((edge, i) => {
+                const from = positions.get(edge.from)!;
+                const to = positions.get(edge.to)!;
+                const dx = to.x - from.x;
+                const dy = to.y - from.y;
+                const length = Math.max(1, Math.hypot(dx, dy));
+                const onCycle = graph.cyclic.has(edge.from) && graph.cyclic.has(edge.to);
+                const active = selected === edge.from || selected === edge.to;
+                return (
+                  <line
+                    key={i}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x - (dx / length) * NODE_RADIUS}
+                    y2={to.y - (dy / length) * NODE_RADIUS}
+                    stroke={active ? '#4f46e5' : onCycle ? '#f59e0b' : '#cbd5e1'}
+                    strokeWidth={active ? 2 : 1}
+                    markerEnd="url(#graph-arrow)"
+                  >
+                    {edge.label && <title>{edge.label}</title>}
+                  </line>
+                );
+              })}
+              {visibleKeys.map(key => {
+                const node = graph.nodesByKey.get(key)!;
+                const point = positions.get(key)!;
+                const { stroke, dash } = nodeStroke(graph, key);
+                return (
+                  <g
+                    key={key}
+                    transform={`translate(${point.x},${point.y})`}
+                    className="cursor-pointer"
+                    onClick={(e) => { e.stopPropagation(); setSelected(key); }}
+                    onDoubleClick={(e) => { e.stopPropagation(); toggleExpanded(key); }}
+                  >
+                    <circle
+                      r={NODE_RADIUS}
+                      fill={selected === key ? '#4f46e5' : expanded.has(key) ? '#e0e7ff' : '#ffffff'}
+                      stroke={stroke}
+                      strokeWidth={2}
+                      strokeDasharray={dash}
+                    />
+                    <text y={NODE_RADIUS + 12} textAnchor="middle" className="fill-slate-600" fontSize={11}>
+                      {node.label.length > 16 ? `${node.label.slice(0, 15)}…` : node.label}
+                    </text>
+                    <title>{node.label}</title>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+          <div className="absolute bottom-2 left-2 flex gap-3 text-xs text-slate-500 bg-white/80 rounded px-2 py-1">
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full border-2 border-amber-600" />{t('graph.filter.cyclic')}</span>
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full border-2 border-dashed border-slate-400" />{t('graph.filter.orphans')}</span>
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full border-2 border-red-600" />{t('graph.filter.dangling')}</span>
+            <span>{t('graph.doubleClickHint')}</span>
+          </div>
+        </div>
+      </div>
+
+      {selectedNode && (
+        <NodeDetails
+          graph={graph}
+          nodeKey={selectedNode.key}
+          originalData={originalData}
+          processedData={processedData}
+          expanded={expanded.has(selectedNode.key)}
+          onToggleExpanded={() => toggleExpanded(selectedNode.key)}
+          onSelect={setSelected}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface NodeDetailsProps {
+  graph: KnowledgeGraph;
+  nodeKey: string;
+  originalData: any;
+  processedData: any | null;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  onSelect: (key: string) => void;
+  onClose: () => void;
+}
+
+const TEXT_FIELDS = ['name', 'description'];
+
+const NodeDetails: React.FC<NodeDetailsProps> = ({
+  graph,
+  nodeKey,
+  originalData,
+  processedData,
+  expanded,
+  onToggleExpanded,
+  onSelect,
+  onClose,
+}) => {
+  const node = graph.nodesByKey.get(nodeKey)!;
+  const original = getAtPath(originalData, node.path) ?? {};
+  const normalized = processedData ? getAtPath(processedData, node.path) ?? {} : null;
+  const outgoing = graph.edges.filter(edge => edge.from === nodeKey);
+  const incoming = graph.edges.filter(edge => edge.to === nodeKey && edge.from !== nodeKey);
+
+  return (
+    <div className="w-96 flex-shrink-0 bg-white border border-slate-200 rounded-lg shadow-sm p-4 overflow-auto">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div>
+          <h3 className="font-semibold text-slate-800">{node.label}</h3>
+          <p className="text-xs font-mono text-slate-500">id {node.key} · {formatPath(node.path)}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 mb-3 text-xs">
+        {node.difficulty && <span className="px-1.5 rounded bg-slate-100 text-slate-600">{t('graph.difficulty', { difficulty: node.difficulty })}</span>}
+        {graph.cyclic.has(nodeKey) && <span className="px-1.5 rounded bg-amber-50 text-amber-700">{t('graph.inCycle')}</span>}
+        {graph.orphans.has(nodeKey) && <span className="px-1.5 rounded bg-slate-100 text-slate-600">{t('graph.orphan')}</span>}
+        {graph.dangling.has(nodeKey) && <span className="px-1.5 rounded bg-red-50 text-red-700">{t('graph.hasDangling')}</span>}
+      </div>
+
+      {TEXT_FIELDS.filter(field => typeof original[field] === 'string').map(field => (
+        <div key={field} className="mb-3">
+          <div className="text-xs font-medium text-slate-500 mb-1">{field}</div>
+          <div className="text-sm text-slate-700 bg-slate-50 rounded p-2">
+            <div className="text-xs text-slate-400 mb-0.5">{t('graph.original')}</div>
+            <MathText text={original[field]} />
+            {normalized && typeof normalized[field] === 'string' && (
+              <>
+                <div className="text-xs text-slate-400 mt-2 mb-0.5">{t('graph.normalized')}</div>
+                <MathText text={normalized[field]} />
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between mt-4 mb-1">
+        <span className="text-xs font-medium text-slate-500">{t('graph.relations', { outgoing: outgoing.length, incoming: incoming.length })}</span>
+        <button onClick={onToggleExpanded} className="text-xs text-indigo-600 flex items-center gap-0.5">
+          <Plus className="w-3 h-3" /> {expanded ? t('graph.collapse') : t('graph.expand')}
+        </button>
+      </div>
+      <ul className="text-xs space-y-1">
+        {outgoing.map((edge, i) => (
+          <li key={`out-${i}`} className="flex gap-1">
+            <span className="text-slate-400">→</span>
+            {edge.dangling ? (
+              <span className="text-red-600">{t('graph.missing', { id: edge.to })}</span>
+            ) : (
+              <button onClick={() => onSelect(edge.to)} className="text-indigo-600 hover:underline text-left">
+                {graph.nodesByKey.get(edge.to)!.label}
+              </button>
+            )}
+            {edge.label && <span className="text-slate-400">({edge.label})</span>}
+          </li>
+        ))}
+        {incoming.map((edge, i) => (
+          <li key={`in-${i}`} className="flex gap-1">
+            <span className="text-slate-400">←</span>
+            <button onClick={() => onSelect(edge.from)} className="text-indigo-600 hover:underline text-left">
+              {graph.nodesByKey.get(edge.from)!.label}
+            </button>
+            {edge.label && <span className="text-slate-400">({edge.label})</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
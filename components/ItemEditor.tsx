@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+import { FieldRule } from '../types';
+import { getAtPath, parsePath } from '../services/jsonPath';
+import { EditableField, FieldChange, finalValue, listEditableUnits } from '../services/review';
+import { LATEX_ISSUE_LABELS, validateLatex } from '../services/latexValidator';
+import { t } from '../services/i18n';
+import { Button } from './Button';
+import { MathText } from './MathText';
+
+interface ItemEditorProps {
+  originalData: any;
+  processedData: any;
+  changes: FieldChange[];
+  fieldRules: FieldRule[];
+  onEdit: (field: EditableField, value: string) => void;
+  onRerun: (unitPath: string) => void;
+  /** Unit currently sent to the model again; re-runs are disabled meanwhile. */
+  rerunningPath: string | null;
+  rerunError: { path: string; message: string } | null;
+  className?: string;
+}
+
+const PAGE_SIZE = 20;
+
+interface FieldInputProps {
+  field: EditableField;
+  value: string;
+  change?: FieldChange;
+  onCommit: (value: string) => void;
+}
+
+// Keeps its own draft so typing stays local; the edit is committed on blur.
+const FieldInput: React.FC<FieldInputProps> = ({ field, value, change, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+  // Undo, redo and re-runs replace the value from outside.
+  useEffect(() => setDraft(value), [value]);
+  const issues = useMemo(() => validateLatex(draft), [draft]);
+
+  return (
+    <div className="mb-3">
+      <div className="text-[11px] text-slate-400 mb-0.5 flex items-center gap-2">
+        <span className="font-semibold text-slate-600">{field.key}</span>
+        {change?.edited !== undefined && <span className="text-indigo-600">{t('itemEditor.edited')}</span>}
+        {change && change.edited === undefined && change.after !== change.before && <span className="text-emerald-600">{t('itemEditor.changed')}</span>}
+        {!field.selected && <span>{t('itemEditor.notSelected')}</span>}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <textarea
+          value={draft}
+          aria-label={field.path}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => { if (draft !== value) onCommit(draft); }}
+          className={`w-full font-mono text-xs border rounded p-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${issues.length > 0 ? 'border-red-300' : 'border-slate-300'}`}
+          rows={Math.min(8, Math.max(2, draft.split('\n').length + 1))}
+        />
+        <div className="text-sm text-slate-800">
+          <MathText text={draft} />
+          {issues.length > 0 && (
+            <div className="mt-1 flex items-start gap-1 text-xs text-red-600">
+              <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span>{issues.map(i => `${t(LATEX_ISSUE_LABELS[i.kind])}: ${i.message}`).join(t('common.listSeparator'))}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const ItemEditor: React.FC<ItemEditorProps> = ({
+  originalData,
+  processedData,
+  changes,
+  fieldRules,
+  onEdit,
+  onRerun,
+  rerunningPath,
+  rerunError,
+  className = '',
+}) => {
+  const [page, setPage] = useState(0);
+
+  const units = useMemo(() => listEditableUnits(originalData, fieldRules), [originalData, fieldRules]);
+  const changesByPath = useMemo(() => new Map(changes.map(change => [change.path, change])), [changes]);
+
+  const pageCount = Math.max(1, Math.ceil(units.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageUnits = units.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <div className={`flex flex-col bg-white border border-slate-200 rounded-lg ${className}`}>
+      <div className="px-4 py-3 border-b border-slate-200 text-xs text-slate-500">
+        {t('itemEditor.hint')}
+      </div>
+
+      <div className="flex-1 overflow-auto divide-y divide-slate-100">
+        {pageUnits.length === 0 && (
+          <p className="text-center text-sm text-slate-400 py-12">{t('itemEditor.empty')}</p>
+        )}
+        {pageUnits.map(unit => (
+          <div key={unit.unitPath} className="px-4 py-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-mono text-slate-400">{unit.unitPath}</span>
+              <Button
+                variant="outline"
+                className="text-xs px-2.5 py-1"
+                disabled={rerunningPath !== null}
+                onClick={() => onRerun(unit.unitPath)}
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${rerunningPath === unit.unitPath ? 'animate-spin' : ''}`} />
+                {rerunningPath === unit.unitPath ? t('itemEditor.rerunning') : t('itemEditor.rerun')}
+              </Button>
+            </div>
+            {rerunError?.path === unit.unitPath && (
+              <p className="mb-2 text-xs text-red-600">{t('itemEditor.rerunFailed', { message: rerunError.message })}</p>
+            )}
+            {unit.fields.map(field => {
+              const change = changesByPath.get(field.path);
+              const value = change ? finalValue(change) : getAtPath(processedData, parsePath(field.path));
+              return (
+                <FieldInput
+                  key={field.path}
+                  field={field}
+                  value={typeof value === 'string' ? value : ''}
+                  change={change}
+                  onCommit={(next) => onEdit(field, next)}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="px-4 py-2 border-t border-slate-200 flex items-center justify-center gap-3 text-xs text-slate-500">
+          <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)} className="disabled:opacity-30">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          {t('common.page', { page: currentPage + 1, pages: pageCount })}
+          <button disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)} className="disabled:opacity-30">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
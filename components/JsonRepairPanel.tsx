@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Wrench } from 'lucide-react';
+import { JsonDiagnosis, JsonRepairIssue, JsonRepairKind, REPAIR_KIND_LABELS, issueExcerpt } from '../services/jsonRepair';
+import { t } from '../services/i18n';
+import { Button } from './Button';
+
+interface JsonRepairPanelProps {
+  /** Text of the file that failed to parse. */
+  text: string;
+  diagnosis: JsonDiagnosis;
+  onApply: (issues: JsonRepairIssue[]) => void;
+  onDownload: (issues: JsonRepairIssue[]) => void;
+}
+
+const PAGE_SIZE = 100;
+
+/** Line breaks and tabs would vanish in the excerpt; show them as symbols. */
+const visible = (text: string) => text.replace(/\r?\n/g, '↵').replace(/\t/g, '→');
+
+export const JsonRepairPanel: React.FC<JsonRepairPanelProps> = ({ text, diagnosis, onApply, onDownload }) => {
+  const { issues, remaining } = diagnosis;
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(issues.map((_, i) => i)));
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const counts = useMemo(() => {
+    const byKind = new Map<JsonRepairKind, number[]>();
+    issues.forEach((issue, i) => byKind.set(issue.kind, [...(byKind.get(issue.kind) ?? []), i]));
+    return byKind;
+  }, [issues]);
+
+  const chosen = issues.filter((_, i) => selected.has(i));
+
+  const toggle = (indexes: number[], on: boolean) => {
+    const next = new Set(selected);
+    indexes.forEach(i => (on ? next.add(i) : next.delete(i)));
+    setSelected(next);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 mb-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="font-semibold text-slate-800 text-sm">{t('repairPanel.title')}</h3>
+          <p className="text-xs text-slate-500">
+            {t('repairPanel.summary', { count: issues.length, chosen: chosen.length })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={() => onDownload(chosen)} variant="outline" className="text-sm py-1.5" disabled={chosen.length === 0}>
+            <Download className="w-4 h-4" /> {t('repairPanel.download')}
+          </Button>
+          <Button onClick={() => onApply(chosen)} className="text-sm py-1.5" disabled={chosen.length === 0}>
+            <Wrench className="w-4 h-4" /> {t('repairPanel.apply', { count: chosen.length })}
+          </Button>
+        </div>
+      </div>
+
+      {remaining && (
+        <p className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+          {t('repairPanel.remaining', { line: remaining.line, column: remaining.column, message: remaining.message })}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {Array.from(counts.entries()).map(([kind, indexes]) => {
+          const allOn = indexes.every(i => selected.has(i));
+          return (
+            <button
+              key={kind}
+              onClick={() => toggle(indexes, !allOn)}
+              title={allOn ? t('repairPanel.deselectKind') : t('repairPanel.selectKind')}
+              className={`text-xs px-2 py-0.5 rounded-full border ${allOn ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+            >
+              {t(REPAIR_KIND_LABELS[kind])} {indexes.length}
+            </button>
+          );
+        })}
+      </div>
+
+      <ul className="max-h-72 overflow-auto text-xs divide-y divide-slate-100 border border-slate-100 rounded">
+        {issues.slice(0, limit).map((issue, i) => {
+          const excerpt = issueExcerpt(text, issue);
+          return (
+            <li key={`${issue.start}-${issue.kind}`} className="px-2 py-1.5 flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={selected.has(i)}
+                onChange={(e) => toggle([i], e.target.checked)}
+                className="mt-0.5"
+              />
+              <span className="font-mono text-slate-500 whitespace-nowrap">{issue.line}:{issue.column}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-700">{issue.message}</p>
+                <p className="font-mono text-slate-500 break-all">
+                  {visible(excerpt.before)}
+                  <span className="bg-red-100 text-red-700 line-through">{visible(excerpt.target)}</span>
+                  {issue.replacement && <span className="bg-green-100 text-green-700">{issue.replacement}</span>}
+                  {visible(excerpt.after)}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {issues.length > limit && (
+        <button onClick={() => setLimit(limit + PAGE_SIZE)} className="mt-2 text-xs text-indigo-600 underline">
+          {t('common.showMore', { count: issues.length - limit })}
+        </button>
+      )}
+    </div>
+  );
+};
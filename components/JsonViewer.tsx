@@ -1,4 +1,7 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { JsonPath, formatPath } from '../services/jsonPath';
+import { t } from '../services/i18n';
 
 interface JsonViewerProps {
   data: any;
@@ -6,22 +9,134 @@ interface JsonViewerProps {
   className?: string;
 }
 
+interface Row {
+  id: string;
+  depth: number;
+  /** Object key or array index; absent for the root and closing rows. */
+  label?: string | number;
+  value: any;
+  kind: 'leaf' | 'open' | 'collapsed' | 'close';
+  /** Whether a comma follows, as in the JSON text. */
+  comma: boolean;
+}
+
+const ROW_HEIGHT = 20;
+const OVERSCAN = 20;
+const MAX_INLINE_STRING = 300;
+
+const isContainer = (value: any) => value !== null && typeof value === 'object';
+
+/**
+ * Flattens the expanded part of the document into display rows. Collapsed
+ * containers are a single row, so the cost follows what is expanded rather
+ * than the document size.
+ */
+function flattenRows(data: any, expanded: Set<string>): Row[] {
+  const rows: Row[] = [];
+  const visit = (value: any, path: JsonPath, label: string | number | undefined, comma: boolean) => {
+    const id = formatPath(path);
+    if (!isContainer(value)) {
+      rows.push({ id, depth: path.length, label, value, kind: 'leaf', comma });
+      return;
+    }
+    if (!expanded.has(id)) {
+      rows.push({ id, depth: path.length, label, value, kind: 'collapsed', comma });
+      return;
+    }
+    rows.push({ id, depth: path.length, label, value, kind: 'open', comma: false });
+    const entries: [string | number, any][] = Array.isArray(value) ? value.map((v, i) => [i, v]) : Object.entries(value);
+    entries.forEach(([key, child], i) => visit(child, [...path, key], key, i < entries.length - 1));
+    rows.push({ id: `${id}#close`, depth: path.length, value, kind: 'close', comma });
+  };
+  visit(data, [], undefined, false);
+  return rows;
+}
+
+function renderPrimitive(value: any): React.ReactNode {
+  if (typeof value === 'string') {
+    const shown = value.length > MAX_INLINE_STRING ? `${value.slice(0, MAX_INLINE_STRING)}…` : value;
+    return <span className="text-emerald-400">{JSON.stringify(shown)}</span>;
+  }
+  if (typeof value === 'number') return <span className="text-amber-300">{value}</span>;
+  return <span className="text-fuchsia-300">{String(value)}</span>;
+}
+
+function summary(value: any): string {
+  return Array.isArray(value)
+    ? `[… ${t('viewer.items', { count: value.length })}]`
+    : `{… ${t('viewer.fields', { count: Object.keys(value).length })}}`;
+}
+
+/**
+ * Collapsible JSON tree. Only the rows inside the viewport (plus a small
+ * overscan) are rendered, so very large documents stay responsive.
+ */
 export const JsonViewer: React.FC<JsonViewerProps> = ({ data, title, className = '' }) => {
-  const jsonString = JSON.stringify(data, null, 2);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(['$']));
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => flattenRows(data, expanded), [data, expanded]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const toggle = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setExpanded(next);
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
 
   return (
     <div className={`flex flex-col h-full ${className}`}>
       <div className="bg-slate-800 text-slate-200 px-4 py-2 text-sm font-semibold rounded-t-lg border-b border-slate-700 flex justify-between items-center">
         <span>{title}</span>
-        <span className="text-xs text-slate-400">
-          {Array.isArray(data) ? `${data.length} 条数据` : '对象'}
+        <span className="flex items-center gap-3 text-xs text-slate-400 font-normal">
+          <button onClick={() => setExpanded(new Set(['$']))} className="hover:text-slate-200">{t('viewer.collapseAll')}</button>
+          {Array.isArray(data) ? t('viewer.records', { count: data.length }) : t('viewer.object')}
         </span>
       </div>
-      <div className="bg-slate-900 overflow-auto flex-1 rounded-b-lg p-4 border border-slate-700">
-        <pre className="text-xs md:text-sm font-mono text-emerald-400 whitespace-pre-wrap break-all">
-          {jsonString}
-        </pre>
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="bg-slate-900 overflow-auto flex-1 rounded-b-lg border border-slate-700"
+      >
+        <div className="relative font-mono text-xs md:text-sm" style={{ height: rows.length * ROW_HEIGHT + 32 }}>
+          {rows.slice(first, last).map((row, i) => (
+            <div
+              key={row.id}
+              className="absolute left-0 right-0 px-4 whitespace-nowrap text-slate-300 hover:bg-slate-800/60"
+              style={{ top: 16 + (first + i) * ROW_HEIGHT, height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px`, paddingLeft: 16 + row.depth * 16 }}
+              title={row.kind === 'leaf' && typeof row.value === 'string' && row.value.length > MAX_INLINE_STRING ? row.value.slice(0, 2000) : undefined}
+            >
+              {(row.kind === 'open' || row.kind === 'collapsed') && (
+                <button onClick={() => toggle(row.id)} className="absolute text-slate-500 hover:text-slate-200" style={{ left: row.depth * 16 }}>
+                  {row.kind === 'open' ? <ChevronDown className="w-3.5 h-3.5 inline" /> : <ChevronRight className="w-3.5 h-3.5 inline" />}
+                </button>
+              )}
+              {row.label !== undefined && row.kind !== 'close' && (
+                <span className="text-sky-300">{typeof row.label === 'number' ? `${row.label}: ` : `${JSON.stringify(row.label)}: `}</span>
+              )}
+              {row.kind === 'leaf' && renderPrimitive(row.value)}
+              {row.kind === 'open' && (Array.isArray(row.value) ? '[' : '{')}
+              {row.kind === 'close' && (Array.isArray(row.value) ? ']' : '}')}
+              {row.kind === 'collapsed' && (
+                <button onClick={() => toggle(row.id)} className="text-slate-500 hover:text-slate-200">{summary(row.value)}</button>
+              )}
+              {row.comma && ','}
+            </div>
+          ))}
+        </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Wrench } from 'lucide-react';
+import { LINT_CODE_LABELS, LintCode, LintOptions, LintReport } from '../services/schemaLint';
+import { t } from '../services/i18n';
+import { Button } from './Button';
+
+interface LintReportPanelProps {
+  report: LintReport;
+  options: LintOptions;
+  onOptionsChange: (options: LintOptions) => void;
+  /** Omitted while fixes cannot be applied, e.g. after processing started. */
+  onApplyFixes?: () => void;
+  onExport: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+export const LintReportPanel: React.FC<LintReportPanelProps> = ({ report, options, onOptionsChange, onApplyFixes, onExport }) => {
+  const [codeFilter, setCodeFilter] = useState<LintCode | null>(null);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [levelsText, setLevelsText] = useState(options.difficultyLevels.join(', '));
+
+  const counts = useMemo(() => {
+    const byCode = new Map<LintCode, number>();
+    report.issues.forEach(issue => byCode.set(issue.code, (byCode.get(issue.code) ?? 0) + 1));
+    return byCode;
+  }, [report]);
+
+  const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+  const fixableCount = report.issues.filter(issue => issue.fix).length;
+  const visible = codeFilter ? report.issues.filter(issue => issue.code === codeFilter) : report.issues;
+
+  const commitLevels = () => {
+    const difficultyLevels = levelsText.split(/[,，]/).map(level => level.trim()).filter(Boolean);
+    onOptionsChange({ ...options, difficultyLevels });
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 mb-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="font-semibold text-slate-800 text-sm">{t('lintPanel.title')}</h3>
+          <p className="text-xs text-slate-500">
+            {t('lintPanel.items', { count: report.itemCount })}
+            <span className={errorCount > 0 ? 'text-red-600 font-medium' : ''}>{t('lintPanel.errors', { count: errorCount })}</span>
+            {t('lintPanel.warnings', { count: report.issues.length - errorCount })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {onApplyFixes && fixableCount > 0 && (
+            <Button onClick={onApplyFixes} variant="outline" className="text-sm py-1.5">
+              <Wrench className="w-4 h-4" /> {t('lintPanel.fix', { count: fixableCount })}
+            </Button>
+          )}
+          <Button onClick={onExport} variant="outline" className="text-sm py-1.5">
+            <Download className="w-4 h-4" /> {t('lintPanel.export')}
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-600 mb-3">
+        {t('lintPanel.levels')}
+        <input
+          value={levelsText}
+          onChange={(e) => setLevelsText(e.target.value)}
+          onBlur={commitLevels}
+          onKeyDown={(e) => e.key === 'Enter' && commitLevels()}
+          placeholder={t('lintPanel.levelsPlaceholder')}
+          className="flex-1 max-w-xs font-mono border border-slate-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </label>
+
+      {report.issues.length === 0 ? (
+        <p className="text-sm text-green-700">{t('lintPanel.clean')}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {Array.from(counts.entries()).map(([code, count]) => (
+              <button
+                key={code}
+                onClick={() => { setCodeFilter(codeFilter === code ? null : code); setLimit(PAGE_SIZE); }}
+                className={`text-xs px-2 py-0.5 rounded-full border ${codeFilter === code ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-slate-50 text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+              >
+                {t(LINT_CODE_LABELS[code])} {count}
+              </button>
+            ))}
+          </div>
+          <ul className="max-h-56 overflow-auto text-xs divide-y divide-slate-100 border border-slate-100 rounded">
+            {visible.slice(0, limit).map((issue, i) => (
+              <li key={`${issue.path}-${issue.code}-${i}`} className="px-2 py-1.5 flex items-start gap-2">
+                <span className={`px-1.5 rounded font-medium ${issue.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                  {issue.severity === 'error' ? t('lintPanel.error') : t('lintPanel.warning')}
+                </span>
+                <span className="font-mono text-slate-500 break-all">{issue.path}</span>
+                <span className="text-slate-700 flex-1">{issue.message}</span>
+                {issue.fix && <span className="text-indigo-600 whitespace-nowrap">{t('lintPanel.fixable', { fix: issue.fix.description })}</span>}
+              </li>
+            ))}
+          </ul>
+          {visible.length > limit && (
+            <button onClick={() => setLimit(limit + PAGE_SIZE)} className="mt-2 text-xs text-indigo-600 underline">
+              {t('common.showMore', { count: visible.length - limit })}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
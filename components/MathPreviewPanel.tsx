@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { FieldRule } from '../types';
+import { findProcessableUnits } from '../services/fieldSelector';
+import { formatPath, getAtPath } from '../services/jsonPath';
+import { RenderIssue } from '../services/geminiService';
+import { LATEX_ISSUE_LABELS } from '../services/latexValidator';
+import { t } from '../services/i18n';
+import { MathText } from './MathText';
+
+interface MathPreviewPanelProps {
+  originalData: any;
+  processedData: any;
+  fieldRules: FieldRule[];
+  renderIssues: RenderIssue[];
+  className?: string;
+}
+
+const PAGE_SIZE = 30;
+
+export const MathPreviewPanel: React.FC<MathPreviewPanelProps> = ({
+  originalData,
+  processedData,
+  fieldRules,
+  renderIssues,
+  className = '',
+}) => {
+  const [onlyFlagged, setOnlyFlagged] = useState(renderIssues.length > 0);
+  const [page, setPage] = useState(0);
+
+  const issuesByPath = useMemo(() => new Map(renderIssues.map(issue => [issue.path, issue])), [renderIssues]);
+  const flaggedUnits = useMemo(() => new Set(renderIssues.map(issue => issue.unitPath)), [renderIssues]);
+
+  const units = useMemo(() => {
+    const all = findProcessableUnits(originalData, fieldRules);
+    return onlyFlagged ? all.filter(unit => flaggedUnits.has(formatPath(unit.path))) : all;
+  }, [originalData, fieldRules, onlyFlagged, flaggedUnits]);
+
+  const pageCount = Math.max(1, Math.ceil(units.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageUnits = units.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <div className={`flex flex-col bg-white border border-slate-200 rounded-lg ${className}`}>
+      <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+        <div className="grid grid-cols-2 gap-4 flex-1 text-xs font-semibold text-slate-500 mr-4">
+          <span>{t('preview.original')}</span>
+          <span>{t('preview.normalized')}</span>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-600 whitespace-nowrap">
+          <input type="checkbox" checked={onlyFlagged} onChange={(e) => { setOnlyFlagged(e.target.checked); setPage(0); }} />
+          {t('preview.onlyIssues', { count: renderIssues.length })}
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-auto divide-y divide-slate-100">
+        {pageUnits.length === 0 && (
+          <p className="text-center text-sm text-slate-400 py-12">{t('preview.empty')}</p>
+        )}
+        {pageUnits.map(unit => (
+          <div key={formatPath(unit.path)} className="px-4 py-3">
+            <div className="text-xs font-mono text-slate-400 mb-2">{formatPath(unit.path)}</div>
+            {unit.fields.map(field => {
+              const path = formatPath(field.path);
+              const issue = issuesByPath.get(path);
+              const after = processedData ? getAtPath(processedData, field.path) : undefined;
+              return (
+                <div key={path} className={`grid grid-cols-2 gap-4 mb-2 rounded ${issue ? 'bg-red-50/50 ring-1 ring-red-200 p-2' : ''}`}>
+                  <div className="text-sm text-slate-800">
+                    <div className="text-[11px] text-slate-400 mb-0.5">{field.key}</div>
+                    <MathText text={getAtPath(originalData, field.path)} />
+                  </div>
+                  <div className="text-sm text-slate-800">
+                    <div className="text-[11px] text-slate-400 mb-0.5">{field.key}</div>
+                    {typeof after === 'string' ? <MathText text={after} /> : <span className="text-slate-300">—</span>}
+                    {issue && (
+                      <div className="mt-1 flex items-start gap-1 text-xs text-red-600">
+                        <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                        <span>{issue.issues.map(i => `${t(LATEX_ISSUE_LABELS[i.kind])}: ${i.message}`).join(t('common.listSeparator'))}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="px-4 py-2 border-t border-slate-200 flex items-center justify-center gap-3 text-xs text-slate-500">
+          <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)} className="disabled:opacity-30">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          {t('common.page', { page: currentPage + 1, pages: pageCount })}
+          <button disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)} className="disabled:opacity-30">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
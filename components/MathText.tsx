@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import { splitMath } from '../services/latexNormalizer';
+import { validateMath } from '../services/latexValidator';
+import { t } from '../services/i18n';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Renders prose with embedded `$…$` math typeset by KaTeX. Segments that fail
+ * to render are shown as raw source, highlighted, with the error as tooltip.
+ */
+export const MathText: React.FC<MathTextProps> = ({ text, className = '' }) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+
+  if (!segments) {
+    return (
+      <span className={`bg-red-50 text-red-700 ring-1 ring-red-300 rounded px-0.5 ${className}`} title={t('latex.unclosedDollarMessage')}>
+        {text}
+      </span>
+    );
+  }
+
+  return (
+    <span className={className}>
+      {segments.map((segment, i) => {
+        if (segment.kind === 'text') {
+          return <span key={i} className="whitespace-pre-wrap">{segment.content}</span>;
+        }
+        const issue = validateMath(segment.content, segment.display);
+        if (issue) {
+          return (
+            <code key={i} className="bg-red-50 text-red-700 ring-1 ring-red-300 rounded px-0.5 text-xs" title={issue.message}>
+              {segment.display ? `$$${segment.content}$$` : `$${segment.content}$`}
+            </code>
+          );
+        }
+        const html = katex.renderToString(segment.content, { displayMode: segment.display, throwOnError: false, strict: 'ignore' });
+        return <span key={i} dangerouslySetInnerHTML={{ __html: html }} />;
+      })}
+    </span>
+  );
+};
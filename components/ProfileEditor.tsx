@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Copy, Download, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { BUILT_IN_PROFILES, FewShotExample, ProfileTexts, RuleProfile, mergeProfiles, parseProfiles } from '../services/ruleProfiles';
+import { JsonSchema } from '../services/llmProvider';
+import { CONTENT_LANGUAGE_LABELS } from '../services/latexNormalizer';
+import { t } from '../services/i18n';
+import { ContentLanguage } from '../types';
+import { Button } from './Button';
+
+interface ProfileEditorProps {
+  profiles: RuleProfile[];
+  selectedId: string;
+  onChange: (profiles: RuleProfile[]) => void;
+  onSelect: (id: string) => void;
+  onExport: () => void;
+}
+
+/** Which texts are being edited: the profile's own, or one of its translations. */
+type TextsVersion = 'default' | ContentLanguage;
+
+const inputClass = 'w-full text-sm border border-slate-300 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+function uniqueId(base: string, profiles: RuleProfile[]): string {
+  let id = base;
+  for (let n = 2; profiles.some(p => p.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+export const ProfileEditor: React.FC<ProfileEditorProps> = ({ profiles, selectedId, onChange, onSelect, onExport }) => {
+  const profile = profiles.find(p => p.id === selectedId) ?? profiles[0];
+  const [schemaText, setSchemaText] = useState(() => JSON.stringify(profile.responseSchema, null, 2));
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [version, setVersion] = useState<TextsVersion>('default');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // The schema is edited as text; reload it whenever another profile is shown.
+  useEffect(() => {
+    setSchemaText(JSON.stringify(profile.responseSchema, null, 2));
+    setSchemaError(null);
+  }, [profile.id]);
+
+  const update = (patch: Partial<RuleProfile>) => {
+    onChange(profiles.map(p => (p.id === profile.id ? { ...p, ...patch } : p)));
+  };
+
+  const texts: ProfileTexts | undefined = version === 'default' ? profile : profile.translations?.[version];
+
+  const updateTexts = (patch: Partial<ProfileTexts>) => {
+    if (version === 'default') return update(patch);
+    update({ translations: { ...profile.translations, [version]: { ...texts!, ...patch } } });
+  };
+
+  const updateRule = (index: number, text: string) => updateTexts({ rules: texts!.rules.map((r, i) => (i === index ? text : r)) });
+
+  const updateExample = (index: number, patch: Partial<FewShotExample>) =>
+    updateTexts({ examples: texts!.examples.map((e, i) => (i === index ? { ...e, ...patch } : e)) });
+
+  // Substitutions belong to the profile, not to one language's texts.
+  const substitutions = Object.entries(profile.substitutions ?? {});
+  const updateSubstitutions = (entries: [string, string][]) =>
+    update({ substitutions: entries.length > 0 ? Object.fromEntries(entries) : undefined });
+  const updateSubstitution = (index: number, entry: [string, string]) =>
+    updateSubstitutions(substitutions.map((e, i) => (i === index ? entry : e)));
+
+  // A new translation starts as a copy of the default texts.
+  const handleAddTranslation = (language: ContentLanguage) => {
+    const { instruction, rules, examples, prompt } = profile;
+    update({ translations: { ...profile.translations, [language]: { instruction, rules, examples, prompt } } });
+  };
+
+  const handleRemoveTranslation = (language: ContentLanguage) => {
+    const { [language]: _removed, ...rest } = profile.translations ?? {};
+    update({ translations: Object.keys(rest).length > 0 ? rest : undefined });
+    setVersion('default');
+  };
+
+  const handleSchemaChange = (text: string) => {
+    setSchemaText(text);
+    try {
+      const parsed = JSON.parse(text) as JsonSchema;
+      if (parsed?.type !== 'object') throw new Error(t('profileEditor.schemaNotObject'));
+      setSchemaError(null);
+      update({ responseSchema: parsed });
+    } catch (e) {
+      setSchemaError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDuplicate = () => {
+    const id = uniqueId(`${profile.id}-copy`, profiles);
+    onChange([...profiles, { ...profile, id, name: t('profileEditor.copyName', { name: profile.name }) }]);
+    onSelect(id);
+  };
+
+  const handleDelete = () => {
+    const remaining = profiles.filter(p => p.id !== profile.id);
+    onChange(remaining);
+    onSelect(remaining[0].id);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+    try {
+      const imported = parseProfiles(await selected.text());
+      onChange(mergeProfiles(profiles, imported));
+      onSelect(imported[0].id);
+      setImportError(null);
+    } catch (e) {
+      setImportError(t('profileEditor.importFailed', { message: e instanceof Error ? e.message : String(e) }));
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-4 mb-4 shadow-sm max-h-[50vh] overflow-y-auto">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-slate-800 text-sm">{t('profileEditor.title')}</h3>
+          <select
+            value={profile.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className="text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <select
+            value={version}
+            onChange={(e) => setVersion(e.target.value as TextsVersion)}
+            title={t('profileEditor.versionHint')}
+            className="text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="default">{t('profileEditor.version.default')}</option>
+            {(Object.keys(CONTENT_LANGUAGE_LABELS) as ContentLanguage[]).map(language => (
+              <option key={language} value={language}>
+                {t(profile.translations?.[language] ? 'profileEditor.version.translation' : 'profileEditor.version.missing', {
+                  language: t(CONTENT_LANGUAGE_LABELS[language]),
+                })}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={handleDuplicate} variant="outline" className="text-sm py-1.5"><Copy className="w-4 h-4" /> {t('profileEditor.duplicate')}</Button>
+          <Button onClick={handleDelete} variant="outline" className="text-sm py-1.5" disabled={profiles.length <= 1}><Trash2 className="w-4 h-4" /> {t('common.delete')}</Button>
+          <Button onClick={() => importRef.current?.click()} variant="outline" className="text-sm py-1.5"><Upload className="w-4 h-4" /> {t('profileEditor.import')}</Button>
+          <Button onClick={onExport} variant="outline" className="text-sm py-1.5"><Download className="w-4 h-4" /> {t('cachePanel.export')}</Button>
+          <Button onClick={() => onChange(mergeProfiles(profiles, BUILT_IN_PROFILES))} variant="outline" className="text-sm py-1.5" title={t('profileEditor.restoreHint')}>
+            <RotateCcw className="w-4 h-4" /> {t('profileEditor.restore')}
+          </Button>
+          <input type="file" ref={importRef} onChange={handleImport} accept=".json" className="hidden" />
+        </div>
+      </div>
+      {importError && <p className="text-xs text-red-600 mb-2">{importError}</p>}
+      {version !== 'default' && (
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 mb-3">
+          {texts ? (
+            <>
+              <span>{t('profileEditor.translationHint', { language: t(CONTENT_LANGUAGE_LABELS[version]) })}</span>
+              <button onClick={() => handleRemoveTranslation(version)} className="text-slate-500 hover:text-red-600 flex items-center gap-1 whitespace-nowrap">
+                <Trash2 className="w-4 h-4" /> {t('profileEditor.removeTranslation')}
+              </button>
+            </>
+          ) : (
+            <>
+              <span>{t('profileEditor.noTranslation', { language: t(CONTENT_LANGUAGE_LABELS[version]) })}</span>
+              <button onClick={() => handleAddTranslation(version)} className="text-indigo-600 hover:text-indigo-800 flex items-center gap-1 whitespace-nowrap">
+                <Plus className="w-4 h-4" /> {t('profileEditor.addTranslation')}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 text-xs text-slate-600">
+        <div className="space-y-3">
+          <label className="block">
+            {t('profileEditor.name')}
+            <input value={profile.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+          </label>
+          {texts && (
+            <>
+              <label className="block">
+                {t('profileEditor.instruction')}
+                <textarea value={texts.instruction} onChange={(e) => updateTexts({ instruction: e.target.value })} rows={3} className={inputClass} />
+              </label>
+              <div>
+                {t('profileEditor.rules')}
+                {texts.rules.map((rule, index) => (
+                  <div key={index} className="flex items-start gap-2 mt-1">
+                    <span className="pt-2 w-4 text-right">{index + 1}.</span>
+                    <textarea value={rule} onChange={(e) => updateRule(index, e.target.value)} rows={2} className={inputClass} />
+                    <button onClick={() => updateTexts({ rules: texts.rules.filter((_, i) => i !== index) })} className="pt-2 text-slate-400 hover:text-red-600" title={t('common.delete')}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => updateTexts({ rules: [...texts.rules, ''] })} className="mt-1 text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+                  <Plus className="w-4 h-4" /> {t('profileEditor.addRule')}
+                </button>
+              </div>
+              <label className="block">
+                {t('profileEditor.prompt')}
+                <input value={texts.prompt} onChange={(e) => updateTexts({ prompt: e.target.value })} className={inputClass} />
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {texts && (
+            <div>
+              {t('profileEditor.examples')}
+              {texts.examples.map((example, index) => (
+                <div key={index} className="flex items-start gap-2 mt-1">
+                  <textarea value={example.input} onChange={(e) => updateExample(index, { input: e.target.value })} rows={2} className={`${inputClass} font-mono`} placeholder={t('profileEditor.exampleInput')} />
+                  <textarea value={example.output} onChange={(e) => updateExample(index, { output: e.target.value })} rows={2} className={`${inputClass} font-mono`} placeholder={t('profileEditor.exampleOutput')} />
+                  <button onClick={() => updateTexts({ examples: texts.examples.filter((_, i) => i !== index) })} className="pt-2 text-slate-400 hover:text-red-600" title={t('common.delete')}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={() => updateTexts({ examples: [...texts.examples, { input: '', output: '' }] })} className="mt-1 text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+                <Plus className="w-4 h-4" /> {t('profileEditor.addExample')}
+              </button>
+            </div>
+          )}
+          <div>
+            {t('profileEditor.substitutions')}
+            {substitutions.map(([from, to], index) => (
+              <div key={index} className="flex items-start gap-2 mt-1">
+                <input value={from} onChange={(e) => updateSubstitution(index, [e.target.value, to])} className={`${inputClass} font-mono`} placeholder={t('profileEditor.substitutionFrom')} />
+                <input value={to} onChange={(e) => updateSubstitution(index, [from, e.target.value])} className={`${inputClass} font-mono`} placeholder={t('profileEditor.substitutionTo')} />
+                <button onClick={() => updateSubstitutions(substitutions.filter((_, i) => i !== index))} className="pt-2 text-slate-400 hover:text-red-600" title={t('common.delete')}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateSubstitutions([...substitutions, ['', '']])}
+              disabled={substitutions.some(([from]) => from === '')}
+              className="mt-1 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-40 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> {t('profileEditor.addSubstitution')}
+            </button>
+          </div>
+          <label className="block">
+            {t('profileEditor.schema')}
+            <textarea
+              value={schemaText}
+              onChange={(e) => handleSchemaChange(e.target.value)}
+              rows={6}
+              className={`${inputClass} font-mono ${schemaError ? 'border-red-400' : ''}`}
+            />
+            {schemaError && <span className="text-red-600">{schemaError}</span>}
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
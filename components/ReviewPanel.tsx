@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, Pencil, ChevronLeft, ChevronRight, AlertCircle } from 'lucide-react';
+import { FieldChange, ReviewDecision, finalValue, isDollarOnlyChange } from '../services/review';
+import { RenderIssue } from '../services/geminiService';
+import { LATEX_ISSUE_LABELS } from '../services/latexValidator';
+import { MessageKey, t } from '../services/i18n';
+import { DiffView } from './DiffView';
+import { Button } from './Button';
+
+interface ReviewPanelProps {
+  changes: FieldChange[];
+  onChange: (changes: FieldChange[]) => void;
+  renderIssues?: RenderIssue[];
+  className?: string;
+}
+
+type Filter = 'all' | ReviewDecision;
+
+const PAGE_SIZE = 50;
+
+const FILTER_LABELS: Record<Filter, MessageKey> = {
+  all: 'review.filter.all',
+  pending: 'review.decision.pending',
+  accepted: 'review.decision.accepted',
+  rejected: 'review.decision.rejected',
+};
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  pending: 'border-slate-200',
+  accepted: 'border-emerald-300 bg-emerald-50/40',
+  rejected: 'border-red-200 bg-red-50/40 opacity-70',
+};
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ changes, onChange, renderIssues = [], className = '' }) => {
+  const [filter, setFilter] = useState<Filter>('all');
+  const [page, setPage] = useState(0);
+  const [editingPath, setEditingPath] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const issuesByPath = useMemo(() => new Map(renderIssues.map(issue => [issue.path, issue])), [renderIssues]);
+
+  const counts = useMemo(() => ({
+    all: changes.length,
+    pending: changes.filter(c => c.decision === 'pending').length,
+    accepted: changes.filter(c => c.decision === 'accepted').length,
+    rejected: changes.filter(c => c.decision === 'rejected').length,
+  }), [changes]);
+
+  // Group the visible changes by item so related fields are reviewed together.
+  const groups = useMemo(() => {
+    const visible = filter === 'all' ? changes : changes.filter(c => c.decision === filter);
+    const byUnit = new Map<string, FieldChange[]>();
+    visible.forEach(change => {
+      const group = byUnit.get(change.unitPath) ?? [];
+      group.push(change);
+      byUnit.set(change.unitPath, group);
+    });
+    return Array.from(byUnit.entries());
+  }, [changes, filter]);
+
+  const pageCount = Math.max(1, Math.ceil(groups.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageGroups = groups.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const update = (predicate: (change: FieldChange) => boolean, patch: Partial<FieldChange>) => {
+    onChange(changes.map(change => (predicate(change) ? { ...change, ...patch } : change)));
+  };
+
+  const startEdit = (change: FieldChange) => {
+    setEditingPath(change.path);
+    setDraft(finalValue(change));
+  };
+
+  const saveEdit = (change: FieldChange) => {
+    update(c => c.path === change.path, {
+      edited: draft === change.after ? undefined : draft,
+      decision: 'accepted',
+    });
+    setEditingPath(null);
+  };
+
+  return (
+    <div className={`flex flex-col bg-white border border-slate-200 rounded-lg ${className}`}>
+      <div className="px-4 py-3 border-b border-slate-200 flex flex-wrap items-center gap-2 justify-between">
+        <div className="flex gap-1">
+          {(Object.keys(FILTER_LABELS) as Filter[]).map(key => (
+            <button
+              key={key}
+              onClick={() => { setFilter(key); setPage(0); }}
+              className={`text-xs px-2.5 py-1 rounded-full border ${filter === key ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:border-indigo-400'}`}
+            >
+              {t(FILTER_LABELS[key])} ({counts[key]})
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="text-xs px-2.5 py-1" onClick={() => update(c => c.decision === 'pending' && isDollarOnlyChange(c), { decision: 'accepted' })}>
+            {t('review.acceptDollarOnly')}
+          </Button>
+          <Button variant="outline" className="text-xs px-2.5 py-1" onClick={() => update(c => c.decision === 'pending', { decision: 'accepted' })}>
+            {t('review.acceptAll')}
+          </Button>
+          <Button variant="outline" className="text-xs px-2.5 py-1" onClick={() => update(c => c.decision === 'pending', { decision: 'rejected' })}>
+            {t('review.rejectAll')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {pageGroups.length === 0 && (
+          <p className="text-center text-sm text-slate-400 py-12">{t('review.empty')}</p>
+        )}
+        {pageGroups.map(([unitPath, group]) => (
+          <div key={unitPath} className="space-y-2">
+            <div className="text-xs font-mono text-slate-400">{unitPath}</div>
+            {group.map(change => (
+              <div key={change.path} className={`border rounded-lg p-3 ${DECISION_STYLES[change.decision]}`}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-semibold text-slate-600">
+                    {change.key}
+                    {change.edited !== undefined && <span className="ml-2 text-indigo-600 font-normal">{t('review.edited')}</span>}
+                    {issuesByPath.has(change.path) && change.edited === undefined && (
+                      <span
+                        className="ml-2 inline-flex items-center gap-0.5 text-red-600 font-normal"
+                        title={issuesByPath.get(change.path)!.issues.map(i => i.message).join('\n')}
+                      >
+                        <AlertCircle className="w-3.5 h-3.5" />
+                        {issuesByPath.get(change.path)!.issues.map(i => t(LATEX_ISSUE_LABELS[i.kind])).join(t('document.listSeparator'))}
+                      </span>
+                    )}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => update(c => c.path === change.path, { decision: 'accepted' })}
+                      className={`p-1 rounded ${change.decision === 'accepted' ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-emerald-600'}`}
+                      title={t('review.accept')}
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => update(c => c.path === change.path, { decision: 'rejected' })}
+                      className={`p-1 rounded ${change.decision === 'rejected' ? 'bg-red-600 text-white' : 'text-slate-400 hover:text-red-600'}`}
+                      title={t('review.reject')}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => startEdit(change)}
+                      className="p-1 rounded text-slate-400 hover:text-indigo-600"
+                      title={t('review.edit')}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {editingPath === change.path ? (
+                  <div>
+                    <textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      className="w-full font-mono text-xs border border-slate-300 rounded p-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      rows={Math.min(8, Math.max(2, draft.split('\n').length + 1))}
+                    />
+                    <div className="flex gap-2 mt-2 justify-end">
+                      <Button variant="outline" className="text-xs px-2.5 py-1" onClick={() => setEditingPath(null)}>{t('common.cancel')}</Button>
+                      <Button className="text-xs px-2.5 py-1" onClick={() => saveEdit(change)}>{t('review.saveAndAccept')}</Button>
+                    </div>
+                  </div>
+                ) : (
+                  <DiffView before={change.before} after={finalValue(change)} />
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="px-4 py-2 border-t border-slate-200 flex items-center justify-center gap-3 text-xs text-slate-500">
+          <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)} className="disabled:opacity-30">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          {t('common.page', { page: currentPage + 1, pages: pageCount })}
+          <button disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)} className="disabled:opacity-30">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
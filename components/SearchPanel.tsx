@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Play, Replace, Search } from 'lucide-react';
+import { FieldRule } from '../types';
+import { ProcessFailure } from '../services/geminiService';
+import { FieldChange } from '../services/review';
+import {
+  EMPTY_QUERY,
+  Replacement,
+  SEARCH_MODE_LABELS,
+  STATUS_FILTER_LABELS,
+  SearchMode,
+  SearchQuery,
+  StatusFilter,
+  buildMatcher,
+  difficultyValues,
+  planReplacements,
+  searchUnits,
+} from '../services/search';
+import { t } from '../services/i18n';
+import { Button } from './Button';
+import { DiffView } from './DiffView';
+
+interface SearchPanelProps {
+  originalData: any;
+  processedData: any | null;
+  changes: FieldChange[];
+  failures: ProcessFailure[];
+  fieldRules: FieldRule[];
+  /** Sends the selected items through the pipeline on their own; omitted while a run is going. */
+  onProcess?: (unitPaths: string[]) => void;
+  onReplace: (replacements: Replacement[]) => void;
+  className?: string;
+}
+
+const PAGE_SIZE = 30;
+
+const Highlighted: React.FC<{ text: string; matcher: RegExp | null }> = ({ text, matcher }) => {
+  if (!matcher) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(matcher)) {
+    if (match[0] === '') continue;
+    parts.push(text.slice(last, match.index));
+    parts.push(<mark key={match.index} className="bg-amber-200 rounded-sm">{match[0]}</mark>);
+    last = match.index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  originalData,
+  processedData,
+  changes,
+  failures,
+  fieldRules,
+  onProcess,
+  onReplace,
+  className = '',
+}) => {
+  const [query, setQuery] = useState<SearchQuery>(EMPTY_QUERY);
+  // Items unticked by hand; every other match is selected.
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [replacement, setReplacement] = useState('');
+  const [previewing, setPreviewing] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const updateQuery = (patch: Partial<SearchQuery>) => {
+    setQuery(prev => ({ ...prev, ...patch }));
+    setPreviewing(false);
+    setPage(0);
+  };
+
+  const { matcher, error } = useMemo(() => {
+    try {
+      return { matcher: buildMatcher(query.text, query.mode), error: null };
+    } catch (e) {
+      return { matcher: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [query.text, query.mode]);
+
+  const difficulties = useMemo(() => difficultyValues(originalData, fieldRules), [originalData, fieldRules]);
+  const hits = useMemo(
+    () => (error ? [] : searchUnits(originalData, processedData, changes, failures, fieldRules, query, matcher)),
+    [originalData, processedData, changes, failures, fieldRules, query, matcher, error]
+  );
+  const selected = useMemo(() => hits.filter(hit => !excluded.has(hit.unitPath)), [hits, excluded]);
+  const replacements = useMemo(
+    () => (previewing && matcher ? planReplacements(selected, matcher, replacement, query.mode) : []),
+    [previewing, matcher, selected, replacement, query.mode]
+  );
+
+  const toggle = (unitPath: string) => {
+    const next = new Set(excluded);
+    if (next.has(unitPath)) next.delete(unitPath); else next.add(unitPath);
+    setExcluded(next);
+    setPreviewing(false);
+  };
+
+  const applyReplacements = () => {
+    onReplace(replacements);
+    setPreviewing(false);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(hits.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageHits = hits.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <div className={`flex flex-col bg-white border border-slate-200 rounded-lg ${className}`}>
+      <div className="px-4 py-3 border-b border-slate-200 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              value={query.text}
+              onChange={(e) => updateQuery({ text: e.target.value })}
+              placeholder={t(query.mode === 'command' ? 'searchPanel.commandPlaceholder' : 'searchPanel.placeholder')}
+              className={`w-full font-mono text-sm border rounded-lg pl-7 pr-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${error ? 'border-red-300' : 'border-slate-300'}`}
+            />
+          </div>
+          <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+            {(Object.keys(SEARCH_MODE_LABELS) as SearchMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => updateQuery({ mode })}
+                className={`px-2.5 py-1.5 text-xs ${query.mode === mode ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                {t(SEARCH_MODE_LABELS[mode])}
+              </button>
+            ))}
+          </div>
+          {difficulties.length > 0 && (
+            <select
+              value={query.difficulty ?? ''}
+              onChange={(e) => updateQuery({ difficulty: e.target.value || null })}
+              className="text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+            >
+              <option value="">{t('searchPanel.anyDifficulty')}</option>
+              {difficulties.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          )}
+          {processedData && (
+            <select
+              value={query.status}
+              onChange={(e) => updateQuery({ status: e.target.value as StatusFilter })}
+              className="text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+            >
+              {(Object.keys(STATUS_FILTER_LABELS) as StatusFilter[]).map(status => (
+                <option key={status} value={status}>{t(STATUS_FILTER_LABELS[status])}</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-1.5 text-xs text-slate-600 whitespace-nowrap">
+            <input type="checkbox" checked={query.onlyInvalid} onChange={(e) => updateQuery({ onlyInvalid: e.target.checked })} />
+            {t('searchPanel.onlyInvalid')}
+          </label>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={replacement}
+            onChange={(e) => { setReplacement(e.target.value); setPreviewing(false); }}
+            placeholder={t('searchPanel.replaceWith')}
+            title={t('searchPanel.replaceHint')}
+            className="flex-1 min-w-[12rem] font-mono text-sm border border-slate-300 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <Button variant="outline" className="text-xs px-2.5 py-1.5" disabled={!matcher || selected.length === 0} onClick={() => setPreviewing(true)}>
+            <Replace className="w-4 h-4" /> {t('searchPanel.preview')}
+          </Button>
+          {onProcess && (
+            <Button className="text-xs px-2.5 py-1.5" disabled={selected.length === 0} onClick={() => onProcess(selected.map(hit => hit.unitPath))}>
+              <Play className="w-4 h-4" /> {t('searchPanel.process', { count: selected.length })}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {previewing && (
+        <div className="px-4 py-3 border-b border-slate-200 bg-amber-50/50 max-h-[40%] overflow-auto">
+          {replacements.length === 0 ? (
+            <p className="text-sm text-slate-500">{t('searchPanel.noReplacements')}</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-slate-800">{t('searchPanel.previewTitle', { count: replacements.length })}</h3>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="text-xs px-2.5 py-1" onClick={() => setPreviewing(false)}>{t('common.cancel')}</Button>
+                  <Button className="text-xs px-2.5 py-1" onClick={applyReplacements}>{t('searchPanel.apply', { count: replacements.length })}</Button>
+                </div>
+              </div>
+              {!processedData && <p className="text-xs text-slate-500 mb-2">{t('searchPanel.applyToInput')}</p>}
+              <ul className="space-y-2">
+                {replacements.map(({ field, before, after }) => (
+                  <li key={field.path}>
+                    <div className="text-[11px] font-mono text-slate-400">{field.path}</div>
+                    <DiffView before={before} after={after} />
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="px-4 py-2 border-b border-slate-200 flex items-center gap-3 text-xs text-slate-500">
+        <span>{t('searchPanel.results', { count: hits.length })}</span>
+        <span>{t('searchPanel.selected', { selected: selected.length, total: hits.length })}</span>
+        <button onClick={() => { setExcluded(new Set()); setPreviewing(false); }} className="text-indigo-600 underline">{t('searchPanel.selectAll')}</button>
+        <button onClick={() => { setExcluded(new Set(hits.map(hit => hit.unitPath))); setPreviewing(false); }} className="text-indigo-600 underline">{t('searchPanel.selectNone')}</button>
+      </div>
+
+      <div className="flex-1 overflow-auto divide-y divide-slate-100">
+        {pageHits.length === 0 && (
+          <p className="text-center text-sm text-slate-400 py-12">{t('searchPanel.empty')}</p>
+        )}
+        {pageHits.map(hit => (
+          <label key={hit.unitPath} className="flex items-start gap-3 px-4 py-2 hover:bg-slate-50">
+            <input type="checkbox" className="mt-1" checked={!excluded.has(hit.unitPath)} onChange={() => toggle(hit.unitPath)} />
+            <div className="min-w-0 flex-1">
+              <div className="text-xs font-mono text-slate-400">{hit.unitPath}</div>
+              {hit.fields.map(field => (
+                <p key={field.path} className="text-xs font-mono text-slate-700 break-all">
+                  <span className="text-slate-400">{field.key}: </span>
+                  <Highlighted text={field.value} matcher={matcher} />
+                </p>
+              ))}
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="px-4 py-2 border-t border-slate-200 flex items-center justify-center gap-3 text-xs text-slate-500">
+          <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)} className="disabled:opacity-30">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          {t('common.page', { page: currentPage + 1, pages: pageCount })}
+          <button disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)} className="disabled:opacity-30">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
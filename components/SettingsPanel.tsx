@@ -0,0 +1,137 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ProviderKind, ProviderSettings, RateLimits } from '../types';
+import { DEFAULT_MODELS, PROVIDER_LABELS } from '../services/llmProvider';
+import { DEFAULT_PROXY_URL } from '../services/proxyProvider';
+import { DEFAULT_RATE_LIMITS } from '../services/scheduler';
+import { MessageKey, t } from '../services/i18n';
+import { Button } from './Button';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const LIMIT_FIELDS: { key: keyof RateLimits; label: MessageKey }[] = [
+  { key: 'requestsPerMinute', label: 'settings.requestsPerMinute' },
+  { key: 'tokensPerMinute', label: 'settings.tokensPerMinute' },
+  { key: 'maxConcurrency', label: 'settings.maxConcurrency' },
+];
+
+const inputClass = "w-full text-sm border border-slate-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const handleKindChange = (kind: ProviderKind) => {
+    onChange({ ...settings, kind, model: DEFAULT_MODELS[kind], baseUrl: undefined });
+  };
+
+  const handleLimitChange = (key: keyof RateLimits, value: string) => {
+    const limits = { ...settings.limits };
+    const n = Number(value);
+    if (value === '' || !Number.isInteger(n) || n < 1) {
+      delete limits[key];
+    } else {
+      limits[key] = n;
+    }
+    onChange({ ...settings, limits });
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-slate-800">{t('settings.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700">{t('settings.provider')}</span>
+            <select
+              value={settings.kind}
+              onChange={(e) => handleKindChange(e.target.value as ProviderKind)}
+              className={`${inputClass} mt-1 bg-white`}
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                <option key={kind} value={kind}>{t(PROVIDER_LABELS[kind])}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700">{t('settings.model')}</span>
+            <input
+              value={settings.model}
+              onChange={(e) => onChange({ ...settings, model: e.target.value })}
+              className={`${inputClass} mt-1 font-mono`}
+            />
+          </label>
+
+          {(settings.kind === 'openai' || settings.kind === 'proxy') && (
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">{settings.kind === 'proxy' ? t('settings.proxyUrl') : t('settings.baseUrl')}</span>
+              <input
+                value={settings.baseUrl ?? ''}
+                placeholder={settings.kind === 'proxy' ? DEFAULT_PROXY_URL : 'https://api.openai.com/v1'}
+                onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+                className={`${inputClass} mt-1 font-mono`}
+              />
+            </label>
+          )}
+
+          {settings.kind === 'proxy' && (
+            <p className="text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg p-3">
+              {t('settings.proxyHintStart')}<code className="font-mono">npm run proxy</code>{t('settings.proxyHintEnd')}
+            </p>
+          )}
+
+          {(settings.kind === 'gemini' || settings.kind === 'openai') && (
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">{t('settings.apiKey')}</span>
+              <input
+                type="password"
+                value={settings.apiKey ?? ''}
+                onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+                className={`${inputClass} mt-1 font-mono`}
+              />
+              <span className="text-xs text-slate-400">{t('settings.keyHint')}</span>
+            </label>
+          )}
+
+          {settings.kind === 'mock' && (
+            <p className="text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg p-3">
+              {t('settings.mockHint')}
+            </p>
+          )}
+
+          <div>
+            <span className="text-sm font-medium text-slate-700">{t('settings.rateLimits')}</span>
+            <div className="grid grid-cols-3 gap-2 mt-1">
+              {LIMIT_FIELDS.map(({ key, label }) => (
+                <label key={key} className="block">
+                  <span className="text-xs text-slate-500">{t(label)}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.limits?.[key] ?? ''}
+                    placeholder={String(DEFAULT_RATE_LIMITS[key])}
+                    onChange={(e) => handleLimitChange(key, e.target.value)}
+                    className={`${inputClass} mt-1 font-mono`}
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1">{t('settings.rateLimitsHint')}</p>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <Button onClick={onClose}>{t('common.done')}</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowRight, Download, FolderOpen, Pause, Play, Square } from 'lucide-react';
+import { Button } from './Button';
+import { ProcessOptions } from '../services/geminiService';
+import { FORMAT_HANDLERS } from '../services/formats';
+import { indexedDbCheckpointStore } from '../services/checkpointStore';
+import { RunController } from '../services/runController';
+import { WorkspaceFile, WorkspaceFileStatus, findCrossFileDuplicateIds, isRunnable, processWorkspace } from '../services/workspace';
+import { MessageKey, t } from '../services/i18n';
+
+interface WorkspacePanelProps {
+  files: WorkspaceFile[];
+  onUpdate: (path: string, patch: Partial<WorkspaceFile>) => void;
+  /** Settings shared by every file, as for a single-file run. */
+  processOptions: ProcessOptions;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<WorkspaceFileStatus, { label: MessageKey; className: string }> = {
+  pending: { label: 'workspace.status.pending', className: 'bg-slate-100 text-slate-600' },
+  processing: { label: 'workspace.status.processing', className: 'bg-indigo-100 text-indigo-700' },
+  done: { label: 'workspace.status.done', className: 'bg-green-100 text-green-700' },
+  cancelled: { label: 'workspace.status.cancelled', className: 'bg-amber-100 text-amber-700' },
+  error: { label: 'workspace.status.error', className: 'bg-red-100 text-red-700' },
+};
+
+const MAX_DUPLICATES_SHOWN = 20;
+
+export const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ files, onUpdate, processOptions, onDownload, onClose }) => {
+  const [running, setRunning] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [queueError, setQueueError] = useState<string | null>(null);
+  const controllerRef = useRef<RunController | null>(null);
+
+  const duplicates = useMemo(() => findCrossFileDuplicateIds(files), [files]);
+  const runnableCount = files.filter(isRunnable).length;
+  const doneCount = files.filter(file => file.status === 'done').length;
+  const totals = files.reduce((acc, file) => {
+    const stats = file.result?.stats;
+    return {
+      items: acc.items + (stats?.total ?? 0),
+      success: acc.success + (stats?.success ?? 0),
+      cached: acc.cached + (stats?.cached ?? 0),
+      failed: acc.failed + (stats?.failed ?? 0),
+    };
+  }, { items: 0, success: 0, cached: 0, failed: 0 });
+
+  const handleStart = async () => {
+    const controller = new RunController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setPaused(false);
+    setQueueError(null);
+    try {
+      await processWorkspace(files, { ...processOptions, controller }, indexedDbCheckpointStore, onUpdate);
+    } catch (err) {
+      setQueueError(err instanceof Error ? err.message : String(err));
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleTogglePause = () => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    if (controller.isPaused) controller.resume(); else controller.pause();
+    setPaused(controller.isPaused);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-slate-100 p-2 rounded flex items-center gap-2 border border-slate-200">
+            <FolderOpen className="w-4 h-4 text-slate-500" />
+            <span className="text-sm font-medium text-slate-700">{t('workspace.title', { count: files.length })}</span>
+          </div>
+          <button onClick={onClose} disabled={running} className="text-sm text-slate-500 hover:text-red-600 underline disabled:opacity-40">
+            {t('workspace.close')}
+          </button>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-slate-500">
+            {t('workspace.totals', { done: doneCount, files: files.length, ...totals })}
+          </span>
+          {running ? (
+            <>
+              <Button onClick={handleTogglePause} variant="outline">
+                {paused ? <><Play className="w-4 h-4" /> {t('common.resume')}</> : <><Pause className="w-4 h-4" /> {t('common.pause')}</>}
+              </Button>
+              <Button onClick={() => controllerRef.current?.cancel()} variant="outline" className="text-red-600 hover:bg-red-50">
+                <Square className="w-4 h-4" /> {t('common.cancel')}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleStart} variant="primary" disabled={runnableCount === 0}>
+              {t('workspace.start', { count: runnableCount })} <ArrowRight className="w-4 h-4" />
+            </Button>
+          )}
+          <Button onClick={onDownload} variant="primary" disabled={running || files.every(file => !file.result)} className="bg-green-600 hover:bg-green-700 focus:ring-green-500">
+            <Download className="w-4 h-4" /> {t('workspace.download')}
+          </Button>
+        </div>
+      </div>
+
+      {queueError && (
+        <p className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{t('workspace.queueStopped', { message: queueError })}</p>
+      )}
+
+      {duplicates.length > 0 && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+          <h3 className="font-semibold flex items-center gap-2 mb-1">
+            <AlertTriangle className="w-4 h-4" /> {t('workspace.duplicates', { count: duplicates.length })}
+          </h3>
+          <ul className="text-xs font-mono space-y-0.5">
+            {duplicates.slice(0, MAX_DUPLICATES_SHOWN).map(({ id, occurrences }) => (
+              <li key={id}>
+                {id}: {occurrences.map(o => `${o.file} ${o.path}`).join(t('common.listSeparator'))}
+              </li>
+            ))}
+            {duplicates.length > MAX_DUPLICATES_SHOWN && <li>{t('workspace.moreDuplicates', { count: duplicates.length - MAX_DUPLICATES_SHOWN })}</li>}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs text-slate-500 text-left">
+            <tr>
+              <th className="px-4 py-2 font-medium">{t('workspace.column.file')}</th>
+              <th className="px-4 py-2 font-medium">{t('workspace.column.format')}</th>
+              <th className="px-4 py-2 font-medium">{t('workspace.column.status')}</th>
+              <th className="px-4 py-2 font-medium w-48">{t('workspace.column.progress')}</th>
+              <th className="px-4 py-2 font-medium">{t('workspace.column.stats')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {files.map(file => {
+              const stats = file.result?.stats;
+              const badge = STATUS_LABELS[file.status];
+              return (
+                <tr key={file.path}>
+                  <td className="px-4 py-2 font-mono text-xs text-slate-700">{file.path}</td>
+                  <td className="px-4 py-2 text-xs text-slate-500">{FORMAT_HANDLERS[file.source.format].label}</td>
+                  <td className="px-4 py-2">
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${badge.className}`}>{t(badge.label)}</span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-600 transition-all duration-200" style={{ width: `${file.progress}%` }}></div>
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-xs text-slate-500">
+                    {file.error ? (
+                      <span className="text-red-600">{file.error}</span>
+                    ) : stats ? (
+                      t('workspace.fileStats', { ...stats })
+                    ) : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,511 @@
+// Interface messages in English.
+import type { zh } from "./zh";
+
+export const en: Record<keyof typeof zh, string> = {
+  // latexNormalizer
+  'normalizer.unclosedDollar': 'Unclosed $ delimiter',
+  'normalizer.ambiguousWord': 'Cannot tell whether this is math: "{word}"',
+  'normalizer.controlCharacter': 'Contains control characters that cannot be restored',
+  'normalizer.ambiguousLineBreak': 'A line break followed by letters may be a command that lost its backslash',
+
+  // resultValidator
+  'validator.notString': 'Field is missing or not a string',
+  'validator.unbalancedDollar': 'Unpaired $ delimiters',
+  'validator.proseRewritten': 'Prose was rewritten',
+  'validator.cjkChanged': 'Chinese text was changed or removed',
+  'validator.wordMissing': 'English word "{word}" is missing',
+  'validator.wordInMath': 'English word "{word}" was moved into a formula',
+  'validator.mathTokenMissing': 'Math token "{token}" is missing',
+  'validator.indexMissing': 'The model did not return this item (_index missing)',
+  'validator.indexDuplicated': 'The model returned a duplicate _index',
+
+  // latexValidator
+  'latex.unbalancedBraceMessage': 'Unbalanced braces',
+  'latex.unclosedDollarMessage': 'Unclosed $ delimiter',
+  'latex.kind.unbalancedDollar': 'Unclosed $',
+  'latex.kind.unbalancedBrace': 'Unbalanced braces',
+  'latex.kind.unknownCommand': 'Unknown command',
+  'latex.kind.parseError': 'Syntax error',
+
+  // jsonRepair
+  'repair.kind.invalidEscape': 'Invalid escape',
+  'repair.kind.latexEscape': 'LaTeX escape',
+  'repair.kind.trailingComma': 'Trailing comma',
+  'repair.kind.comment': 'Comment',
+  'repair.kind.smartQuote': 'Smart quote',
+  'repair.kind.controlCharacter': 'Line break in string',
+  'repair.smartQuote': 'Smart quote {quote} used as a string delimiter',
+  'repair.comment': 'JSON does not allow comments',
+  'repair.trailingComma': 'Extra comma before {bracket}',
+  'repair.invalidEscapeCommand': 'Invalid escape {escape}; write the LaTeX command as {command}',
+  'repair.invalidEscape': 'Invalid escape {escape}',
+  'repair.unicodeEscape': '\\u must be followed by 4 hex digits',
+  'repair.latexEscape': '{command} is read as the control character {escape} followed by "{rest}"',
+  'repair.lineBreak': 'Unescaped line break in string',
+  'repair.tab': 'Unescaped tab in string',
+  'repair.controlCharacter': 'Unescaped control character in string',
+
+  // schemaLint
+  'lint.code.missingId': 'Missing id',
+  'lint.code.duplicateId': 'Duplicate id',
+  'lint.code.danglingRelation': 'Missing relation target',
+  'lint.code.duplicateRelation': 'Duplicate relation',
+  'lint.code.invalidDifficulty': 'Invalid difficulty',
+  'lint.code.emptyDescription': 'Empty description',
+  'lint.code.wrongType': 'Wrong type',
+  'lint.missingId': 'Item has no id',
+  'lint.idType': 'id should be a string or number, got {type}',
+  'lint.duplicateId': 'id {id} is already used by {path}',
+  'lint.stringId': 'id {id} is a string while other items use numeric ids',
+  'lint.fix.toNumber': 'Convert to number',
+  'lint.emptyDescription': 'Description is empty',
+  'lint.missingDescription': 'Missing description',
+  'lint.difficultyType': 'difficulty should be a string, got {type}',
+  'lint.difficultyCase': 'Difficulty {value} differs from {canonical} only in case or whitespace',
+  'lint.fix.changeTo': 'Change to {value}',
+  'lint.difficultyInvalid': 'Difficulty {value} is not one of the allowed values ({levels})',
+  'lint.relationsType': 'relations should be an array, got {type}',
+  'lint.fix.wrapInArray': 'Wrap in an array',
+  'lint.relationTarget': 'Unrecognized relation target; expected an id or an object with a {keys} field',
+  'lint.danglingRelation': 'Related id {id} does not exist',
+  'lint.duplicateRelations': 'Contains {count} duplicate relation|Contains {count} duplicate relations',
+  'lint.fix.removeDuplicates': 'Remove duplicates',
+  'lint.stringType': '{key} should be a string, got {type}',
+  'lint.fix.toString': 'Convert to string',
+  'lint.type.array': 'array',
+  'lint.type.string': 'string',
+  'lint.type.number': 'number',
+  'lint.type.boolean': 'boolean',
+  'lint.type.object': 'object',
+
+  // auditLog
+  'audit.source.resumed': 'Checkpoint',
+  'audit.source.local': 'Local rules',
+  'audit.source.cache': 'Cache',
+  'audit.source.model': 'Model',
+  'audit.invalidFile': 'Not a valid audit log file',
+  'audit.invalidChanges': 'The audit log has malformed change records',
+  'audit.stats': '{total} items: {success} succeeded ({local} local, {resumed} resumed), {cached} from cache, {failed} failed',
+  'audit.rejected': 'Rejected {count} item: {reasons}|Rejected {count} items: {reasons}',
+  'audit.succeeded': 'Succeeded',
+  'audit.soloRetry': 'Solo retry {path}',
+  'audit.attempt': 'Attempt {n}',
+  'audit.html.time': 'Time: {start} – {end}',
+  'audit.html.model': 'Model: {provider} / {model}, mode: {mode}',
+  'audit.html.language': 'Content language: {language}',
+  'audit.html.profile': 'Rule profile: {name} (version {version})',
+  'audit.column.batch': 'Batch',
+  'audit.column.items': 'Items',
+  'audit.column.request': 'Request',
+  'audit.column.started': 'Started',
+  'audit.column.duration': 'Duration',
+  'audit.column.result': 'Result',
+  'audit.noRequests': 'No model requests in this run.',
+  'audit.title': 'Processing log: {file}',
+  'audit.inputHash': 'Input file SHA-256: {hash}',
+  'audit.html.exportedAt': 'Exported: {time}',
+  'audit.changedFields': 'Changed fields ({count})',
+  'audit.column.path': 'Path',
+  'audit.column.before': 'Before',
+  'audit.column.after': 'After',
+  'audit.column.source': 'Source',
+  'audit.column.decision': 'Review',
+  'audit.runTitle': 'Run {n}',
+  'audit.runOnly': ' (only {count} item)| (only {count} items)',
+  'audit.runCancelled': ' (cancelled)',
+
+  // review
+  'review.decision.pending': 'Pending',
+  'review.decision.accepted': 'Accepted',
+  'review.decision.rejected': 'Rejected',
+  'review.filter.all': 'All',
+  'review.acceptDollarOnly': 'Accept changes that only add $',
+  'review.acceptAll': 'Accept all',
+  'review.rejectAll': 'Reject all',
+  'review.empty': 'No matching changes',
+  'review.edited': '(edited)',
+  'review.accept': 'Accept',
+  'review.reject': 'Reject',
+  'review.edit': 'Edit',
+  'review.saveAndAccept': 'Save and accept',
+
+  // latexNormalizer
+  'language.zh': 'Chinese',
+  'language.en': 'English',
+
+  // llmProvider
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI-compatible API',
+  'provider.proxy': 'Proxy (key kept on the server)',
+  'provider.mock': 'Offline mock',
+
+  // geminiProvider
+  'provider.missingKey': 'No API key configured. Enter your own API key in the model settings, or use the proxy instead.',
+
+  // fieldSelector
+  'fields.emptyPattern': 'Field pattern cannot be empty',
+  'fields.invalidPattern': 'Invalid field pattern: {pattern}',
+
+  // csv
+  'csv.unclosedQuote': 'Unclosed quote in CSV',
+  'csv.empty': 'The CSV file is empty',
+  'csv.tooManyColumns': 'CSV row {row} has {count} columns but the header has only {columns}',
+
+  // formats
+  'formats.rowsOnly': '{format} can only export an array of objects',
+  'formats.lineError': 'Line {line}: {message}',
+  'formats.arrayOnly': 'JSON Lines can only export an array',
+
+  // jsonPath
+  'path.invalid': 'Invalid path: {path}',
+
+  // workspace
+  'workspace.parseFailed': 'Failed to parse: {message}',
+
+  // WorkspacePanel
+  'workspace.status.pending': 'Waiting',
+  'workspace.status.processing': 'Processing',
+  'workspace.status.done': 'Done',
+  'workspace.status.cancelled': 'Cancelled',
+  'workspace.status.error': 'Failed',
+  'workspace.title': 'Workspace · {count} file|Workspace · {count} files',
+  'workspace.close': 'Close workspace',
+  'workspace.totals': '{done}/{files} files done · {items} items: {success} succeeded, {cached} from cache, {failed} failed',
+  'workspace.start': 'Process {count} file|Process {count} files',
+  'workspace.download': 'Download ZIP',
+  'workspace.queueStopped': 'Queue stopped: {message}',
+  'workspace.duplicates': '{count} id appears in more than one file|{count} ids appear in more than one file',
+  'workspace.moreDuplicates': '… and {count} more',
+  'workspace.column.file': 'File',
+  'workspace.column.format': 'Format',
+  'workspace.column.status': 'Status',
+  'workspace.column.progress': 'Progress',
+  'workspace.column.stats': 'Results',
+  'workspace.fileStats': '{total} items: {success} succeeded ({local} local), {cached} from cache, {failed} failed',
+
+  // resultCache
+  'cache.invalidFile': 'Not a valid cache export file',
+
+  // documentExport
+  'document.difficulty': 'Difficulty',
+  'document.relatedWithLabel': '{name} ({label})',
+  'document.untitled': 'Untitled item {id}',
+  'document.related': 'Related',
+  'document.listSeparator': ', ',
+  'document.markdown': 'Markdown notes',
+  'document.latex': 'LaTeX notes',
+
+  // ruleProfiles
+  'profiles.where': 'Profile {n}',
+  'profiles.whereTranslation': '{where} ({language} version)',
+  'profiles.notObject': '{where}: not an object',
+  'profiles.missingField': '{where}: missing field "{key}"',
+  'profiles.invalidRules': '{where}: "rules" must be an array of strings',
+  'profiles.invalidExamples': '{where}: "examples" must be an array of { input, output }',
+  'profiles.invalidSchema': '{where}: "responseSchema" must be a JSON Schema of type object',
+  'profiles.invalidTranslations': '{where}: "translations" must be an object keyed by zh or en',
+  'profiles.empty': 'The file contains no profiles',
+  'profiles.invalidSubstitutions': '{where}: "substitutions" must map notation to LaTeX commands, e.g. { "P": "\\\\Pr" }',
+
+  // common
+  'common.processing': 'Processing...',
+  'common.page': 'Page {page} of {pages}',
+  'common.listSeparator': '; ',
+  'common.showMore': 'Show more ({count} left)',
+  'common.delete': 'Delete',
+  'common.loading': 'Loading…',
+  'common.done': 'Done',
+  'common.cancel': 'Cancel',
+  'common.resume': 'Resume',
+  'common.pause': 'Pause',
+
+  // JsonViewer
+  'viewer.items': '{count} item|{count} items',
+  'viewer.fields': '{count} field|{count} fields',
+  'viewer.collapseAll': 'Collapse all',
+  'viewer.records': '{count} record|{count} records',
+  'viewer.object': 'Object',
+
+  // MathPreviewPanel
+  'preview.original': 'Original',
+  'preview.normalized': 'Normalized',
+  'preview.onlyIssues': 'Only render failures ({count})',
+  'preview.empty': 'Nothing to show',
+
+  // JsonRepairPanel
+  'repairPanel.title': 'Repair JSON syntax',
+  'repairPanel.summary': 'Found {count} problem that can be fixed automatically; {chosen} selected. The repaired file then goes through the normal pipeline.|Found {count} problems that can be fixed automatically; {chosen} selected. The repaired file then goes through the normal pipeline.',
+  'repairPanel.download': 'Download repaired file',
+  'repairPanel.apply': 'Apply {count} fix and continue|Apply {count} fixes and continue',
+  'repairPanel.remaining': 'An error remains after all fixes (line {line}, column {column}): {message}. This one needs a manual edit.',
+  'repairPanel.deselectKind': 'Deselect fixes of this kind',
+  'repairPanel.selectKind': 'Select all fixes of this kind',
+
+  // FieldSelectorEditor
+  'fieldEditor.rule.wrap': 'Wrap symbols',
+  'fieldEditor.rule.merge': 'Merge formulas',
+  'fieldEditor.rule.escape': 'Fix escapes',
+  'fieldEditor.title': 'Fields',
+  'fieldEditor.hintJsonPath': 'Supports JSONPath (e.g.',
+  'fieldEditor.hintWildcard': ') or wildcards (e.g.',
+  'fieldEditor.hintEnd': ').',
+  'fieldEditor.invalid': 'Invalid pattern',
+  'fieldEditor.matched': '{count} field matched|{count} fields matched',
+  'fieldEditor.add': 'Add field',
+
+  // AuditLogPanel
+  'auditPanel.title': 'Processing log',
+  'auditPanel.replayHint': '. The exported JSON log can be re-applied to the same file without calling the model again.',
+  'auditPanel.profile': 'rule profile {name}',
+  'auditPanel.batch': '#{n} ({count} item)|#{n} ({count} items)',
+  'auditPanel.downloadHtml': 'Download HTML',
+  'auditPanel.downloadJson': 'Download JSON',
+  'auditPanel.inputHash': 'Input file SHA-256: ',
+
+  // CachePanel
+  'cachePanel.confirmClear': 'Clear all cached results?',
+  'cachePanel.title': 'Result cache',
+  'cachePanel.enable': 'Enable the result cache',
+  'cachePanel.hint': 'Model output is cached by item content, model and rule profile. Items with the same content, including duplicates within one file, reuse the result without calling the API; changing the profile or the model sends them again.',
+  'cachePanel.unavailable': 'Cache unavailable: {message}',
+  'cachePanel.summary': '{count} entry, about {size}|{count} entries, about {size}',
+  'cachePanel.export': 'Export',
+  'cachePanel.clear': 'Clear',
+  'cachePanel.empty': 'The cache is empty.',
+  'cachePanel.truncated': 'Showing the latest {count} entries only; export to see everything.',
+
+  // LintReportPanel
+  'lintPanel.title': 'Structure check',
+  'lintPanel.items': '{count} item: |{count} items: ',
+  'lintPanel.errors': '{count} error|{count} errors',
+  'lintPanel.warnings': ', {count} warning|, {count} warnings',
+  'lintPanel.fix': 'Fix {count} issue|Fix {count} issues',
+  'lintPanel.export': 'Export report',
+  'lintPanel.levels': 'Allowed difficulty values',
+  'lintPanel.levelsPlaceholder': 'Leave empty to skip the check',
+  'lintPanel.clean': 'No structural problems found.',
+  'lintPanel.error': 'Error',
+  'lintPanel.warning': 'Warning',
+  'lintPanel.fixable': 'Fix: {fix}',
+
+  // SettingsPanel
+  'settings.requestsPerMinute': 'Requests per minute',
+  'settings.tokensPerMinute': 'Tokens per minute',
+  'settings.maxConcurrency': 'Max concurrent requests',
+  'settings.title': 'Model settings',
+  'settings.provider': 'Provider',
+  'settings.model': 'Model ID',
+  'settings.apiKey': 'API Key',
+  'settings.proxyUrl': 'Proxy URL',
+  'settings.baseUrl': 'Base URL',
+  'settings.proxyHintStart': 'The API key is kept on the proxy server (',
+  'settings.proxyHintEnd': '); the browser stores no keys. The proxy limits requests per minute, daily token usage and request size.',
+  'settings.keyHint': 'Kept only for this browser session (sessionStorage) and cleared when the tab closes; requests go straight from the browser to the provider.',
+  'settings.mockHint': 'Offline mock mode makes no network requests; results come from the local rules. Useful for debugging and demos.',
+  'settings.rateLimits': 'Rate limits',
+  'settings.rateLimitsHint': 'Leave empty for the defaults. On a 429 the app lowers concurrency and waits as the server asks.',
+
+  // GraphExplorer
+  'graph.filter.all': 'All',
+  'graph.filter.cyclic': 'Cycles',
+  'graph.filter.orphans': 'Orphans',
+  'graph.filter.dangling': 'Dangling references',
+  'graph.search': 'Search by name or id',
+  'graph.allDifficulties': 'All difficulties',
+  'graph.shown': 'Showing {shown} of {total} nodes',
+  'graph.truncated': ' (first {count} matches only; narrow the filter)',
+  'graph.empty': 'No knowledge items found',
+  'graph.doubleClickHint': 'Double-click a node to expand its neighbours',
+  'graph.difficulty': 'Difficulty {difficulty}',
+  'graph.inCycle': 'In a cycle',
+  'graph.orphan': 'Orphan',
+  'graph.hasDangling': 'Has dangling references',
+  'graph.original': 'Original',
+  'graph.normalized': 'Normalized',
+  'graph.relations': 'Relations ({outgoing} out / {incoming} in)',
+  'graph.collapse': 'Hide neighbours',
+  'graph.expand': 'Show neighbours',
+  'graph.missing': '{id} (missing)',
+
+  // ProfileEditor
+  'profileEditor.schemaNotObject': 'The top-level type must be "object"',
+  'profileEditor.copyName': '{name} (copy)',
+  'profileEditor.importFailed': 'Import failed: {message}',
+  'profileEditor.title': 'Rule profile',
+  'profileEditor.versionHint': 'Texts sent to the model per content language; the default texts are used when there is no matching version',
+  'profileEditor.version.default': 'Default texts',
+  'profileEditor.version.translation': '{language} version',
+  'profileEditor.version.missing': '{language} version (not created)',
+  'profileEditor.duplicate': 'Duplicate',
+  'profileEditor.import': 'Import',
+  'profileEditor.restoreHint': 'Reset the built-in profiles to their defaults',
+  'profileEditor.restore': 'Restore built-ins',
+  'profileEditor.translationHint': 'For {language} content, these texts are sent to the model instead of the default ones.',
+  'profileEditor.removeTranslation': 'Remove this version',
+  'profileEditor.noTranslation': 'There is no {language} version yet; {language} content uses the default texts.',
+  'profileEditor.addTranslation': 'Create from the default texts',
+  'profileEditor.name': 'Name',
+  'profileEditor.instruction': 'Role and task',
+  'profileEditor.rules': 'Rules (numbered in order and sent to the model)',
+  'profileEditor.addRule': 'Add rule',
+  'profileEditor.prompt': 'Prompt before the data',
+  'profileEditor.examples': 'Examples (before → after)',
+  'profileEditor.exampleInput': 'Before',
+  'profileEditor.exampleOutput': 'After',
+  'profileEditor.addExample': 'Add example',
+  'profileEditor.schema': 'Extra schema for returned items (the selected fields and _index are added automatically)',
+  'profileEditor.substitutions': 'Notation substitutions (notation the rules replace; a result using the command on the right does not count as losing it)',
+  'profileEditor.substitutionFrom': 'Notation or word, e.g. P',
+  'profileEditor.substitutionTo': 'Replacing command, e.g. \\Pr',
+  'profileEditor.addSubstitution': 'Add substitution',
+
+  // App
+  'app.view.split': 'Side by side',
+  'app.view.review': 'Review',
+  'app.view.preview': 'Formula preview',
+  'app.view.graph': 'Graph',
+  'app.eta.seconds': '{count} s',
+  'app.eta.minutes': '{count} min',
+  'app.eta.hours': '{hours} h {minutes} min',
+  'app.unsupportedFile': 'Unsupported file type. Upload a {extensions} file.',
+  'app.noFilesFound': 'No {extensions} files found',
+  'app.readFailed': 'Failed to read the files: {message}',
+  'app.zipSkipped': 'These files have no result and were left out of the ZIP:\n{files}',
+  'app.parseFailed': 'Failed to parse the {format} file. Check that its syntax is valid.\nDetails: {message}',
+  'app.repairFailed': 'The file still does not parse after the fixes; check the remaining problems.\nDetails: {message}',
+  'app.skipped': 'Done, but {count} item was skipped (left unchanged) because of network errors, API limits or failed validation.|Done, but {count} items were skipped (left unchanged) because of network errors, API limits or failed validation.',
+  'app.unknownError': 'Unknown error',
+  'app.fatal': 'Stopped by a fatal error: {message}',
+  'app.exportFailed': 'Export failed: {message}',
+  'app.auditOtherFile': 'The log was recorded for a different input file',
+  'app.auditMismatch': 'These fields differ from the values in the log:\n{paths}',
+  'app.auditFailed': 'Could not apply the processing log: {message}',
+  'app.title': 'Optimization JSON Knowledge Base Normalizer',
+  'app.poweredBy': 'Powered by {provider} ·',
+  'app.interfaceLanguage': 'Interface language',
+  'app.error': 'Error',
+  'app.cancelled.title': 'Processing cancelled',
+  'app.cancelled.body': '{done} of {total} items were done before cancelling; the rest are unchanged. Download the partial result, or continue with the remaining items later.',
+  'app.cancelled.continue': 'Continue with the remaining items',
+  'app.partial.title': 'Partly done',
+  'app.partial.processed': 'Processed {count} item. |Processed {count} items. ',
+  'app.partial.succeeded': '{count} normalized. ',
+  'app.partial.cached': '{count} reused from the cache. ',
+  'app.partial.failed': '{count} left unchanged because of API limits or failed validation. Progress is saved locally, so you can retry just the failed items.',
+  'app.partial.more': '… and {count} more',
+  'app.partial.retry': 'Retry failed items only',
+  'app.render.title': 'Formulas failed to render',
+  'app.render.body': '{count} field does not render correctly (for example an unclosed $, an unknown command or unbalanced braces).|{count} fields do not render correctly (for example an unclosed $, an unknown command or unbalanced braces).',
+  'app.render.show': 'Show in the formula preview',
+  'app.checkpoint.title': 'Earlier progress found',
+  'app.checkpoint.body': 'This file was processed on {time}: {done} items done, {failed} failed. Resuming processes only the remaining items.',
+  'app.checkpoint.resume': 'Resume',
+  'app.checkpoint.discard': 'Discard',
+  'app.profile': 'Rule profile: {name}',
+  'app.upload.title': 'Upload a knowledge base',
+  'app.upload.hint': 'Choose a JSON, JSON Lines, YAML or CSV file with knowledge points on optimization algorithms. Select several files or a ZIP archive to process them together as a workspace.',
+  'app.upload.parsing': 'Parsing {file}… {progress}%',
+  'app.upload.file': 'file',
+  'app.upload.choose': 'Choose files',
+  'app.tasks.title': 'What gets done',
+  'app.tasks.math': 'Math wrapping: variables such as x, A, b are wrapped in LaTeX $ delimiters.',
+  'app.tasks.merge': 'Formula merging: adjacent math blocks are joined (e.g. $min$ $f(x)$ → $min f(x)$).',
+  'app.tasks.escape': 'Escaping: backslashes are doubled to keep the JSON valid (e.g. \\\\min).',
+  'app.tasks.local': 'Local rules: unambiguous items are handled locally; only ambiguous ones go to the AI.',
+  'app.tasks.robust': 'Fault tolerance: finished data is returned even when some items fail.',
+  'app.changeFile': 'Change file',
+  'app.applyAuditHint': 'Re-apply an exported processing log to this file without calling the model',
+  'app.applyAudit': 'Apply processing log',
+  'app.progress': 'Progress',
+  'app.remaining': '{eta} left',
+  'app.mode': 'Processing mode',
+  'app.mode.hybrid': 'Local rules + AI fallback',
+  'app.mode.local': 'Local rules only (no AI)',
+  'app.mode.llm': 'Everything to the AI',
+  'app.contentLanguage': 'Content language: picks the model prompt and the local rules',
+  'app.contentLanguage.auto': 'Content: auto ({language})',
+  'app.contentLanguage.fixed': 'Content: {language}',
+  'app.start': 'Start AI formatting',
+  'app.download': 'Download result ({accepted}/{total} accepted)',
+  'app.downloadPartial': 'Download partial result ({accepted}/{total} accepted)',
+  'app.original': 'Original data',
+  'app.result': 'Formatted result',
+  'app.resultWithStats': 'Formatted result (succeeded: {success}, local: {local}, cached: {cached}, skipped: {failed})',
+  'app.paused': 'Paused',
+  'app.processing': 'Normalizing...',
+  'app.pausedHint': 'No new requests are sent once the running ones finish. Click “Resume” to carry on',
+  'app.processingHint': 'Processing in parallel within the rate budget',
+  'app.processedItems': 'Items processed',
+  'app.itemsPerMinute': 'items/min',
+  'app.eta': 'Time left',
+  'app.inFlight': 'Concurrent requests',
+  'app.firstBatch': 'Sending the first requests...',
+  'app.rateLimited': 'Rate limited; continuing in {seconds} s',
+  'app.emptyResult': 'The result will appear here',
+  'app.emptyResultHint': 'Click “Start AI formatting” above to begin',
+  'app.poweredBySuffix': '(fault-tolerant mode)',
+  'app.view.edit': 'Edit items',
+  'app.undo': 'Undo {action} (Ctrl+Z)',
+  'app.redo': 'Redo {action} (Ctrl+Shift+Z)',
+  'app.nothingToUndo': 'Nothing to undo',
+  'app.nothingToRedo': 'Nothing to redo',
+  'app.view.search': 'Search',
+
+  // ItemEditor
+  'itemEditor.hint': 'Changes are saved and accepted when a field loses focus, and can be undone.',
+  'itemEditor.rerun': 'Re-run AI on this item',
+  'itemEditor.rerunning': 'Processing…',
+  'itemEditor.rerunFailed': 'Re-run failed: {message}',
+  'itemEditor.edited': 'edited',
+  'itemEditor.changed': 'changed by AI',
+  'itemEditor.notSelected': 'not sent to the AI',
+  'itemEditor.empty': 'No items to edit',
+
+  // editHistory
+  'editHistory.run': 'AI run',
+  'editHistory.review': 'review',
+  'editHistory.edit': 'edit of {path}',
+  'editHistory.rerun': 're-run of {path}',
+  'editHistory.replay': 'audit log replay',
+  'editHistory.replace': 'replacement in {count} field|replacement in {count} fields',
+
+  // search
+  'search.mode.text': 'Text',
+  'search.mode.regex': 'Regex',
+  'search.mode.command': 'LaTeX command',
+  'search.status.all': 'Any status',
+  'search.status.changed': 'Changed',
+  'search.status.failed': 'Failed',
+  'search.status.unchanged': 'Unchanged',
+  'search.invalidRegex': 'Invalid regular expression: {message}',
+  'search.invalidCommand': '“{command}” is not a LaTeX command name',
+
+  // SearchPanel
+  'searchPanel.placeholder': 'Search all fields…',
+  'searchPanel.commandPlaceholder': 'Command name, e.g. \\R',
+  'searchPanel.anyDifficulty': 'Any difficulty',
+  'searchPanel.onlyInvalid': 'Only validation errors',
+  'searchPanel.results': '{count} item|{count} items',
+  'searchPanel.selected': '{selected}/{total} selected',
+  'searchPanel.selectAll': 'Select all',
+  'searchPanel.selectNone': 'Select none',
+  'searchPanel.process': 'Process {count} selected item|Process {count} selected items',
+  'searchPanel.replaceWith': 'Replace with…',
+  'searchPanel.replaceHint': 'In regex mode, $1 and $<name> insert capture groups; write a literal $ as $$.',
+  'searchPanel.preview': 'Preview replacement',
+  'searchPanel.previewTitle': '{count} field will change|{count} fields will change',
+  'searchPanel.noReplacements': 'Nothing to replace in the selected items',
+  'searchPanel.apply': 'Replace in {count} field|Replace in {count} fields',
+  'searchPanel.applyToInput': 'Before processing, replacements rewrite the input itself.',
+  'searchPanel.empty': 'No matching items',
+
+  // proxyProvider
+  'proxy.bodyTooLarge': 'The request body exceeds the limit of {maxBytes} bytes; reduce the batch size',
+  'proxy.invalidJson': 'The request body is not valid JSON',
+  'proxy.missingText': 'systemInstruction or prompt is missing',
+  'proxy.invalidPayload': 'payload must be an array and schema an object',
+  'proxy.modelNotAllowed': 'The model {model} is not allowed',
+  'proxy.tooManyRequests': 'Too many requests',
+  'proxy.clientTokensExhausted': 'Your token quota for today is used up',
+  'proxy.serviceTokensExhausted': 'The service has used up its token quota for today',
+};
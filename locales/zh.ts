@@ -0,0 +1,509 @@
+// Interface messages in Chinese. These keys are the catalog every other locale translates.
+export const zh = {
+  // latexNormalizer
+  'normalizer.unclosedDollar': '未闭合的 $ 分隔符',
+  'normalizer.ambiguousWord': '无法判断是否为公式: "{word}"',
+  'normalizer.controlCharacter': '包含无法还原的控制字符',
+  'normalizer.ambiguousLineBreak': '换行后紧跟的字母可能是丢失反斜杠的命令',
+
+  // resultValidator
+  'validator.notString': '字段缺失或不是字符串',
+  'validator.unbalancedDollar': '$ 分隔符不成对',
+  'validator.proseRewritten': '正文文字被改写',
+  'validator.cjkChanged': '中文正文被删改',
+  'validator.wordMissing': '英文单词 "{word}" 丢失',
+  'validator.wordInMath': '英文单词 "{word}" 被移入公式',
+  'validator.mathTokenMissing': '公式内容 "{token}" 丢失',
+  'validator.indexMissing': '模型未返回该条目（_index 缺失）',
+  'validator.indexDuplicated': '模型返回了重复的 _index',
+
+  // latexValidator
+  'latex.unbalancedBraceMessage': '花括号不匹配',
+  'latex.unclosedDollarMessage': '$ 分隔符未闭合',
+  'latex.kind.unbalancedDollar': '$ 未闭合',
+  'latex.kind.unbalancedBrace': '括号不匹配',
+  'latex.kind.unknownCommand': '未知命令',
+  'latex.kind.parseError': '语法错误',
+
+  // jsonRepair
+  'repair.kind.invalidEscape': '无效转义',
+  'repair.kind.latexEscape': 'LaTeX 转义',
+  'repair.kind.trailingComma': '多余逗号',
+  'repair.kind.comment': '注释',
+  'repair.kind.smartQuote': '中文引号',
+  'repair.kind.controlCharacter': '字符串内换行',
+  'repair.smartQuote': '用中文引号 {quote} 作为字符串定界符',
+  'repair.comment': 'JSON 不支持注释',
+  'repair.trailingComma': '{bracket} 前有多余的逗号',
+  'repair.invalidEscapeCommand': '无效转义 {escape}，LaTeX 命令应写作 {command}',
+  'repair.invalidEscape': '无效转义 {escape}',
+  'repair.unicodeEscape': '\\u 后应为 4 位十六进制数',
+  'repair.latexEscape': '{command} 会被解析为控制字符 {escape} 加 "{rest}"',
+  'repair.lineBreak': '字符串内有未转义的换行',
+  'repair.tab': '字符串内有未转义的制表符',
+  'repair.controlCharacter': '字符串内有未转义的控制字符',
+
+  // schemaLint
+  'lint.code.missingId': '缺少 id',
+  'lint.code.duplicateId': 'id 重复',
+  'lint.code.danglingRelation': '关联目标不存在',
+  'lint.code.duplicateRelation': '关联重复',
+  'lint.code.invalidDifficulty': '难度值无效',
+  'lint.code.emptyDescription': '描述为空',
+  'lint.code.wrongType': '类型错误',
+  'lint.missingId': '条目缺少 id',
+  'lint.idType': 'id 应为字符串或数字，实际为 {type}',
+  'lint.duplicateId': 'id {id} 已被 {path} 使用',
+  'lint.stringId': 'id {id} 是字符串，其余条目使用数字 id',
+  'lint.fix.toNumber': '转换为数字',
+  'lint.emptyDescription': '描述为空',
+  'lint.missingDescription': '缺少描述',
+  'lint.difficultyType': 'difficulty 应为字符串，实际为 {type}',
+  'lint.difficultyCase': '难度 {value} 与取值 {canonical} 仅大小写或空白不同',
+  'lint.fix.changeTo': '改为 {value}',
+  'lint.difficultyInvalid': '难度 {value} 不在允许的取值中（{levels}）',
+  'lint.relationsType': 'relations 应为数组，实际为 {type}',
+  'lint.fix.wrapInArray': '包装为数组',
+  'lint.relationTarget': '无法识别关联目标，应为 id 或包含 {keys} 字段的对象',
+  'lint.danglingRelation': '关联的 id {id} 不存在',
+  'lint.duplicateRelations': '包含 {count} 个重复的关联',
+  'lint.fix.removeDuplicates': '移除重复项',
+  'lint.stringType': '{key} 应为字符串，实际为 {type}',
+  'lint.fix.toString': '转换为字符串',
+  'lint.type.array': '数组',
+  'lint.type.string': '字符串',
+  'lint.type.number': '数字',
+  'lint.type.boolean': '布尔值',
+  'lint.type.object': '对象',
+
+  // auditLog
+  'audit.source.resumed': '断点恢复',
+  'audit.source.local': '本地规则',
+  'audit.source.cache': '缓存',
+  'audit.source.model': '模型',
+  'audit.invalidFile': '不是有效的审计日志文件',
+  'audit.invalidChanges': '审计日志中的修改记录格式无效',
+  'audit.stats': '共 {total} 条：成功 {success}（本地 {local}，恢复 {resumed}），缓存 {cached}，失败 {failed}',
+  'audit.rejected': '拒绝 {count} 条：{reasons}',
+  'audit.succeeded': '成功',
+  'audit.soloRetry': '单独重试 {path}',
+  'audit.attempt': '第 {n} 次',
+  'audit.html.time': '时间：{start} – {end}',
+  'audit.html.model': '模型：{provider} / {model}，模式：{mode}',
+  'audit.html.language': '内容语言：{language}',
+  'audit.html.profile': '规则配置：{name}（版本 {version}）',
+  'audit.column.batch': '批次',
+  'audit.column.items': '条目数',
+  'audit.column.request': '请求',
+  'audit.column.started': '开始',
+  'audit.column.duration': '耗时',
+  'audit.column.result': '结果',
+  'audit.noRequests': '本次运行没有调用模型。',
+  'audit.title': '处理记录：{file}',
+  'audit.inputHash': '输入文件 SHA-256：{hash}',
+  'audit.html.exportedAt': '导出时间：{time}',
+  'audit.changedFields': '修改的字段（{count}）',
+  'audit.column.path': '路径',
+  'audit.column.before': '修改前',
+  'audit.column.after': '修改后',
+  'audit.column.source': '来源',
+  'audit.column.decision': '审核',
+  'audit.runTitle': '第 {n} 次运行',
+  'audit.runOnly': '（仅 {count} 个条目）',
+  'audit.runCancelled': '（已取消）',
+
+  // review
+  'review.decision.pending': '待审核',
+  'review.decision.accepted': '已接受',
+  'review.decision.rejected': '已拒绝',
+  'review.filter.all': '全部',
+  'review.acceptDollarOnly': '接受仅 $ 包裹变化的修改',
+  'review.acceptAll': '全部接受',
+  'review.rejectAll': '全部拒绝',
+  'review.empty': '没有符合条件的修改',
+  'review.edited': '(已手动修改)',
+  'review.accept': '接受',
+  'review.reject': '拒绝',
+  'review.edit': '编辑',
+  'review.saveAndAccept': '保存并接受',
+
+  // latexNormalizer
+  'language.zh': '中文',
+  'language.en': '英文',
+
+  // llmProvider
+  'provider.gemini': 'Google Gemini',
+  'provider.openai': 'OpenAI 兼容接口',
+  'provider.proxy': '代理服务（密钥保存在服务端）',
+  'provider.mock': '离线模拟',
+
+  // geminiProvider
+  'provider.missingKey': 'API Key 未配置。请在模型设置中填写自己的 API Key，或改用代理服务。',
+
+  // fieldSelector
+  'fields.emptyPattern': '字段模式不能为空',
+  'fields.invalidPattern': '无效的字段模式: {pattern}',
+
+  // csv
+  'csv.unclosedQuote': 'CSV 中存在未闭合的引号',
+  'csv.empty': 'CSV 文件为空',
+  'csv.tooManyColumns': 'CSV 第 {row} 行有 {count} 列，表头只有 {columns} 列',
+
+  // formats
+  'formats.rowsOnly': '{format} 只能导出对象数组',
+  'formats.lineError': '第 {line} 行: {message}',
+  'formats.arrayOnly': 'JSON Lines 只能导出数组',
+
+  // jsonPath
+  'path.invalid': '无效的路径: {path}',
+
+  // workspace
+  'workspace.parseFailed': '解析失败: {message}',
+
+  // WorkspacePanel
+  'workspace.status.pending': '等待',
+  'workspace.status.processing': '处理中',
+  'workspace.status.done': '完成',
+  'workspace.status.cancelled': '已取消',
+  'workspace.status.error': '出错',
+  'workspace.title': '工作区 · {count} 个文件',
+  'workspace.close': '关闭工作区',
+  'workspace.totals': '已完成 {done}/{files} 个文件 · {items} 条：成功 {success}，缓存 {cached}，失败 {failed}',
+  'workspace.start': '处理 {count} 个文件',
+  'workspace.download': '下载 ZIP',
+  'workspace.queueStopped': '队列已停止: {message}',
+  'workspace.duplicates': '{count} 个 id 在多个文件中重复',
+  'workspace.moreDuplicates': '… 以及另外 {count} 个',
+  'workspace.column.file': '文件',
+  'workspace.column.format': '格式',
+  'workspace.column.status': '状态',
+  'workspace.column.progress': '进度',
+  'workspace.column.stats': '统计',
+  'workspace.fileStats': '{total} 条：成功 {success}（本地 {local}），缓存 {cached}，失败 {failed}',
+
+  // resultCache
+  'cache.invalidFile': '不是有效的缓存导出文件',
+
+  // documentExport
+  'document.difficulty': '难度',
+  'document.relatedWithLabel': '{name}（{label}）',
+  'document.untitled': '未命名条目 {id}',
+  'document.related': '关联',
+  'document.listSeparator': '、',
+  'document.markdown': 'Markdown 讲义',
+  'document.latex': 'LaTeX 讲义',
+
+  // ruleProfiles
+  'profiles.where': '第 {n} 个配置',
+  'profiles.whereTranslation': '{where}的 {language} 版本',
+  'profiles.notObject': '{where}不是对象',
+  'profiles.missingField': '{where}缺少字段 "{key}"',
+  'profiles.invalidRules': '{where}的 "rules" 必须是字符串数组',
+  'profiles.invalidExamples': '{where}的 "examples" 必须是 { input, output } 数组',
+  'profiles.invalidSchema': '{where}的 "responseSchema" 必须是 type 为 object 的 JSON Schema',
+  'profiles.invalidTranslations': '{where}的 "translations" 必须是以 zh 或 en 为键的对象',
+  'profiles.empty': '文件中没有配置',
+  'profiles.invalidSubstitutions': '{where}的 "substitutions" 必须把记号映射到 LaTeX 命令，如 { "P": "\\\\Pr" }',
+
+  // common
+  'common.processing': '处理中...',
+  'common.page': '第 {page} / {pages} 页',
+  'common.listSeparator': '；',
+  'common.showMore': '显示更多（剩余 {count} 条）',
+  'common.delete': '删除',
+  'common.loading': '加载中…',
+  'common.done': '完成',
+  'common.cancel': '取消',
+  'common.resume': '继续',
+  'common.pause': '暂停',
+
+  // JsonViewer
+  'viewer.items': '{count} 项',
+  'viewer.fields': '{count} 个字段',
+  'viewer.collapseAll': '全部折叠',
+  'viewer.records': '{count} 条数据',
+  'viewer.object': '对象',
+
+  // MathPreviewPanel
+  'preview.original': '原始渲染',
+  'preview.normalized': '标准化后渲染',
+  'preview.onlyIssues': '仅显示渲染失败 ({count})',
+  'preview.empty': '没有需要显示的条目',
+
+  // JsonRepairPanel
+  'repairPanel.title': '修复 JSON 语法',
+  'repairPanel.summary': '发现 {count} 处可自动修复的问题，已选 {chosen} 处。修复后文件会继续进入正常的处理流程。',
+  'repairPanel.download': '下载修复后的文件',
+  'repairPanel.apply': '应用 {count} 项修复并继续',
+  'repairPanel.remaining': '应用全部修复后仍有错误（第 {line} 行，第 {column} 列）：{message}。这一处需要手动修改。',
+  'repairPanel.deselectKind': '取消选择此类修复',
+  'repairPanel.selectKind': '选择此类全部修复',
+
+  // FieldSelectorEditor
+  'fieldEditor.rule.wrap': '符号补全',
+  'fieldEditor.rule.merge': '公式合并',
+  'fieldEditor.rule.escape': '转义修复',
+  'fieldEditor.title': '字段选择',
+  'fieldEditor.hintJsonPath': '支持 JSONPath（如',
+  'fieldEditor.hintWildcard': '）或通配符（如',
+  'fieldEditor.hintEnd': '）。',
+  'fieldEditor.invalid': '模式有误',
+  'fieldEditor.matched': '匹配 {count} 个字段',
+  'fieldEditor.add': '添加字段',
+
+  // AuditLogPanel
+  'auditPanel.title': '处理记录',
+  'auditPanel.replayHint': '。导出的 JSON 记录可以在同一文件上重新应用，无需再次调用模型。',
+  'auditPanel.profile': '规则配置 {name}',
+  'auditPanel.batch': '#{n}（{count} 条）',
+  'auditPanel.downloadHtml': '下载 HTML',
+  'auditPanel.downloadJson': '下载 JSON',
+  'auditPanel.inputHash': '输入文件 SHA-256：',
+
+  // CachePanel
+  'cachePanel.confirmClear': '确定清空全部缓存结果吗？',
+  'cachePanel.title': '结果缓存',
+  'cachePanel.enable': '启用结果缓存',
+  'cachePanel.hint': '按条目内容、模型与规则配置缓存模型输出。内容相同的条目（包括同一文件中的重复条目）直接复用结果，不再调用 API；修改规则配置或更换模型后会重新请求。',
+  'cachePanel.unavailable': '缓存不可用: {message}',
+  'cachePanel.summary': '共 {count} 条，约 {size}',
+  'cachePanel.export': '导出',
+  'cachePanel.clear': '清空',
+  'cachePanel.empty': '缓存为空。',
+  'cachePanel.truncated': '仅显示最近 {count} 条，完整内容请导出查看。',
+
+  // LintReportPanel
+  'lintPanel.title': '结构检查',
+  'lintPanel.items': '共 {count} 个条目：',
+  'lintPanel.errors': '{count} 个错误',
+  'lintPanel.warnings': '，{count} 个警告',
+  'lintPanel.fix': '自动修复 {count} 项',
+  'lintPanel.export': '导出报告',
+  'lintPanel.levels': '允许的难度值',
+  'lintPanel.levelsPlaceholder': '留空则不检查',
+  'lintPanel.clean': '未发现结构问题。',
+  'lintPanel.error': '错误',
+  'lintPanel.warning': '警告',
+  'lintPanel.fixable': '可修复：{fix}',
+
+  // SettingsPanel
+  'settings.requestsPerMinute': '每分钟请求数',
+  'settings.tokensPerMinute': '每分钟 Token 数',
+  'settings.maxConcurrency': '最大并发请求',
+  'settings.title': '模型设置',
+  'settings.provider': '服务提供方',
+  'settings.model': '模型 ID',
+  'settings.apiKey': 'API Key',
+  'settings.proxyUrl': '代理地址',
+  'settings.baseUrl': '接口地址 (Base URL)',
+  'settings.proxyHintStart': 'API Key 保存在代理服务端（',
+  'settings.proxyHintEnd': '），浏览器中不保存任何密钥。代理会限制每分钟请求数、每日 Token 用量和单次请求大小。',
+  'settings.keyHint': '仅保存在当前浏览器会话（sessionStorage），关闭标签页后即清除；请求从浏览器直接发往服务商。',
+  'settings.mockHint': '离线模拟模式不会发起任何网络请求，返回结果由本地规则生成，适合调试与演示。',
+  'settings.rateLimits': '速率限制',
+  'settings.rateLimitsHint': '留空使用默认值；遇到 429 时会自动降低并发并按服务端提示等待。',
+
+  // GraphExplorer
+  'graph.filter.all': '全部',
+  'graph.filter.cyclic': '循环',
+  'graph.filter.orphans': '孤立',
+  'graph.filter.dangling': '悬空引用',
+  'graph.search': '搜索名称或 id',
+  'graph.allDifficulties': '全部难度',
+  'graph.shown': '显示 {shown} / {total} 个节点',
+  'graph.truncated': '（仅前 {count} 个匹配项，请缩小筛选范围）',
+  'graph.empty': '未找到知识条目',
+  'graph.doubleClickHint': '双击节点展开邻居',
+  'graph.difficulty': '难度 {difficulty}',
+  'graph.inCycle': '位于循环中',
+  'graph.orphan': '孤立节点',
+  'graph.hasDangling': '含悬空引用',
+  'graph.original': '原文',
+  'graph.normalized': '标准化后',
+  'graph.relations': '关联（出 {outgoing} / 入 {incoming}）',
+  'graph.collapse': '收起邻居',
+  'graph.expand': '展开邻居',
+  'graph.missing': '{id}（不存在）',
+
+  // ProfileEditor
+  'profileEditor.schemaNotObject': '顶层 type 必须是 "object"',
+  'profileEditor.copyName': '{name}（副本）',
+  'profileEditor.importFailed': '导入失败: {message}',
+  'profileEditor.title': '规则配置',
+  'profileEditor.versionHint': '按内容语言选择发送给模型的文本；没有对应版本时使用默认文本',
+  'profileEditor.version.default': '默认文本',
+  'profileEditor.version.translation': '{language}版本',
+  'profileEditor.version.missing': '{language}版本（未创建）',
+  'profileEditor.duplicate': '复制',
+  'profileEditor.import': '导入',
+  'profileEditor.restoreHint': '将内置配置恢复为默认内容',
+  'profileEditor.restore': '恢复内置',
+  'profileEditor.translationHint': '处理{language}内容时，以下文本代替默认文本发送给模型。',
+  'profileEditor.removeTranslation': '删除此版本',
+  'profileEditor.noTranslation': '尚未创建{language}版本，处理{language}内容时使用默认文本。',
+  'profileEditor.addTranslation': '从默认文本创建',
+  'profileEditor.name': '名称',
+  'profileEditor.instruction': '角色与任务说明',
+  'profileEditor.rules': '规则（按顺序编号后发送给模型）',
+  'profileEditor.addRule': '添加规则',
+  'profileEditor.prompt': '数据前的提示语',
+  'profileEditor.examples': '示例（处理前 → 处理后）',
+  'profileEditor.exampleInput': '处理前',
+  'profileEditor.exampleOutput': '处理后',
+  'profileEditor.addExample': '添加示例',
+  'profileEditor.schema': '返回条目的附加 Schema（选中的字段与 _index 会自动加入）',
+  'profileEditor.substitutions': '记号替换（规则要求改写的记号；结果中改用右侧命令时不算丢失）',
+  'profileEditor.substitutionFrom': '原记号或单词，如 P',
+  'profileEditor.substitutionTo': '替换为命令，如 \\Pr',
+  'profileEditor.addSubstitution': '添加替换',
+
+  // App
+  'app.view.split': '对比视图',
+  'app.view.review': '逐条审核',
+  'app.view.preview': '公式预览',
+  'app.view.graph': '关系图',
+  'app.eta.seconds': '{count} 秒',
+  'app.eta.minutes': '{count} 分钟',
+  'app.eta.hours': '{hours} 小时 {minutes} 分钟',
+  'app.unsupportedFile': '不支持的文件类型，请上传 {extensions} 文件。',
+  'app.noFilesFound': '没有找到 {extensions} 文件',
+  'app.readFailed': '读取文件失败: {message}',
+  'app.zipSkipped': '以下文件没有处理结果，未包含在 ZIP 中：\n{files}',
+  'app.parseFailed': '解析 {format} 文件失败。请检查文件语法格式是否正确。\n错误详情: {message}',
+  'app.repairFailed': '修复后仍无法解析，请检查剩余的问题。\n错误详情: {message}',
+  'app.skipped': '处理完成，但有 {count} 个条目因网络、API 限制或结果校验未通过而跳过处理（保持原样）。',
+  'app.unknownError': '未知错误',
+  'app.fatal': '严重错误导致中断: {message}',
+  'app.exportFailed': '导出失败: {message}',
+  'app.auditOtherFile': '该记录对应的输入文件与当前文件内容不同',
+  'app.auditMismatch': '以下字段与记录中的原值不一致：\n{paths}',
+  'app.auditFailed': '无法应用处理记录: {message}',
+  'app.title': '最优化 JSON 知识库标准化工具',
+  'app.poweredBy': '由 {provider} ·',
+  'app.interfaceLanguage': '界面语言',
+  'app.error': '错误',
+  'app.cancelled.title': '已取消处理',
+  'app.cancelled.body': '取消前已完成 {done} / {total} 条，其余条目保持原样。可以下载部分结果，或稍后继续处理剩余条目。',
+  'app.cancelled.continue': '继续处理剩余条目',
+  'app.partial.title': '部分完成',
+  'app.partial.processed': '共处理 {count} 条数据。',
+  'app.partial.succeeded': '成功标准化 {count} 条。',
+  'app.partial.cached': '复用缓存 {count} 条。',
+  'app.partial.failed': '{count} 条因 API 限制或结果校验未通过而保持原样（未修改）。进度已保存在本地，可以只重试失败的条目。',
+  'app.partial.more': '… 以及另外 {count} 条',
+  'app.partial.retry': '仅重试失败条目',
+  'app.render.title': '公式渲染失败',
+  'app.render.body': '有 {count} 个字段的结果无法正确渲染（如 $ 未闭合、未知命令或括号不匹配）。',
+  'app.render.show': '在公式预览中查看',
+  'app.checkpoint.title': '发现上次的处理进度',
+  'app.checkpoint.body': '该文件在 {time} 处理过：已完成 {done} 条，失败 {failed} 条。恢复后只处理剩余的条目。',
+  'app.checkpoint.resume': '恢复上次进度',
+  'app.checkpoint.discard': '忽略并清除',
+  'app.profile': '规则配置：{name}',
+  'app.upload.title': '上传知识库文件',
+  'app.upload.hint': '请选择包含最优化算法知识点的 JSON、JSON Lines、YAML 或 CSV 文件；可一次选择多个文件或上传 ZIP 压缩包作为工作区批量处理。',
+  'app.upload.parsing': '正在解析 {file}… {progress}%',
+  'app.upload.file': '文件',
+  'app.upload.choose': '选择文件',
+  'app.tasks.title': '自动化处理任务',
+  'app.tasks.math': '数学符号补全：将变量（如 x, A, b）包裹在 LaTeX $ 符号中。',
+  'app.tasks.merge': '公式合并：合并相邻的数学块（如 $min$ $f(x)$ → $min f(x)$）。',
+  'app.tasks.escape': '转义处理：应用双反斜杠以符合 JSON 格式（如 \\\\min）。',
+  'app.tasks.local': '本地规则：能确定处理的条目直接在本地完成，只有存在歧义的条目才调用 AI。',
+  'app.tasks.robust': '高容错模式：即使部分处理失败，也能返回已完成的数据。',
+  'app.changeFile': '更换文件',
+  'app.applyAuditHint': '在当前文件上重新应用导出的处理记录，不调用模型',
+  'app.applyAudit': '应用处理记录',
+  'app.progress': '处理进度',
+  'app.remaining': '剩余 {eta}',
+  'app.mode': '处理模式',
+  'app.mode.hybrid': '本地规则 + AI 兜底',
+  'app.mode.local': '仅本地规则（不调用 AI）',
+  'app.mode.llm': '全部交给 AI',
+  'app.contentLanguage': '内容语言：决定发送给模型的提示词与本地规则',
+  'app.contentLanguage.auto': '内容：自动（{language}）',
+  'app.contentLanguage.fixed': '内容：{language}',
+  'app.start': '开始 AI 格式化',
+  'app.download': '下载结果 (已接受 {accepted}/{total})',
+  'app.downloadPartial': '下载部分结果 (已接受 {accepted}/{total})',
+  'app.original': '原始数据',
+  'app.result': '格式化结果',
+  'app.resultWithStats': '格式化结果 (成功: {success}, 其中本地: {local}, 缓存: {cached}, 跳过: {failed})',
+  'app.paused': '已暂停',
+  'app.processing': '正在深度标准化...',
+  'app.pausedHint': '进行中的请求完成后不再发送新请求，点击“继续”恢复',
+  'app.processingHint': '正在按速率预算并行处理数据',
+  'app.processedItems': '已处理条目',
+  'app.itemsPerMinute': '条/分钟',
+  'app.eta': '预计剩余',
+  'app.inFlight': '并发请求',
+  'app.firstBatch': '正在发送第一批请求...',
+  'app.rateLimited': '触发限流，{seconds} 秒后自动继续',
+  'app.emptyResult': '处理后的结果将显示在这里',
+  'app.emptyResultHint': '点击上方“开始 AI 格式化”按钮开始',
+  'app.poweredBySuffix': '驱动 (高容错模式)',
+  'app.view.edit': '逐条编辑',
+  'app.undo': '撤销：{action}（Ctrl+Z）',
+  'app.redo': '重做：{action}（Ctrl+Shift+Z）',
+  'app.nothingToUndo': '没有可撤销的操作',
+  'app.nothingToRedo': '没有可重做的操作',
+  'app.view.search': '搜索',
+
+  // ItemEditor
+  'itemEditor.hint': '修改在输入框失去焦点时保存并自动接受，可撤销。',
+  'itemEditor.rerun': '用 AI 重新处理此条目',
+  'itemEditor.rerunning': '处理中…',
+  'itemEditor.rerunFailed': '重新处理失败：{message}',
+  'itemEditor.edited': '已手动修改',
+  'itemEditor.changed': '已由 AI 修改',
+  'itemEditor.notSelected': '不发送给 AI',
+  'itemEditor.empty': '没有可编辑的条目',
+
+  // editHistory
+  'editHistory.run': 'AI 处理',
+  'editHistory.review': '审阅',
+  'editHistory.edit': '编辑 {path}',
+  'editHistory.rerun': '重新处理 {path}',
+  'editHistory.replay': '应用审计日志',
+  'editHistory.replace': '替换 {count} 个字段',
+
+  // search
+  'search.mode.text': '文本',
+  'search.mode.regex': '正则表达式',
+  'search.mode.command': 'LaTeX 命令',
+  'search.status.all': '全部状态',
+  'search.status.changed': '已修改',
+  'search.status.failed': '处理失败',
+  'search.status.unchanged': '未修改',
+  'search.invalidRegex': '正则表达式无效：{message}',
+  'search.invalidCommand': '“{command}”不是 LaTeX 命令名',
+
+  // SearchPanel
+  'searchPanel.placeholder': '在所有字段中搜索…',
+  'searchPanel.commandPlaceholder': '命令名，例如 \\R',
+  'searchPanel.anyDifficulty': '任意难度',
+  'searchPanel.onlyInvalid': '仅含校验错误',
+  'searchPanel.results': '{count} 个条目',
+  'searchPanel.selected': '已选 {selected}/{total}',
+  'searchPanel.selectAll': '全选',
+  'searchPanel.selectNone': '全不选',
+  'searchPanel.process': '处理选中的 {count} 个条目',
+  'searchPanel.replaceWith': '替换为…',
+  'searchPanel.replaceHint': '正则模式下可用 $1、$<name> 引用捕获组，字面 $ 写作 $$。',
+  'searchPanel.preview': '预览替换',
+  'searchPanel.previewTitle': '将修改 {count} 个字段',
+  'searchPanel.noReplacements': '选中的条目中没有可替换的内容',
+  'searchPanel.apply': '替换 {count} 个字段',
+  'searchPanel.applyToInput': '处理前的替换直接修改输入文件。',
+  'searchPanel.empty': '没有匹配的条目',
+
+  // proxyProvider
+  'proxy.bodyTooLarge': '请求体超过 {maxBytes} 字节上限，请减小批次大小',
+  'proxy.invalidJson': '请求体不是有效的 JSON',
+  'proxy.missingText': '缺少 systemInstruction 或 prompt',
+  'proxy.invalidPayload': 'payload 必须是数组，schema 必须是对象',
+  'proxy.modelNotAllowed': '不允许使用模型 {model}',
+  'proxy.tooManyRequests': '请求过于频繁',
+  'proxy.clientTokensExhausted': '今日 Token 配额已用完',
+  'proxy.serviceTokensExhausted': '服务今日总配额已用完',
+};
@@ -0,0 +1,250 @@
+// Proxy between the web app and the model API. It holds the API key, so the
+// browser bundle never contains one, and enforces quotas and size limits.
+//
+//   API_KEY=... npm run proxy
+//
+// The Vite dev server forwards /api to it (see vite.config.ts). In production
+// serve it on the same origin under /api, or set its URL in the app settings
+// and list the app's origin in ALLOWED_ORIGINS.
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { DEFAULT_MODELS, LlmError, LlmErrorKind, LlmProvider } from '../services/llmProvider';
+import { createProvider } from '../services/providerFactory';
+import { PROXY_ERROR_MESSAGES, ProxyErrorBody, ProxyErrorCode, ProxyRequestBody, ProxySuccessBody } from '../services/proxyProvider';
+import { estimateRequestTokens, estimateTokens } from '../services/scheduler';
+import { MessageParams, t } from '../services/i18n';
+import { DEFAULT_QUOTA_LIMITS, QuotaLimits, QuotaTracker } from './quota';
+import { ProviderKind } from '../types';
+
+export interface ProxyConfig {
+  /** Models clients may ask for; the first is the default. */
+  models: string[];
+  maxBodyBytes: number;
+  quota: QuotaLimits;
+  /** Origins allowed to call the proxy cross-origin; same-origin needs none. */
+  allowedOrigins: string[];
+  /** Use the first X-Forwarded-For address as the client (behind a reverse proxy). */
+  trustProxy: boolean;
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 256 * 1024;
+
+const STATUS_BY_KIND: Record<LlmErrorKind, number> = {
+  rate_limit: 429,
+  quota: 429,
+  // Upstream auth failures mean the server's key is wrong, not the client's.
+  auth: 502,
+  malformed: 502,
+  network: 502,
+  aborted: 499,
+  unknown: 500,
+};
+
+class RequestError extends Error {
+  constructor(readonly status: number, readonly code: ProxyErrorCode, readonly params?: MessageParams) {
+    super(code);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: ProxySuccessBody | ProxyErrorBody, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(
+  res: http.ServerResponse,
+  status: number,
+  error: ProxyErrorBody['error'],
+  headers: http.OutgoingHttpHeaders = {}
+) {
+  if (error.retryAfterMs !== undefined) headers = { ...headers, 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) };
+  sendJson(res, status, { error }, headers);
+}
+
+const REFUSAL_KINDS: Partial<Record<ProxyErrorCode, LlmErrorKind>> = {
+  tooManyRequests: 'rate_limit',
+  // Budgets that reset at midnight end the client's run instead of stalling it.
+  clientTokensExhausted: 'quota',
+  serviceTokensExhausted: 'quota',
+};
+
+/** Turns a request down with a code the client translates; the message is for everyone else. */
+function refuse(res: http.ServerResponse, status: number, code: ProxyErrorCode, params?: MessageParams, retryAfterMs?: number) {
+  const kind = REFUSAL_KINDS[code] ?? 'unknown';
+  // Closing stops the client from sending the rest of an oversized body, which is only thrown away.
+  const headers: http.OutgoingHttpHeaders = status === 413 ? { Connection: 'close' } : {};
+  sendError(res, status, { kind, message: t(PROXY_ERROR_MESSAGES[code], params, 'en'), retryAfterMs, code, params }, headers);
+}
+
+/**
+ * Reads the body, failing fast once it exceeds the limit. The rest of an
+ * oversized body is discarded rather than the socket destroyed, so the client
+ * still receives the 413 reply.
+ */
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new RequestError(413, 'bodyTooLarge', { maxBytes });
+    if (Number(req.headers['content-length']) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function parseRequest(text: string, models: string[]): ProxyRequestBody {
+  let body: any;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new RequestError(400, 'invalidJson');
+  }
+  if (typeof body?.systemInstruction !== 'string' || typeof body.prompt !== 'string') {
+    throw new RequestError(400, 'missingText');
+  }
+  if (!Array.isArray(body.payload) || typeof body.schema !== 'object' || body.schema === null) {
+    throw new RequestError(400, 'invalidPayload');
+  }
+  const model = body.model ?? models[0];
+  if (!models.includes(model)) {
+    throw new RequestError(403, 'modelNotAllowed', { model });
+  }
+  return { model, systemInstruction: body.systemInstruction, prompt: body.prompt, payload: body.payload, schema: body.schema };
+}
+
+/**
+ * Tokens charged against the quota: the client chooses the system instruction
+ * and prompt as freely as the payload, so all of them count.
+ */
+export function requestTokens(body: ProxyRequestBody): number {
+  return estimateTokens(body.systemInstruction) + estimateTokens(body.prompt) + estimateRequestTokens(estimateTokens(body.payload));
+}
+
+function clientAddress(req: http.IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Creates the proxy server. `upstream` builds the provider holding the key
+ * for a model; it is called once per model.
+ */
+export function createProxyServer(config: ProxyConfig, upstream: (model: string) => LlmProvider): http.Server {
+  const quota = new QuotaTracker(config.quota);
+  const providers = new Map<string, LlmProvider>();
+  const providerFor = (model: string) => {
+    if (!providers.has(model)) providers.set(model, upstream(model));
+    return providers.get(model)!;
+  };
+  const pruneTimer = setInterval(() => quota.prune(), 60_000);
+  pruneTimer.unref();
+
+  const server = http.createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    if (origin && config.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Vary', 'Origin');
+    }
+    const path = (req.url ?? '').split('?')[0].replace(/^\/api/, '');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method === 'GET' && path === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: true, models: config.models }));
+      return;
+    }
+    if (req.method !== 'POST' || path !== '/generate') {
+      sendError(res, 404, { kind: 'unknown', message: 'Not found' });
+      return;
+    }
+
+    // Stop the upstream call when the client goes away, e.g. the run was cancelled.
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abort.abort();
+    });
+
+    try {
+      const body = parseRequest(await readBody(req, config.maxBodyBytes), config.models);
+      const decision = quota.take(clientAddress(req, config.trustProxy), requestTokens(body));
+      if (!decision.ok) {
+        refuse(res, 429, decision.code, undefined, decision.retryAfterMs);
+        return;
+      }
+      const provider = providerFor(body.model);
+      try {
+        const result = await provider.generateJson({ ...body, signal: abort.signal });
+        sendJson(res, 200, { result });
+      } catch (e) {
+        const error: LlmError = provider.classifyError(e);
+        if (error.kind !== 'aborted') console.error(`Upstream ${error.kind} error: ${error.message}`);
+        sendError(res, STATUS_BY_KIND[error.kind], { kind: error.kind, message: error.message, retryAfterMs: error.retryAfterMs });
+      }
+    } catch (e) {
+      if (e instanceof RequestError) {
+        refuse(res, e.status, e.code, e.params);
+      } else {
+        console.error('Proxy error:', e);
+        sendError(res, 500, { kind: 'unknown', message: 'Internal error' });
+      }
+    }
+  });
+  server.on('close', () => clearInterval(pruneTimer));
+  return server;
+}
+
+function positiveNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`${name} must be a positive number`);
+  return n;
+}
+
+function main() {
+  const kind = (process.env.PROXY_PROVIDER ?? 'gemini') as ProviderKind;
+  if (kind === 'proxy' || !(kind in DEFAULT_MODELS)) throw new Error(`Unsupported PROXY_PROVIDER: ${kind}`);
+  const apiKey = process.env.API_KEY
+    || (kind === 'gemini' ? process.env.GEMINI_API_KEY : kind === 'openai' ? process.env.OPENAI_API_KEY : undefined);
+  if (!apiKey && kind !== 'mock') throw new Error('API_KEY is not set');
+
+  const config: ProxyConfig = {
+    models: (process.env.PROXY_MODELS ?? DEFAULT_MODELS[kind]).split(',').map(m => m.trim()).filter(Boolean),
+    maxBodyBytes: positiveNumber('MAX_BODY_BYTES', DEFAULT_MAX_BODY_BYTES),
+    quota: {
+      requestsPerMinute: positiveNumber('QUOTA_RPM', DEFAULT_QUOTA_LIMITS.requestsPerMinute),
+      tokensPerDay: positiveNumber('QUOTA_TOKENS_PER_DAY', DEFAULT_QUOTA_LIMITS.tokensPerDay),
+      totalTokensPerDay: positiveNumber('QUOTA_TOTAL_TOKENS_PER_DAY', DEFAULT_QUOTA_LIMITS.totalTokensPerDay),
+    },
+    allowedOrigins: (process.env.ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean),
+    trustProxy: process.env.TRUST_PROXY === '1',
+  };
+  const port = positiveNumber('PORT', 8787);
+  createProxyServer(config, model => createProvider({ kind, model, baseUrl: process.env.PROXY_BASE_URL, apiKey }))
+    .listen(port, () => console.log(`Proxy for ${kind} (${config.models.join(', ')}) listening on :${port}`));
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  try {
+    main();
+  } catch (e) {
+    process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+    process.exit(2);
+  }
+}
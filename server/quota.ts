@@ -0,0 +1,79 @@
+/**
+ * Per-client budgets for the proxy: requests per minute (sliding window) and
+ * estimated tokens per day, plus a daily token cap across all clients so one
+ * deployment cannot run up an unbounded bill.
+ */
+import { ProxyErrorCode } from '../services/proxyProvider';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface QuotaLimits {
+  requestsPerMinute: number;
+  tokensPerDay: number;
+  totalTokensPerDay: number;
+}
+
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  requestsPerMinute: 30,
+  tokensPerDay: 2_000_000,
+  totalTokensPerDay: 20_000_000,
+};
+
+export type QuotaDecision =
+  | { ok: true }
+  | { ok: false; code: ProxyErrorCode; retryAfterMs: number };
+
+interface ClientUsage {
+  requests: number[];
+  day: number;
+  tokens: number;
+}
+
+export class QuotaTracker {
+  private readonly clients = new Map<string, ClientUsage>();
+  private day = -1;
+  private totalTokens = 0;
+
+  constructor(private readonly limits: QuotaLimits = DEFAULT_QUOTA_LIMITS) {}
+
+  /** Records the request when it fits every budget; otherwise says when to retry. */
+  take(client: string, tokens: number, now = Date.now()): QuotaDecision {
+    const day = Math.floor(now / DAY_MS);
+    const untilTomorrow = (day + 1) * DAY_MS - now;
+    if (day !== this.day) {
+      this.day = day;
+      this.totalTokens = 0;
+    }
+
+    let usage = this.clients.get(client);
+    if (!usage || usage.day !== day) {
+      usage = { requests: usage?.requests ?? [], day, tokens: 0 };
+      this.clients.set(client, usage);
+    }
+    usage.requests = usage.requests.filter(t => now - t < MINUTE_MS);
+
+    if (usage.requests.length >= this.limits.requestsPerMinute) {
+      return { ok: false, code: 'tooManyRequests', retryAfterMs: MINUTE_MS - (now - usage.requests[0]) };
+    }
+    if (usage.tokens + tokens > this.limits.tokensPerDay) {
+      return { ok: false, code: 'clientTokensExhausted', retryAfterMs: untilTomorrow };
+    }
+    if (this.totalTokens + tokens > this.limits.totalTokensPerDay) {
+      return { ok: false, code: 'serviceTokensExhausted', retryAfterMs: untilTomorrow };
+    }
+
+    usage.requests.push(now);
+    usage.tokens += tokens;
+    this.totalTokens += tokens;
+    return { ok: true };
+  }
+
+  /** Drops clients idle for over a minute that have no token usage today. */
+  prune(now = Date.now()) {
+    const day = Math.floor(now / DAY_MS);
+    for (const [client, usage] of this.clients) {
+      if (usage.day !== day && usage.requests.every(t => now - t >= MINUTE_MS)) this.clients.delete(client);
+    }
+  }
+}
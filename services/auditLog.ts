@@ -0,0 +1,257 @@
+import { LlmProvider } from "./llmProvider";
+import { RuleProfile } from "./ruleProfiles";
+import { cacheVersion } from "./resultCache";
+import { BatchRecord, ProcessFailure, ProcessResult, UnitSource } from "./geminiService";
+import { FieldChange, ReviewDecision } from "./review";
+import { CONTENT_LANGUAGE_LABELS } from "./latexNormalizer";
+import { PathWriter, getAtPath, parsePath } from "./jsonPath";
+import { MessageKey, formatDateTime, getLocale, t } from "./i18n";
+import { ContentLanguage, FieldRule, NormalizationMode } from "../types";
+
+/**
+ * Record of how a result came about: which model and prompt ran, every
+ * request with its retries and errors, and every changed field. Exported next
+ * to the result, and can be re-applied to the same input without the model.
+ */
+
+export interface AuditRun {
+  startedAt: number;
+  finishedAt: number;
+  mode: NormalizationMode;
+  /** Content language the prompt and local rules were chosen for; missing in older logs. */
+  language?: ContentLanguage;
+  provider: { kind: string; model: string };
+  /** Profile name plus a hash of its full prompt, as used for the result cache. */
+  profile: { id: string; name: string; promptVersion: string };
+  /** Set when the run only covered some units, e.g. a retry of failures. */
+  onlyPaths?: string[];
+  stats: ProcessResult['stats'];
+  cancelled: boolean;
+  batches: BatchRecord[];
+  failures: ProcessFailure[];
+}
+
+export interface AuditChange {
+  path: string;
+  unitPath: string;
+  key: string;
+  before: string;
+  after: string;
+  /** Which stage produced `after`, when known. */
+  source?: UnitSource;
+  decision: ReviewDecision;
+  edited?: string;
+}
+
+export interface AuditLog {
+  version: 1;
+  /** SHA-256 of the input file; a log only re-applies to the same content. */
+  inputHash: string;
+  fileName: string;
+  fields: FieldRule[];
+  exportedAt: number;
+  /** Totals over all runs, retries folded in. */
+  stats: ProcessResult['stats'];
+  runs: AuditRun[];
+  changes: AuditChange[];
+}
+
+export const SOURCE_LABELS: Record<UnitSource, MessageKey> = {
+  resumed: 'audit.source.resumed',
+  local: 'audit.source.local',
+  cache: 'audit.source.cache',
+  model: 'audit.source.model',
+};
+
+export async function buildAuditRun(
+  provider: LlmProvider,
+  profile: RuleProfile,
+  mode: NormalizationMode,
+  startedAt: number,
+  result: ProcessResult,
+  onlyPaths?: string[]
+): Promise<AuditRun> {
+  return {
+    startedAt,
+    finishedAt: Date.now(),
+    mode,
+    language: result.language,
+    provider: { kind: provider.kind, model: provider.model },
+    profile: { id: profile.id, name: profile.name, promptVersion: await cacheVersion(provider, profile, result.language) },
+    ...(onlyPaths && { onlyPaths }),
+    stats: result.stats,
+    cancelled: result.cancelled,
+    batches: result.batches,
+    failures: result.failures,
+  };
+}
+
+export function buildAuditLog(
+  inputHash: string,
+  fileName: string,
+  fields: FieldRule[],
+  stats: ProcessResult['stats'],
+  runs: AuditRun[],
+  changes: FieldChange[],
+  sources: Record<string, UnitSource>
+): AuditLog {
+  return {
+    version: 1,
+    inputHash,
+    fileName,
+    fields,
+    exportedAt: Date.now(),
+    stats,
+    runs,
+    changes: changes.map(({ path, unitPath, key, before, after, decision, edited }) => ({
+      path, unitPath, key, before, after, source: sources[unitPath], decision, ...(edited !== undefined && { edited }),
+    })),
+  };
+}
+
+export function exportAuditJson(log: AuditLog): string {
+  return JSON.stringify(log, null, 2);
+}
+
+/** Reads a file written by `exportAuditJson`. */
+export function parseAuditLog(text: string): AuditLog {
+  const parsed = JSON.parse(text);
+  if (
+    parsed?.version !== 1 ||
+    typeof parsed.inputHash !== 'string' ||
+    !Array.isArray(parsed.runs) ||
+    !Array.isArray(parsed.changes)
+  ) {
+    throw new Error(t('audit.invalidFile'));
+  }
+  const valid = parsed.changes.every((change: any) =>
+    typeof change?.path === 'string' && typeof change.before === 'string' && typeof change.after === 'string'
+  );
+  if (!valid) throw new Error(t('audit.invalidChanges'));
+  return parsed;
+}
+
+export interface AuditReplay {
+  data: unknown;
+  changes: FieldChange[];
+  /** Paths whose current value is not the logged `before`; left unchanged. */
+  mismatched: string[];
+}
+
+/**
+ * Reproduces the result of the logged runs on the original input, including
+ * review decisions and inline edits, without calling the model.
+ */
+export function replayAuditLog(original: unknown, log: AuditLog): AuditReplay {
+  const doc = new PathWriter(original);
+  const changes: FieldChange[] = [];
+  const mismatched: string[] = [];
+  for (const change of log.changes) {
+    const path = parsePath(change.path);
+    if (getAtPath(original, path) !== change.before) {
+      mismatched.push(change.path);
+      continue;
+    }
+    doc.set(path, change.after);
+    changes.push({
+      path: change.path,
+      unitPath: change.unitPath,
+      key: change.key,
+      before: change.before,
+      after: change.after,
+      decision: change.decision ?? 'pending',
+      ...(change.edited !== undefined && { edited: change.edited }),
+    });
+  }
+  return { data: doc.result, changes, mismatched };
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const DECISION_LABELS: Record<ReviewDecision, MessageKey> = {
+  pending: 'review.decision.pending',
+  accepted: 'review.decision.accepted',
+  rejected: 'review.decision.rejected',
+};
+
+export function statsLine(stats: ProcessResult['stats']): string {
+  return t('audit.stats', { ...stats });
+}
+
+function renderRun(run: AuditRun, index: number): string {
+  const rows = run.batches.flatMap((batch, b) => batch.attempts.map((attempt, a) => {
+    const outcome = attempt.error
+      ? `<span class="error">${escapeHtml(attempt.error.kind)}: ${escapeHtml(attempt.error.message)}</span>`
+      : attempt.rejected && attempt.rejected.length > 0
+        ? t('audit.rejected', {
+            count: attempt.rejected.length,
+            reasons: attempt.rejected.map(r => `${escapeHtml(r.path)}: ${escapeHtml(r.reason)}`).join('; '),
+          })
+        : t('audit.succeeded');
+    return `<tr><td>${a === 0 ? b + 1 : ''}</td><td>${a === 0 ? batch.paths.length : ''}</td>` +
+      `<td>${attempt.soloPath ? t('audit.soloRetry', { path: escapeHtml(attempt.soloPath) }) : t('audit.attempt', { n: a + 1 })}</td>` +
+      `<td>${formatDateTime(attempt.startedAt)}</td><td>${attempt.durationMs} ms</td><td>${outcome}</td></tr>`;
+  }));
+  return [
+    `<h2>${escapeHtml(runTitle(run, index))}</h2>`,
+    '<ul>',
+    `<li>${t('audit.html.time', { start: formatDateTime(run.startedAt), end: formatDateTime(run.finishedAt) })}</li>`,
+    `<li>${t('audit.html.model', { provider: escapeHtml(run.provider.kind), model: escapeHtml(run.provider.model), mode: run.mode })}</li>`,
+    ...(run.language ? [`<li>${t('audit.html.language', { language: t(CONTENT_LANGUAGE_LABELS[run.language]) })}</li>`] : []),
+    `<li>${t('audit.html.profile', { name: escapeHtml(run.profile.name), version: `<code>${run.profile.promptVersion.slice(0, 12)}</code>` })}</li>`,
+    `<li>${statsLine(run.stats)}</li>`,
+    '</ul>',
+    rows.length > 0
+      ? `<table><thead><tr><th>${t('audit.column.batch')}</th><th>${t('audit.column.items')}</th><th>${t('audit.column.request')}</th>` +
+        `<th>${t('audit.column.started')}</th><th>${t('audit.column.duration')}</th><th>${t('audit.column.result')}</th></tr></thead>` +
+        `<tbody>${rows.join('')}</tbody></table>`
+      : `<p>${t('audit.noRequests')}</p>`,
+  ].join('\n');
+}
+
+/** Heading of a run, with a note when it covered only some items or was cancelled. */
+export function runTitle(run: AuditRun, index: number): string {
+  return [
+    t('audit.runTitle', { n: index + 1 }),
+    run.onlyPaths ? t('audit.runOnly', { count: run.onlyPaths.length }) : '',
+    run.cancelled ? t('audit.runCancelled') : '',
+  ].join('');
+}
+
+/** A standalone page for reading or archiving the log. */
+export function exportAuditHtml(log: AuditLog): string {
+  const changeRows = log.changes.map(change =>
+    `<tr><td><code>${escapeHtml(change.path)}</code></td><td>${escapeHtml(change.before)}</td>` +
+    `<td>${escapeHtml(change.edited ?? change.after)}</td><td>${change.source ? t(SOURCE_LABELS[change.source]) : ''}</td>` +
+    `<td>${t(DECISION_LABELS[change.decision])}</td></tr>`
+  );
+  return `<!DOCTYPE html>
+<html lang="${getLocale() === 'zh' ? 'zh-CN' : 'en'}">
+<head>
+<meta charset="utf-8">
+<title>${t('audit.title', { file: escapeHtml(log.fileName) })}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1e293b; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.85rem; }
+th, td { border: 1px solid #cbd5e1; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f1f5f9; }
+td { white-space: pre-wrap; word-break: break-all; }
+.error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${t('audit.title', { file: escapeHtml(log.fileName) })}</h1>
+<ul>
+<li>${t('audit.inputHash', { hash: `<code>${log.inputHash}</code>` })}</li>
+<li>${t('audit.html.exportedAt', { time: formatDateTime(log.exportedAt) })}</li>
+<li>${statsLine(log.stats)}</li>
+</ul>
+${log.runs.map(renderRun).join('\n')}
+<h2>${t('audit.changedFields', { count: log.changes.length })}</h2>
+<table><thead><tr><th>${t('audit.column.path')}</th><th>${t('audit.column.before')}</th><th>${t('audit.column.after')}</th>` +
+`<th>${t('audit.column.source')}</th><th>${t('audit.column.decision')}</th></tr></thead><tbody>${changeRows.join('')}</tbody></table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,47 @@
+import { CHECKPOINT_STORE, deleteByIndex, getAllByIndex, putAll } from "./idb";
+
+/**
+ * One finished (or permanently failed) unit of a run, keyed by the hash of the
+ * input file plus the unit's JSON path.
+ */
+export interface CheckpointEntry {
+  fileHash: string;
+  /** Formatted path of the unit's owner object. */
+  path: string;
+  status: 'done' | 'failed';
+  /** Normalized values keyed by formatted field path (empty for failures). */
+  fields: Record<string, string>;
+  reason?: string;
+  updatedAt: number;
+}
+
+export interface CheckpointStore {
+  load(fileHash: string): Promise<CheckpointEntry[]>;
+  save(entries: CheckpointEntry[]): Promise<void>;
+  clear(fileHash: string): Promise<void>;
+}
+
+export const indexedDbCheckpointStore: CheckpointStore = {
+  load: (fileHash) => getAllByIndex<CheckpointEntry>(CHECKPOINT_STORE, 'fileHash', fileHash),
+  save: (entries) => putAll(CHECKPOINT_STORE, entries),
+  clear: (fileHash) => deleteByIndex(CHECKPOINT_STORE, 'fileHash', fileHash),
+};
+
+/** SHA-256 of the file content, hex encoded. */
+export async function hashContent(text: string): Promise<string> {
+  return hashBytes(new TextEncoder().encode(text));
+}
+
+/** Same digest as `hashContent` for the UTF-8 encoding of a text. */
+export async function hashBytes(bytes: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function summarizeCheckpoint(entries: CheckpointEntry[]) {
+  return {
+    done: entries.filter(e => e.status === 'done').length,
+    failed: entries.filter(e => e.status === 'failed').length,
+    updatedAt: Math.max(0, ...entries.map(e => e.updatedAt)),
+  };
+}
@@ -0,0 +1,107 @@
+import { t } from "./i18n";
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, quotes (doubled) and
+ * line breaks. The first row is the header.
+ */
+
+export interface CsvTable {
+  columns: string[];
+  rows: Record<string, string>[];
+  delimiter: string;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+/** Picks the candidate that occurs most often in the header line, outside quotes. */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === '\n' || ch === '\r')) break;
+    else if (!quoted && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+  }
+  return CANDIDATE_DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ',');
+}
+
+function parseRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (quoted) throw new Error(t('csv.unclosedQuote'));
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines carry no data.
+  return records.filter(r => r.length > 1 || r[0] !== '');
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): CsvTable {
+  const [header, ...body] = parseRecords(text, delimiter);
+  if (!header) throw new Error(t('csv.empty'));
+  const columns = header.map(column => column.trim());
+  const rows = body.map((record, r) => {
+    if (record.length > columns.length) {
+      throw new Error(t('csv.tooManyColumns', { row: r + 2, count: record.length, columns: columns.length }));
+    }
+    return Object.fromEntries(columns.map((column, c) => [column, record[c] ?? '']));
+  });
+  return { columns, rows, delimiter };
+}
+
+function quoteField(value: string, delimiter: string): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Writes rows under `columns`, appending any keys a row has beyond them.
+ * Non-string values are written as JSON.
+ */
+export function serializeCsv(rows: Record<string, unknown>[], columns: string[], delimiter = ',', lineEnding = '\r\n'): string {
+  const allColumns = [...columns];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!allColumns.includes(key)) allColumns.push(key);
+  }));
+  const cell = (value: unknown) =>
+    value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return [allColumns, ...rows.map(row => allColumns.map(column => cell(row[column])))]
+    .map(record => record.map(field => quoteField(field, delimiter)).join(delimiter))
+    .join(lineEnding) + lineEnding;
+}
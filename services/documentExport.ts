@@ -0,0 +1,108 @@
+import { splitMath } from "./latexNormalizer";
+import { buildKnowledgeGraph, relationLabel } from "./knowledgeGraph";
+import { findKnowledgeItems, relationTarget } from "./schemaLint";
+import { MessageKey, t } from "./i18n";
+
+/**
+ * Course-notes exports: every knowledge item becomes a section with its
+ * metadata, description and related items. Math stays as `$…$` LaTeX.
+ */
+
+export type DocumentFormat = 'markdown' | 'latex';
+
+interface Section {
+  title: string;
+  meta: [string, string][];
+  description: string;
+  related: string[];
+}
+
+function collectSections(data: unknown): Section[] {
+  const graph = buildKnowledgeGraph(data);
+  return findKnowledgeItems(data).map(({ item }) => {
+    const meta: [string, string][] = [];
+    if (typeof item.id === 'string' || typeof item.id === 'number') meta.push(['id', String(item.id)]);
+    if (typeof item.difficulty === 'string' && item.difficulty) meta.push([t('document.difficulty'), item.difficulty]);
+    const related = (Array.isArray(item.relations) ? item.relations : []).flatMap(entry => {
+      const target = relationTarget(entry);
+      if (target === undefined) return [];
+      const label = relationLabel(entry);
+      const name = graph.nodesByKey.get(String(target))?.label ?? String(target);
+      return [label ? t('document.relatedWithLabel', { name, label }) : name];
+    });
+    return {
+      title: typeof item.name === 'string' && item.name.trim() ? item.name : t('document.untitled', { id: item.id ?? '' }).trim(),
+      meta,
+      description: typeof item.description === 'string' ? item.description : '',
+      related,
+    };
+  });
+}
+
+export function exportMarkdown(data: unknown, title: string): string {
+  const lines = [`# ${title}`, ''];
+  for (const section of collectSections(data)) {
+    lines.push(`## ${section.title}`, '');
+    if (section.meta.length > 0) {
+      lines.push(section.meta.map(([key, value]) => `**${key}**: ${value}`).join(' · '), '');
+    }
+    if (section.description) lines.push(section.description, '');
+    if (section.related.length > 0) lines.push(`**${t('document.related')}**: ${section.related.join(t('document.listSeparator'))}`, '');
+  }
+  return lines.join('\n');
+}
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '#': '\\#',
+  '$': '\\$',
+  '%': '\\%',
+  '&': '\\&',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+const escapeLatexText = (text: string) => text.replace(/[\\{}#$%&_~^]/g, ch => LATEX_SPECIALS[ch]);
+
+/** Escapes prose for LaTeX while passing math segments through untouched. */
+function toLatex(text: string): string {
+  const segments = splitMath(text);
+  if (!segments) return escapeLatexText(text);
+  return segments
+    .map(segment => {
+      // `\$` is an escaped dollar in prose, which LaTeX spells the same way.
+      if (segment.kind === 'text') return segment.content.split('\\$').map(escapeLatexText).join('\\$');
+      return segment.display ? `\\[${segment.content}\\]` : `$${segment.content}$`;
+    })
+    .join('');
+}
+
+export function exportLatex(data: unknown, title: string): string {
+  const lines = [
+    '\\documentclass{ctexart}',
+    '\\usepackage{amsmath,amssymb}',
+    `\\title{${escapeLatexText(title)}}`,
+    '\\date{}',
+    '\\begin{document}',
+    '\\maketitle',
+    '',
+  ];
+  for (const section of collectSections(data)) {
+    lines.push(`\\section{${toLatex(section.title)}}`);
+    if (section.meta.length > 0) {
+      lines.push(section.meta.map(([key, value]) => `\\textbf{${escapeLatexText(key)}}: ${escapeLatexText(value)}`).join(' \\quad '), '');
+    }
+    if (section.description) lines.push(toLatex(section.description), '');
+    if (section.related.length > 0) lines.push(`\\textbf{${t('document.related')}}: ${section.related.map(toLatex).join(t('document.listSeparator'))}`, '');
+  }
+  lines.push('\\end{document}', '');
+  return lines.join('\n');
+}
+
+export const DOCUMENT_EXPORTS: Record<DocumentFormat, { label: MessageKey; extension: string; mimeType: string; render: (data: unknown, title: string) => string }> = {
+  markdown: { label: 'document.markdown', extension: '.md', mimeType: 'text/markdown', render: exportMarkdown },
+  latex: { label: 'document.latex', extension: '.tex', mimeType: 'application/x-tex', render: exportLatex },
+};
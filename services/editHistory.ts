@@ -0,0 +1,57 @@
+import { MessageKey, MessageParams } from "./i18n";
+
+/**
+ * Undo/redo over immutable snapshots. Documents are edited copy-on-write, so
+ * a snapshot only holds references and costs little to keep.
+ */
+
+/** What produced a snapshot, translated when shown so a locale switch applies. */
+export interface HistoryAction {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export interface HistoryEntry<T> {
+  state: T;
+  action: HistoryAction;
+}
+
+export interface EditHistory<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+// Enough for a review session; the oldest steps are dropped beyond this.
+export const MAX_HISTORY = 200;
+
+export function createHistory<T>(state: T, action: HistoryAction): EditHistory<T> {
+  return { past: [], present: { state, action }, future: [] };
+}
+
+/** Records a new state; anything that was undone can no longer be redone. */
+export function pushHistory<T>(history: EditHistory<T>, state: T, action: HistoryAction, limit = MAX_HISTORY): EditHistory<T> {
+  return {
+    past: [...history.past, history.present].slice(-limit),
+    present: { state, action },
+    future: [],
+  };
+}
+
+export function undo<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redo<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
@@ -0,0 +1,166 @@
+import { ContentLanguage, FieldRule, NormalizeRule } from "../types";
+import { ALL_RULES, detectContentLanguage } from "./latexNormalizer";
+import { JsonPath, PathSegment, getAtPath } from "./jsonPath";
+import { t } from "./i18n";
+
+export const DEFAULT_FIELD_RULES: FieldRule[] = [
+  { pattern: '$..name' },
+  { pattern: '$..description' },
+];
+
+/** A string field selected for normalization. */
+export interface SelectedField {
+  /** Label used in the batch payload, relative to the owner (`name`, `conditions[1]`). */
+  key: string;
+  path: JsonPath;
+  rules: NormalizeRule[];
+}
+
+/**
+ * A group of selected fields sharing one owner object. Units are what gets
+ * sent to the model, so related fields keep each other as context.
+ */
+export interface ProcessableUnit {
+  /** Path of the owner object. */
+  path: JsonPath;
+  fields: SelectedField[];
+}
+
+type PatternSegment = { kind: 'any-depth' } | { kind: 'match'; test: (segment: PathSegment) => boolean };
+
+interface CompiledRule {
+  segments: PatternSegment[];
+  rules: NormalizeRule[];
+}
+
+function keyMatcher(key: string): PatternSegment {
+  if (key === '*') return { kind: 'match', test: () => true };
+  if (/^\d+$/.test(key)) return { kind: 'match', test: s => s === Number(key) };
+  const regex = new RegExp(`^${key.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return { kind: 'match', test: s => typeof s === 'string' && regex.test(s) };
+}
+
+// One step of a pattern: `..`, `.`, `[*]` or `[0]`, a quoted key (which may
+// contain dots or brackets), or a bare key.
+const PATTERN_TOKEN = /\.\.|\.|\[\s*(\*|\d+)\s*\]|\[\s*(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]|([^.[\]]+)/y;
+
+/**
+ * Compiles a JSONPath-style or glob pattern into path segments. `$` anchors the
+ * pattern at the root; anything else may match at any depth. Quoted keys
+ * (`['a.b']`) match literally.
+ */
+export function compilePattern(pattern: string): PatternSegment[] {
+  const trimmed = pattern.trim();
+  if (!trimmed) throw new Error(t('fields.emptyPattern'));
+
+  const anchored = trimmed.startsWith('$');
+  const body = anchored ? trimmed.slice(1) : trimmed;
+  const segments: PatternSegment[] = anchored ? [] : [{ kind: 'any-depth' }];
+
+  let steps = 0;
+  let at = 0;
+  while (at < body.length) {
+    PATTERN_TOKEN.lastIndex = at;
+    const match = PATTERN_TOKEN.exec(body);
+    if (!match) throw new Error(t('fields.invalidPattern', { pattern }));
+    at = PATTERN_TOKEN.lastIndex;
+    const [token, selector, singleQuoted, doubleQuoted, bare] = match;
+    if (token === '.') continue;
+    steps++;
+    const quoted = singleQuoted ?? doubleQuoted;
+    if (token === '..' || bare === '**') {
+      if (segments[segments.length - 1]?.kind !== 'any-depth') segments.push({ kind: 'any-depth' });
+    } else if (quoted !== undefined) {
+      const key = quoted.replace(/\\(.)/g, '$1');
+      segments.push({ kind: 'match', test: s => s === key });
+    } else {
+      segments.push(keyMatcher(selector ?? bare));
+    }
+  }
+  if (steps === 0) throw new Error(t('fields.invalidPattern', { pattern }));
+  return segments;
+}
+
+function matchSegments(pattern: PatternSegment[], path: JsonPath): boolean {
+  const match = (pi: number, si: number): boolean => {
+    if (pi === pattern.length) return si === path.length;
+    const segment = pattern[pi];
+    if (segment.kind === 'any-depth') {
+      for (let k = si; k <= path.length; k++) {
+        if (match(pi + 1, k)) return true;
+      }
+      return false;
+    }
+    return si < path.length && segment.test(path[si]) && match(pi + 1, si + 1);
+  };
+  return match(0, 0);
+}
+
+function compileRules(fieldRules: FieldRule[]): CompiledRule[] {
+  return fieldRules.map(rule => ({
+    segments: compilePattern(rule.pattern),
+    rules: rule.rules ?? ALL_RULES,
+  }));
+}
+
+/**
+ * A string matches when the pattern matches its own path, or the path of the
+ * array holding it, so `conditions` selects every string in that array.
+ */
+function findRule(compiled: CompiledRule[], path: JsonPath): CompiledRule | undefined {
+  let arrayPath = path;
+  while (typeof arrayPath[arrayPath.length - 1] === 'number') {
+    arrayPath = arrayPath.slice(0, -1);
+  }
+  return compiled.find(rule =>
+    matchSegments(rule.segments, path) || (arrayPath !== path && matchSegments(rule.segments, arrayPath))
+  );
+}
+
+/**
+ * Walks the document and groups every selected string field by owner object.
+ * Strings inside arrays belong to the nearest enclosing object.
+ */
+export function findProcessableUnits(data: any, fieldRules: FieldRule[] = DEFAULT_FIELD_RULES): ProcessableUnit[] {
+  const compiled = compileRules(fieldRules);
+  const units = new Map<any, ProcessableUnit>();
+  const order: ProcessableUnit[] = [];
+
+  const visit = (node: any, path: JsonPath, owner: { node: any; path: JsonPath } | null) => {
+    if (typeof node === 'string') {
+      const rule = owner && findRule(compiled, path);
+      if (!owner || !rule) return;
+      let unit = units.get(owner.node);
+      if (!unit) {
+        unit = { path: owner.path, fields: [] };
+        units.set(owner.node, unit);
+        order.push(unit);
+      }
+      const relative = path.slice(owner.path.length);
+      const key = relative.reduce<string>(
+        (acc, s) => (typeof s === 'number' ? `${acc}[${s}]` : acc ? `${acc}.${s}` : s), ''
+      );
+      unit.fields.push({ key, path, rules: rule.rules });
+    } else if (Array.isArray(node)) {
+      node.forEach((child, i) => visit(child, [...path, i], owner));
+    } else if (typeof node === 'object' && node !== null) {
+      const self = { node, path };
+      Object.entries(node).forEach(([key, child]) => visit(child, [...path, key], self));
+    }
+  };
+
+  visit(data, [], null);
+  return order;
+}
+
+/** Counts matched fields, for previewing a selector against loaded data. */
+export function countSelectedFields(data: any, fieldRules: FieldRule[]): number {
+  return findProcessableUnits(data, fieldRules).reduce((sum, unit) => sum + unit.fields.length, 0);
+}
+
+/** Guesses the content language from the text of the selected fields. */
+export function detectFieldLanguage(data: any, fieldRules: FieldRule[] = DEFAULT_FIELD_RULES): ContentLanguage {
+  return detectContentLanguage(
+    findProcessableUnits(data, fieldRules).flatMap(unit => unit.fields.map(field => String(getAtPath(data, field.path))))
+  );
+}
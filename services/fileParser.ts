@@ -0,0 +1,35 @@
+import type { ParseWorkerMessage } from "./parseWorker";
+
+export interface ParsedFile {
+  data: unknown;
+  /** SHA-256 of the file bytes, used as the checkpoint key. */
+  hash: string;
+}
+
+/**
+ * Parses a JSON file off the main thread, reporting bytes read as it goes.
+ * Rejects with the parser's message (including line and column) on bad input.
+ */
+export function parseJsonFile(file: File, onProgress?: (loaded: number, total: number) => void): Promise<ParsedFile> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.loaded, message.total);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve({ data: message.data, hash: message.hash });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Parser worker failed'));
+    };
+    worker.postMessage(file);
+  });
+}
@@ -0,0 +1,112 @@
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { parseCsv, serializeCsv } from "./csv";
+import { t } from "./i18n";
+
+export type FileFormat = 'json' | 'jsonl' | 'yaml' | 'csv';
+
+/** Details of the source file needed to write results back the same way. */
+export interface FormatOptions {
+  /** JSON indentation as found in the source. */
+  indent?: string | number;
+  /** CSV column order, delimiter and line ending. */
+  columns?: string[];
+  delimiter?: string;
+  lineEnding?: string;
+  /** Whether the source started with a UTF-8 byte order mark. */
+  bom?: boolean;
+}
+
+export interface SourceFormat {
+  format: FileFormat;
+  options: FormatOptions;
+}
+
+export interface FormatHandler {
+  label: string;
+  extensions: string[];
+  mimeType: string;
+  parse(text: string): { data: unknown; options: FormatOptions };
+  serialize(data: unknown, options: FormatOptions): string;
+}
+
+function detectIndent(text: string): string | number {
+  const match = /\n([ \t]+)\S/.exec(text);
+  if (!match) return 2;
+  return match[1][0] === '\t' ? '\t' : match[1].length;
+}
+
+function requireRows(data: unknown, format: string): Record<string, unknown>[] {
+  if (!Array.isArray(data) || !data.every(row => row !== null && typeof row === 'object' && !Array.isArray(row))) {
+    throw new Error(t('formats.rowsOnly', { format }));
+  }
+  return data;
+}
+
+export const FORMAT_HANDLERS: Record<FileFormat, FormatHandler> = {
+  json: {
+    label: 'JSON',
+    extensions: ['.json'],
+    mimeType: 'application/json',
+    parse: text => ({ data: JSON.parse(text), options: { indent: detectIndent(text) } }),
+    serialize: (data, options) => JSON.stringify(data, null, options.indent ?? 2),
+  },
+  jsonl: {
+    label: 'JSON Lines',
+    extensions: ['.jsonl', '.ndjson'],
+    mimeType: 'application/x-ndjson',
+    parse: text => {
+      const data = text.split(/\r?\n/).flatMap((line, i) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line)];
+        } catch (e) {
+          throw new Error(t('formats.lineError', { line: i + 1, message: e instanceof Error ? e.message : String(e) }));
+        }
+      });
+      return { data, options: {} };
+    },
+    serialize: data => {
+      if (!Array.isArray(data)) throw new Error(t('formats.arrayOnly'));
+      return data.map(item => JSON.stringify(item)).join('\n') + '\n';
+    },
+  },
+  yaml: {
+    label: 'YAML',
+    extensions: ['.yaml', '.yml'],
+    mimeType: 'application/yaml',
+    parse: text => ({ data: parseYaml(text), options: {} }),
+    // No line folding: long descriptions stay on one line, as in the source.
+    serialize: data => stringifyYaml(data, { lineWidth: 0 }),
+  },
+  csv: {
+    label: 'CSV',
+    extensions: ['.csv', '.tsv'],
+    mimeType: 'text/csv',
+    parse: text => {
+      const table = parseCsv(text);
+      const lineEnding = text.includes('\r\n') ? '\r\n' : '\n';
+      return { data: table.rows, options: { columns: table.columns, delimiter: table.delimiter, lineEnding } };
+    },
+    serialize: (data, options) => serializeCsv(requireRows(data, 'CSV'), options.columns ?? [], options.delimiter, options.lineEnding),
+  },
+};
+
+export const ACCEPTED_EXTENSIONS = Object.values(FORMAT_HANDLERS).flatMap(handler => handler.extensions);
+
+export function detectFormat(fileName: string): FileFormat | null {
+  const lower = fileName.toLowerCase();
+  const entry = (Object.entries(FORMAT_HANDLERS) as [FileFormat, FormatHandler][])
+    .find(([, handler]) => handler.extensions.some(ext => lower.endsWith(ext)));
+  return entry ? entry[0] : null;
+}
+
+export function parseDocument(text: string, format: FileFormat): { data: unknown; source: SourceFormat } {
+  const bom = text.charCodeAt(0) === 0xfeff;
+  const { data, options } = FORMAT_HANDLERS[format].parse(bom ? text.slice(1) : text);
+  return { data, source: { format, options: { ...options, bom } } };
+}
+
+export function serializeDocument(data: unknown, source: SourceFormat): string {
+  const text = FORMAT_HANDLERS[source.format].serialize(data, source.options);
+  return source.options.bom ? `﻿${text}` : text;
+}
@@ -0,0 +1,76 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { GenerateRequest, JsonSchema, LlmError, LlmProvider, classifyByStatus, parseJsonResponse } from "./llmProvider";
+import { t } from "./i18n";
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+};
+
+function toGeminiSchema(schema: JsonSchema): any {
+  return {
+    type: GEMINI_TYPES[schema.type],
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+      ),
+    }),
+    ...(schema.required && { required: schema.required }),
+  };
+}
+
+/**
+ * Reads the `google.rpc.RetryInfo` hint a 429 carries in its error body, e.g.
+ * `"retryDelay": "13s"`; the SDK only exposes that body as the error message.
+ */
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly kind = 'gemini' as const;
+  private client: GoogleGenAI | null = null;
+
+  constructor(readonly model: string, private readonly apiKey?: string) {}
+
+  // Lazily create the client so a missing key only fails once a request is made.
+  private getClient(): GoogleGenAI {
+    if (this.client) return this.client;
+    if (!this.apiKey) {
+      throw new LlmError('auth', t('provider.missingKey'));
+    }
+    this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    return this.client;
+  }
+
+  async generateJson(request: GenerateRequest): Promise<unknown> {
+    const response = await this.getClient().models.generateContent({
+      model: this.model,
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: request.prompt },
+            { text: JSON.stringify(request.payload) }
+          ]
+        }
+      ],
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema), // Enforce strict schema
+        abortSignal: request.signal,
+      }
+    });
+    return parseJsonResponse(response.text);
+  }
+
+  classifyError(error: unknown): LlmError {
+    const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+    return classifyByStatus(error, status, parseRetryDelay(error instanceof Error ? error.message : String(error)));
+  }
+}
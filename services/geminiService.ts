@@ -1,93 +1,104 @@
-import { GoogleGenAI, Type } from "@google/genai";
-
-// Helper to lazily get the AI client.
-function getAiClient() {
-  // @ts-ignore: process.env is assumed to be available via Vite define
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key 未配置。请确保在部署环境 (Vercel/Netlify) 中设置了 API_KEY 环境变量。");
-  }
-  return new GoogleGenAI({ apiKey });
-}
-
-const SYSTEM_INSTRUCTION = `
-你是一个专业的数学 LaTeX 和 JSON 格式化专家。
-你的任务是处理传入的 JSON 对象列表，对 "name" 和 "description" 字段进行最优化算法知识点的文本清洗和标准化。
-
-严格遵守以下规则：
-1. **数学符号补全**：识别文本中所有未包裹的数学变量（如 x, A, b, w, L, n, m, i 等）和表达式（如 Ax=b, f(x), x in X 等），并用美元符号 $ 包裹。
-2. **公式合并**：将相邻的多个数学公式块合并为一个。例如，将 "$\\min$" "$f(x)$" 优化为 "$\\min f(x)$"，将 "$\\in$" "$\\mathbb{R}^n$" 优化为 "$\\in \\mathbb{R}^n$"。
-3. **双斜杠转义（核心）**：所有的 LaTeX 指令必须使用双反斜杠以符合 JSON 字符串规范。例如：\\\\min, \\\\mathbb{R}, \\\\in, \\\\text{s.t.}, \\\\to, \\\\le 等。
-4. **输出格式**：你必须严格遵循 JSON Schema 返回数据。
-`;
-
-// Define the Strict Schema to ensure valid JSON every time
-const responseSchema = {
-  type: Type.ARRAY,
-  items: {
-    type: Type.OBJECT,
-    properties: {
-      _index: { type: Type.INTEGER },
-      name: { type: Type.STRING },
-      description: { type: Type.STRING },
+import { detectContentLanguage, normalizeLatexText } from "./latexNormalizer";
+import { JsonSchema, LlmError, LlmErrorKind, LlmProvider, DEFAULT_PROVIDER_SETTINGS, isFatalError } from "./llmProvider";
+import { createProvider } from "./providerFactory";
+import { DEFAULT_FIELD_RULES, ProcessableUnit, findProcessableUnits } from "./fieldSelector";
+import { PathWriter, formatPath } from "./jsonPath";
+import { CheckpointEntry, CheckpointStore } from "./checkpointStore";
+import { LatexIssue, validateLatex } from "./latexValidator";
+import { validateBatchResults } from "./resultValidator";
+import { RunController, abortableDelay } from "./runController";
+import { RateLimitScheduler, estimateRequestTokens, estimateTokens, planBatches } from "./scheduler";
+import { DEFAULT_PROFILE, RuleProfile, buildSystemInstruction, localizeProfile } from "./ruleProfiles";
+import { CacheEntry, ResultCache, cacheKey, cacheVersion } from "./resultCache";
+import { ContentLanguage, FieldRule, NormalizationMode, RateLimits, ThroughputStats } from "../types";
+
+/**
+ * Builds the strict response schema for a batch from the field keys it
+ * contains, so every selected field round-trips, plus whatever the profile
+ * asks for on each item.
+ */
+function buildResponseSchema(payload: Record<string, unknown>[], itemSchema: JsonSchema): JsonSchema {
+  const keys = Array.from(new Set(payload.flatMap(item => Object.keys(item)))).filter(k => k !== '_index');
+  const sharedKeys = keys.filter(key => payload.every(item => key in item));
+  return {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        ...itemSchema.properties,
+        _index: { type: 'integer' },
+        ...Object.fromEntries(keys.map(key => [key, { type: 'string' } as JsonSchema])),
+      },
+      required: Array.from(new Set(["_index", ...sharedKeys, ...(itemSchema.required ?? [])])),
     },
-    required: ["_index", "name", "description"],
-  },
-};
+  };
+}
 
 /**
- * Sends a batch of simplified items to Gemini for processing.
+ * Sends a batch of simplified items to the model for processing, with the
+ * profile's instructions for content in `language`.
  */
-async function processBatch(items: any[]): Promise<any[]> {
+async function processBatch(
+  provider: LlmProvider,
+  profile: RuleProfile,
+  language: ContentLanguage,
+  items: Record<string, unknown>[],
+  signal?: AbortSignal
+): Promise<any[]> {
   try {
-    const ai = getAiClient();
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            { text: "请按照 System Instruction 处理以下数据：" },
-            { text: JSON.stringify(items) }
-          ]
-        }
-      ],
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: 'application/json',
-        responseSchema: responseSchema, // Enforce strict schema
-      }
+    const parsed = await provider.generateJson({
+      systemInstruction: buildSystemInstruction(profile, language),
+      prompt: localizeProfile(profile, language).prompt,
+      payload: items,
+      schema: buildResponseSchema(items, profile.responseSchema),
+      signal,
     });
-
-    const text = response.text;
-    if (!text) {
-      throw new Error("Empty response from Gemini");
-    }
-
-    const parsed = JSON.parse(text);
     return Array.isArray(parsed) ? parsed : [parsed];
   } catch (error: any) {
-    console.error("Batch processing error detail:", error);
-    if (error.message && error.message.includes("429")) {
-        throw new Error("RATE_LIMIT");
-    }
-    throw error;
+    const classified = provider.classifyError(error);
+    if (classified.kind !== 'aborted') console.error("Batch processing error detail:", error);
+    throw classified;
   }
 }
 
-function findProcessableItems(data: any, items: any[] = []) {
-  if (Array.isArray(data)) {
-    data.forEach(item => findProcessableItems(item, items));
-  } else if (typeof data === 'object' && data !== null) {
-    if (typeof data.name === 'string' && typeof data.description === 'string') {
-      items.push(data);
-    }
-    Object.values(data).forEach(value => findProcessableItems(value, items));
-  }
-  return items;
+// Batches are filled up to an estimated token budget; the item cap only
+// matters for very short items.
+export const DEFAULT_MAX_BATCH_TOKENS = 1500;
+export const DEFAULT_MAX_BATCH_ITEMS = 20;
+
+export interface ProcessFailure {
+  /** Formatted path of the unit that could not be processed. */
+  path: string;
+  reason: string;
 }
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+/** How a unit got its final value in a run. */
+export type UnitSource = 'resumed' | 'local' | 'cache' | 'model';
+
+/** One request for a batch, or for a single item of it retried on its own. */
+export interface BatchAttempt {
+  /** Formatted unit path when a single rejected item was sent again. */
+  soloPath?: string;
+  startedAt: number;
+  durationMs: number;
+  error?: { kind: LlmErrorKind; message: string };
+  /** Results that came back but failed validation. */
+  rejected?: ProcessFailure[];
+}
+
+export interface BatchRecord {
+  /** Formatted paths of the units sent, in payload (`_index`) order. */
+  paths: string[];
+  attempts: BatchAttempt[];
+}
+
+/** A normalized field whose LaTeX does not render. */
+export interface RenderIssue {
+  /** Formatted path of the field. */
+  path: string;
+  unitPath: string;
+  issues: LatexIssue[];
+}
 
 export interface ProcessResult {
   data: any;
@@ -95,7 +106,151 @@ export interface ProcessResult {
     total: number;
     success: number;
     failed: number;
+    /** Items normalized by the local rules without calling the API (included in `success`). */
+    local: number;
+    /** Items restored from a checkpoint (included in `success`). */
+    resumed: number;
+    /**
+     * Items answered from the result cache, or copied from an identical item
+     * of the same run, without a request of their own (not in `success`).
+     */
+    cached: number;
   };
+  failures: ProcessFailure[];
+  renderIssues: RenderIssue[];
+  /** Every request of the run, per batch, for the audit log. */
+  batches: BatchRecord[];
+  /** Source of every unit settled in this run, by formatted path. */
+  sources: Record<string, UnitSource>;
+  /** Content language the run was processed as. */
+  language: ContentLanguage;
+  /**
+   * True when the run was cancelled. `data` then holds every item finished so
+   * far; the rest are unchanged and counted in neither `success` nor `failed`.
+   */
+  cancelled: boolean;
+}
+
+export interface ProcessOptions {
+  mode?: NormalizationMode;
+  /** Defaults to Gemini with the default model. */
+  provider?: LlmProvider;
+  /** Which string fields to normalize; `name` and `description` by default. */
+  fields?: FieldRule[];
+  /** Prompt, rules and examples sent to the model; DEFAULT_PROFILE by default. */
+  profile?: RuleProfile;
+  /** Language of the prose; detected from the selected fields when omitted. */
+  language?: ContentLanguage;
+  /** Persists every finished batch so an interrupted run can be resumed. */
+  checkpoint?: {
+    store: CheckpointStore;
+    fileHash: string;
+    /** Entries of a previous run to restore instead of reprocessing. */
+    resume?: CheckpointEntry[];
+  };
+  /** Model results by input content; hits skip the request entirely. */
+  cache?: ResultCache;
+  /** Restricts the run to units at these paths, e.g. the failures of a previous run. */
+  onlyPaths?: string[];
+  /** Maximum items per request; defaults to DEFAULT_MAX_BATCH_ITEMS. */
+  batchSize?: number;
+  /** Estimated payload tokens per request; defaults to DEFAULT_MAX_BATCH_TOKENS. */
+  maxBatchTokens?: number;
+  /** Upper bound for requests in flight; overrides `rateLimits.maxConcurrency`. */
+  concurrency?: number;
+  /** Request and token budgets; DEFAULT_RATE_LIMITS where omitted. */
+  rateLimits?: Partial<RateLimits>;
+  /** Cancels the run; defaults to `controller.signal`. */
+  signal?: AbortSignal;
+  /** Pause/resume (and cancel) from the UI. */
+  controller?: RunController;
+}
+
+/**
+ * Runs the local normalizer over a unit. The result is written only when every
+ * field was handled with confidence, i.e. the unit does not need the LLM, or
+ * when `force` is set; otherwise the unit keeps its original text, which is
+ * what the model sees and what remains if the model fails.
+ */
+function normalizeUnitLocally(doc: PathWriter, unit: ProcessableUnit, language: ContentLanguage, force: boolean): boolean {
+  const results = unit.fields.map(field => normalizeLatexText(doc.get(field.path), field.rules, language));
+  const confident = results.every(result => result.confident);
+  if (confident || force) {
+    unit.fields.forEach((field, i) => doc.set(field.path, results[i].text));
+  }
+  return confident;
+}
+
+function buildPayload(doc: PathWriter, unit: ProcessableUnit, index: number): Record<string, unknown> {
+  const payload: Record<string, unknown> = { _index: index };
+  unit.fields.forEach(field => {
+    payload[field.key] = doc.get(field.path);
+  });
+  return payload;
+}
+
+function checkpointEntry(
+  fileHash: string,
+  doc: PathWriter,
+  unit: ProcessableUnit,
+  status: CheckpointEntry['status'],
+  reason?: string
+): CheckpointEntry {
+  return {
+    fileHash,
+    path: formatPath(unit.path),
+    status,
+    fields: status === 'done'
+      ? Object.fromEntries(unit.fields.map(field => [formatPath(field.path), doc.get(field.path)]))
+      : {},
+    reason,
+    updatedAt: Date.now(),
+  };
+}
+
+/** Applies a saved entry if it covers every selected field of the unit. */
+function restoreFromCheckpoint(doc: PathWriter, unit: ProcessableUnit, entry: CheckpointEntry | undefined): boolean {
+  if (!entry || entry.status !== 'done') return false;
+  const keys = unit.fields.map(field => formatPath(field.path));
+  if (!keys.every(key => typeof entry.fields[key] === 'string')) return false;
+  unit.fields.forEach((field, i) => doc.set(field.path, entry.fields[keys[i]]));
+  return true;
+}
+
+/** Current values of a unit's fields, keyed like the payload. */
+function unitFields(doc: PathWriter, unit: ProcessableUnit): Record<string, string> {
+  return Object.fromEntries(unit.fields.map(field => [field.key, String(doc.get(field.path))]));
+}
+
+/** Applies cached output if it covers every field of the unit. */
+function applyCachedOutput(doc: PathWriter, unit: ProcessableUnit, output: Record<string, string>): boolean {
+  if (!unit.fields.every(field => typeof output[field.key] === 'string')) return false;
+  unit.fields.forEach(field => doc.set(field.path, output[field.key]));
+  return true;
+}
+
+function applyResult(doc: PathWriter, unit: ProcessableUnit, result: any) {
+  unit.fields.forEach(field => {
+    if (typeof result[field.key] === 'string') {
+      doc.set(field.path, result[field.key]);
+    }
+  });
+}
+
+/**
+ * Lists the fields of `units` whose current value would not typeset.
+ */
+function collectRenderIssues(doc: PathWriter, units: ProcessableUnit[]): RenderIssue[] {
+  const renderIssues: RenderIssue[] = [];
+  for (const unit of units) {
+    for (const field of unit.fields) {
+      const issues = validateLatex(doc.get(field.path));
+      if (issues.length > 0) {
+        renderIssues.push({ path: formatPath(field.path), unitPath: formatPath(unit.path), issues });
+      }
+    }
+  }
+  return renderIssues;
 }
 
 /**
@@ -103,59 +258,292 @@ export interface ProcessResult {
  */
 export async function processJsonKnowledgeBase(
   originalData: any,
-  onProgress: (current: number, total: number) => void
+  onProgress: (current: number, total: number, throughput?: ThroughputStats) => void,
+  options: ProcessOptions = {}
 ): Promise<ProcessResult> {
-  const dataCopy = JSON.parse(JSON.stringify(originalData));
+  const mode = options.mode ?? 'hybrid';
+  const provider = options.provider ?? createProvider(DEFAULT_PROVIDER_SETTINGS);
+  const profile = options.profile ?? DEFAULT_PROFILE;
+  // Edits are copy-on-write, so only the objects along changed paths are copied.
+  const doc = new PathWriter(originalData);
   
-  const itemsToProcess = findProcessableItems(dataCopy);
-  const total = itemsToProcess.length;
+  const checkpoint = options.checkpoint;
+  const controller = options.controller;
+  const callerSignal = options.signal ?? controller?.signal;
+  // Fires when the caller cancels, and after a fatal error so that no worker
+  // keeps sending requests, e.g. with a key the API has already refused.
+  const stop = new AbortController();
+  const signal = stop.signal;
+  const stopped = new Promise<void>(resolve => signal.addEventListener('abort', () => resolve(), { once: true }));
+  const onlyPaths = options.onlyPaths && new Set(options.onlyPaths);
+
+  let allItems = findProcessableUnits(originalData, options.fields ?? DEFAULT_FIELD_RULES);
+  if (onlyPaths) {
+    allItems = allItems.filter(item => onlyPaths.has(formatPath(item.path)));
+  }
+  const total = allItems.length;
+  const language = options.language ?? detectContentLanguage(allItems.flatMap(item => item.fields.map(field => String(doc.get(field.path)))));
   
-  console.log(`Found ${total} items to process.`);
+  console.log(`Found ${total} items to process (${language}).`);
 
   if (total === 0) {
-    return { data: dataCopy, stats: { total: 0, success: 0, failed: 0 } };
+    return { data: doc.result, stats: { total: 0, success: 0, failed: 0, local: 0, resumed: 0, cached: 0 }, failures: [], renderIssues: [], batches: [], sources: {}, language, cancelled: false };
   }
 
-  // EXTREME CONSERVATIVE MODE
-  // Batch size 3 to ensure fast processing per chunk and avoid token limits
-  const BATCH_SIZE = 3; 
-  let successCount = 0;
+  const saveCheckpoint = async (items: ProcessableUnit[], status: CheckpointEntry['status'], reason?: string) => {
+    if (!checkpoint) return;
+    try {
+      await checkpoint.store.save(items.map(item => checkpointEntry(checkpoint.fileHash, doc, item, status, reason)));
+    } catch (e) {
+      // Losing a checkpoint only costs a resume; never fail the run over it.
+      console.warn('Failed to save checkpoint:', e);
+    }
+  };
+
+  const sources: Record<string, UnitSource> = {};
+  const settle = (items: ProcessableUnit[], source: UnitSource) => {
+    items.forEach(item => (sources[formatPath(item.path)] = source));
+  };
+
+  // Restore units finished by a previous run.
+  const saved = new Map((checkpoint?.resume ?? []).map(entry => [entry.path, entry]));
+  let resumedCount = 0;
+  const pendingItems = allItems.filter(item => {
+    const restored = restoreFromCheckpoint(doc, item, saved.get(formatPath(item.path)));
+    if (restored) {
+      resumedCount++;
+      settle([item], 'resumed');
+    }
+    return !restored;
+  });
+
+  // Local pass: confident items are done here; in 'local' mode everything is.
+  let localCount = 0;
+  const itemsToProcess = mode === 'llm'
+    ? pendingItems
+    : pendingItems.filter(item => {
+        const confident = normalizeUnitLocally(doc, item, language, mode === 'local');
+        if (confident || mode === 'local') {
+          localCount++;
+          settle([item], 'local');
+          return false;
+        }
+        return true;
+      });
+
+  // Cache pass: units this model already answered under the same profile are
+  // applied directly, and identical units within the run share one request,
+  // with or without a cache.
+  const cache = options.cache;
+  let cacheHits = 0;
+  let itemsToSend = itemsToProcess;
+  const cacheKeys = new Map<ProcessableUnit, { key: string; input: Record<string, string> }>();
+  const duplicatesOf = new Map<ProcessableUnit, ProcessableUnit[]>();
+  if (itemsToProcess.length > 0) {
+    const version = await cacheVersion(provider, profile, language);
+    const inputs = itemsToProcess.map(item => unitFields(doc, item));
+    const keys = await Promise.all(inputs.map(input => cacheKey(version, input)));
+    let hits = new Map<string, CacheEntry>();
+    try {
+      if (cache) hits = await cache.getMany(Array.from(new Set(keys)));
+    } catch (e) {
+      console.warn('Result cache unavailable:', e);
+    }
+    const representatives = new Map<string, ProcessableUnit>();
+    const hitItems: ProcessableUnit[] = [];
+    itemsToSend = [];
+    itemsToProcess.forEach((item, i) => {
+      const hit = hits.get(keys[i]);
+      if (hit && applyCachedOutput(doc, item, hit.output)) {
+        hitItems.push(item);
+        return;
+      }
+      const representative = representatives.get(keys[i]);
+      if (representative) {
+        duplicatesOf.get(representative)!.push(item);
+        return;
+      }
+      representatives.set(keys[i], item);
+      duplicatesOf.set(item, []);
+      cacheKeys.set(item, { key: keys[i], input: inputs[i] });
+      itemsToSend.push(item);
+    });
+    cacheHits = hitItems.length;
+    settle(hitItems, 'cache');
+    await saveCheckpoint(hitItems, 'done');
+  }
+  let cachedCount = cacheHits;
+  const withDuplicates = (items: ProcessableUnit[]) => items.flatMap(item => [item, ...(duplicatesOf.get(item) ?? [])]);
+  const remaining = itemsToProcess.length - cacheHits;
+
+  const settledCount = resumedCount + localCount + cacheHits;
+  console.log(`${resumedCount} items resumed, ${localCount} normalized locally, ${cacheHits} from cache, ${itemsToSend.length} sent to the model.`);
+  onProgress(settledCount, total);
+
+  const maxItems = Math.max(1, options.batchSize ?? DEFAULT_MAX_BATCH_ITEMS);
+  const maxTokens = Math.max(1, options.maxBatchTokens ?? DEFAULT_MAX_BATCH_TOKENS);
+  const scheduler = new RateLimitScheduler({
+    ...options.rateLimits,
+    ...(options.concurrency !== undefined && { maxConcurrency: options.concurrency }),
+  });
+  const SOLO_RETRIES = 2;
+  let successCount = resumedCount + localCount;
   let failedCount = 0;
+  const failures: ProcessFailure[] = [];
+  const batchRecords: BatchRecord[] = [];
+  let processedCount = 0;
 
-  for (let i = 0; i < total; i += BATCH_SIZE) {
-    const batch = itemsToProcess.slice(i, i + BATCH_SIZE);
-    
-    const payload = batch.map((item, idx) => ({
-      _index: idx,
-      name: item.name,
-      description: item.description
-    }));
+  const reportProgress = () => {
+    onProgress(settledCount + processedCount, total, scheduler.stats(remaining - processedCount));
+  };
+
+  /**
+   * Sends a payload through the scheduler. Rate limits feed back into the
+   * scheduler before the error is rethrown for the caller's retry logic.
+   */
+  const send = async (payload: Record<string, unknown>[]) => {
+    try {
+      const results = await scheduler.schedule(
+        estimateRequestTokens(estimateTokens(payload)),
+        () => processBatch(provider, profile, language, payload, signal),
+        signal,
+        controller && (() => Promise.race([controller.waitUntilRunning(), stopped]))
+      );
+      scheduler.reportSuccess();
+      return results;
+    } catch (e) {
+      const error = provider.classifyError(e);
+      // A limit that lifts only hours later, e.g. a daily quota, ends the run.
+      if (error.kind === 'rate_limit' && !scheduler.reportRateLimit(error.retryAfterMs)) {
+        throw new LlmError('quota', error.message, error.status, error.retryAfterMs);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Caches the model output of finished units and copies it to their
+   * identical units, which count as cached.
+   */
+  const shareResults = async (items: ProcessableUnit[]) => {
+    const entries: CacheEntry[] = [];
+    const copies: ProcessableUnit[] = [];
+    for (const item of items) {
+      const output = unitFields(doc, item);
+      for (const duplicate of duplicatesOf.get(item) ?? []) {
+        applyCachedOutput(doc, duplicate, output);
+        copies.push(duplicate);
+      }
+      const cached = cacheKeys.get(item);
+      if (cached) {
+        entries.push({ ...cached, output, model: provider.model, profileName: profile.name, createdAt: Date.now() });
+      }
+    }
+    cachedCount += copies.length;
+    settle(items, 'model');
+    settle(copies, 'cache');
+    await saveCheckpoint(copies, 'done');
+    if (!cache || entries.length === 0) return;
+    try {
+      await cache.putMany(entries);
+    } catch (e) {
+      console.warn('Failed to save results to the cache:', e);
+    }
+  };
+
+  /**
+   * Sends one unit on its own after its batch result was rejected. Returns
+   * null on success, otherwise the reason it still failed.
+   */
+  const retryIndividually = async (item: ProcessableUnit, initialReason: string, record: BatchRecord): Promise<string | null> => {
+    let reason = initialReason;
+    const soloPath = formatPath(item.path);
+    for (let attempt = 0; attempt < SOLO_RETRIES; attempt++) {
+      const startedAt = Date.now();
+      try {
+        const payload = [buildPayload(doc, item, 0)];
+        const { accepted, rejected } = validateBatchResults(payload, await send(payload), language, profile.substitutions);
+        record.attempts.push({
+          soloPath,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          rejected: rejected.map(r => ({ path: soloPath, reason: r.reason })),
+        });
+        if (accepted.length > 0) {
+          applyResult(doc, item, accepted[0].result);
+          await saveCheckpoint([item], 'done');
+          await shareResults([item]);
+          return null;
+        }
+        reason = rejected[0]?.reason ?? reason;
+      } catch (e) {
+        const error = provider.classifyError(e);
+        record.attempts.push({ soloPath, startedAt, durationMs: Date.now() - startedAt, error: { kind: error.kind, message: error.message } });
+        if (isFatalError(error) || error.kind === 'aborted') throw error;
+        reason = error.message;
+      }
+    }
+    await saveCheckpoint(withDuplicates([item]), 'failed', reason);
+    return reason;
+  };
+
+  const runBatch = async (batch: ProcessableUnit[], i: number) => {
+    const payload = batch.map((item, idx) => buildPayload(doc, item, idx));
+    const record: BatchRecord = { paths: batch.map(item => formatPath(item.path)), attempts: [] };
+    batchRecords.push(record);
 
     let retries = 3;
     let batchSuccess = false;
 
     // Retry loop
     while (retries > 0 && !batchSuccess) {
+      const startedAt = Date.now();
+      let answered = false;
       try {
-        // Enforce a strict delay to respect rate limits
-        if (i > 0) {
-            await delay(2000); // Wait 2 seconds between every batch
-        }
-
-        const results = await processBatch(payload);
-        
-        results.forEach((result: any) => {
-          if (typeof result._index === 'number' && batch[result._index]) {
-            batch[result._index].name = result.name;
-            batch[result._index].description = result.description;
-          }
+        // Pacing is the scheduler's job: it waits for request/token budget and any rate-limit pause.
+        const results = await send(payload);
+        answered = true;
+        const { accepted, rejected } = validateBatchResults(payload, results, language, profile.substitutions);
+        record.attempts.push({
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          rejected: rejected.map(({ index, reason }) => ({ path: record.paths[index], reason })),
         });
         
+        accepted.forEach(({ index, result }) => applyResult(doc, batch[index], result));
+        
         batchSuccess = true;
-        successCount += batch.length;
+        successCount += accepted.length;
+        await saveCheckpoint(accepted.map(({ index }) => batch[index]), 'done');
+        await shareResults(accepted.map(({ index }) => batch[index]));
+
+        // Results that failed validation are never applied; give each a solo retry.
+        for (const { index, reason } of rejected) {
+          console.warn(`Result for ${formatPath(batch[index].path)} rejected: ${reason}`);
+          const retryReason = await retryIndividually(batch[index], reason, record);
+          if (retryReason === null) {
+            successCount++;
+          } else {
+            const failed = withDuplicates([batch[index]]);
+            failedCount += failed.length;
+            failed.forEach(item => failures.push({ path: formatPath(item.path), reason: retryReason }));
+          }
+        }
       } catch (e: any) {
+        const error = provider.classifyError(e);
+        // Errors from the solo retries are recorded there.
+        if (!answered) {
+          record.attempts.push({ startedAt, durationMs: Date.now() - startedAt, error: { kind: error.kind, message: error.message } });
+        }
+        // A bad key or a used-up quota fails every batch the same way; stop instead of burning retries.
+        if (isFatalError(error)) {
+          throw error;
+        }
+        // Cancelled: whatever this batch did not finish stays pending and unsaved.
+        if (error.kind === 'aborted') {
+          return;
+        }
         retries--;
-        const isRateLimit = e.message === "RATE_LIMIT" || (e.message && e.message.includes("429"));
         
         console.warn(`Batch failed at index ${i}, retries left: ${retries}. Reason: ${e.message}`);
         
@@ -163,24 +551,115 @@ export async function processJsonKnowledgeBase(
            // SOFT FAIL: Do NOT throw error. Just log and continue.
            // The original data remains unchanged for this batch.
            console.error(`Batch at index ${i} permanently failed. Skipping.`);
-           failedCount += batch.length;
-        } else {
-            // Exponential backoff
-            const waitTime = isRateLimit ? 5000 * (4 - retries) : 2000;
-            await delay(waitTime); 
+           const failed = withDuplicates(batch);
+           failedCount += failed.length;
+           failed.forEach(item => failures.push({ path: formatPath(item.path), reason: error.message }));
+           await saveCheckpoint(failed, 'failed', error.message);
+        } else if (error.kind !== 'rate_limit') {
+            // Rate limits already paused the scheduler; other errors get a short fixed back-off.
+            await abortableDelay(2000, signal).catch(() => {});
         }
       }
     }
 
-    onProgress(Math.min(i + BATCH_SIZE, total), total);
+    processedCount += withDuplicates(batch).length;
+    scheduler.recordCompleted(batch.length);
+    reportProgress();
+  };
+
+  // Batches are sized by estimated tokens, so short items pack densely and long ones go alone.
+  const batches = planBatches(
+    itemsToSend,
+    item => estimateTokens(buildPayload(doc, item, 0)),
+    maxTokens,
+    maxItems
+  );
+
+  // One worker per possible concurrent request; the scheduler decides how many actually send.
+  // The first fatal error stops the others, and is thrown once all have finished.
+  let nextBatch = 0;
+  let nextStart = 0;
+  let fatal: unknown = null;
+  const worker = async () => {
+    while (nextBatch < batches.length && !signal.aborted) {
+      const batch = batches[nextBatch++];
+      const start = nextStart;
+      nextStart += batch.length;
+      try {
+        await runBatch(batch, start);
+      } catch (e) {
+        fatal ??= e;
+        stop.abort();
+      }
+    }
+  };
+  const cancel = () => stop.abort();
+  if (callerSignal?.aborted) cancel(); else callerSignal?.addEventListener('abort', cancel, { once: true });
+  try {
+    await Promise.all(Array.from({ length: Math.min(scheduler.maxConcurrency, batches.length) }, worker));
+  } finally {
+    callerSignal?.removeEventListener('abort', cancel);
   }
+  if (fatal) throw fatal;
+
+  // Flag every output that would not typeset, whichever stage produced it.
+  const renderIssues = collectRenderIssues(doc, allItems);
 
   return { 
-    data: dataCopy, 
+    data: doc.result, 
     stats: {
         total,
         success: successCount,
-        failed: failedCount
-    }
+        failed: failedCount,
+        local: localCount,
+        resumed: resumedCount,
+        cached: cachedCount,
+    },
+    failures,
+    renderIssues,
+    batches: batchRecords,
+    sources,
+    language,
+    cancelled: signal.aborted,
+  };
+}
+
+/**
+ * Sends the unit at `unitPath` to the model on its own, skipping the local
+ * rules, checkpoint and cache, e.g. to redo one result by hand. Other units
+ * are carried over unchanged. A rejected output leaves the unit as it was and
+ * is reported in `failures`; request errors are thrown without retrying.
+ */
+export async function reprocessUnit(originalData: any, unitPath: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+  const provider = options.provider ?? createProvider(DEFAULT_PROVIDER_SETTINGS);
+  const profile = options.profile ?? DEFAULT_PROFILE;
+  const doc = new PathWriter(originalData);
+  const units = findProcessableUnits(originalData, options.fields ?? DEFAULT_FIELD_RULES);
+  const unit = units.find(item => formatPath(item.path) === unitPath);
+  if (!unit) throw new Error(`No processable item at ${unitPath}`);
+  const language = options.language ?? detectContentLanguage(units.flatMap(item => item.fields.map(field => String(doc.get(field.path)))));
+
+  const payload = [buildPayload(doc, unit, 0)];
+  const record: BatchRecord = { paths: [unitPath], attempts: [] };
+  const startedAt = Date.now();
+  const results = await processBatch(provider, profile, language, payload, options.signal ?? options.controller?.signal);
+  const { accepted, rejected } = validateBatchResults(payload, results, language, profile.substitutions);
+  record.attempts.push({
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    rejected: rejected.map(r => ({ path: unitPath, reason: r.reason })),
+  });
+  if (accepted.length > 0) applyResult(doc, unit, accepted[0].result);
+  const failures = rejected.map(r => ({ path: unitPath, reason: r.reason }));
+
+  return {
+    data: doc.result,
+    stats: { total: 1, success: accepted.length > 0 ? 1 : 0, failed: failures.length > 0 ? 1 : 0, local: 0, resumed: 0, cached: 0 },
+    failures,
+    renderIssues: collectRenderIssues(doc, [unit]),
+    batches: [record],
+    sources: accepted.length > 0 ? { [unitPath]: 'model' } : {},
+    language,
+    cancelled: false,
   };
-}
\ No newline at end of file
+}
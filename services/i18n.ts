@@ -0,0 +1,71 @@
+import { zh } from "../locales/zh";
+import { en } from "../locales/en";
+
+/**
+ * Message catalogs for the interface. The Chinese catalog is the source of
+ * the keys; every other catalog must translate all of them.
+ *
+ * The current locale is module state rather than React context, so services
+ * that build user-facing messages (validation reasons, lint issues, export
+ * labels) translate the same way as components. The app re-renders after
+ * `setLocale`, which picks up the new strings everywhere.
+ */
+
+export type Locale = 'zh' | 'en';
+
+export type MessageKey = keyof typeof zh;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { zh, en };
+
+/** Names shown in the language switcher, each in its own language. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  zh: '中文',
+  en: 'English',
+};
+
+/** BCP 47 tags for date and number formatting. */
+const LOCALE_TAGS: Record<Locale, string> = {
+  zh: 'zh-CN',
+  en: 'en-US',
+};
+
+let current: Locale = 'zh';
+
+export function getLocale(): Locale {
+  return current;
+}
+
+export function setLocale(locale: Locale) {
+  current = locale;
+}
+
+/**
+ * Picks the interface language from browser tags (`zh-CN`) or POSIX locale
+ * variables (`zh_CN.UTF-8`); the C and POSIX locales count as unset, which
+ * gives `fallback`.
+ */
+export function localeFromTags(tags: readonly (string | undefined)[], fallback: Locale = 'zh'): Locale {
+  const first = tags.find(tag => tag && !['C', 'POSIX'].includes(tag.split('.')[0]));
+  if (!first) return fallback;
+  return first.toLowerCase().startsWith('zh') ? 'zh' : 'en';
+}
+
+/**
+ * Looks up a message and fills in `{name}` placeholders. A message of the form
+ * `singular|plural` picks its form from `params.count`. `locale` overrides the
+ * current locale, e.g. on the proxy server, which has no user to ask.
+ */
+export function t(key: MessageKey, params?: MessageParams, locale: Locale = current): string {
+  let message = CATALOGS[locale][key] ?? zh[key];
+  if (message.includes('|') && params && typeof params.count === 'number') {
+    const [singular, plural] = message.split('|');
+    message = params.count === 1 ? singular : plural;
+  }
+  return params ? message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match)) : message;
+}
+
+export function formatDateTime(time: number): string {
+  return new Date(time).toLocaleString(LOCALE_TAGS[current]);
+}
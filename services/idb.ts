@@ -0,0 +1,94 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database.
+ */
+
+const DB_NAME = 'json-optimizer';
+const DB_VERSION = 2;
+
+export const CHECKPOINT_STORE = 'checkpoints';
+export const RESULT_CACHE_STORE = 'results';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const checkpoints = db.createObjectStore(CHECKPOINT_STORE, { keyPath: ['fileHash', 'path'] });
+    checkpoints.createIndex('fileHash', 'fileHash');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(RESULT_CACHE_STORE, { keyPath: 'key' });
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getAllByIndex<T>(storeName: string, indexName: string, key: IDBValidKey): Promise<T[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return promisify(tx.objectStore(storeName).index(indexName).getAll(key)) as Promise<T[]>;
+}
+
+export async function putAll<T>(storeName: string, values: T[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  values.forEach(value => store.put(value));
+  return transactionDone(tx);
+}
+
+export async function deleteByIndex(storeName: string, indexName: string, key: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const keys = await promisify(tx.objectStore(storeName).index(indexName).getAllKeys(key));
+  keys.forEach(k => tx.objectStore(storeName).delete(k));
+  return transactionDone(tx);
+}
+
+export async function getMany<T>(storeName: string, keys: IDBValidKey[]): Promise<(T | undefined)[]> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return Promise.all(keys.map(key => promisify(store.get(key)) as Promise<T | undefined>));
+}
+
+export async function getAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(storeName, 'readonly').objectStore(storeName).getAll()) as Promise<T[]>;
+}
+
+export async function clearStore(storeName: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).clear();
+  return transactionDone(tx);
+}
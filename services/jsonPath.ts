@@ -0,0 +1,98 @@
+import { t } from "./i18n";
+
+/**
+ * Minimal helpers for addressing values inside a parsed JSON document.
+ */
+
+export type PathSegment = string | number;
+export type JsonPath = PathSegment[];
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Formats a path as `$.chapters[0].relations[1].note`. */
+export function formatPath(path: JsonPath): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return IDENTIFIER.test(segment) ? `${acc}.${segment}` : `${acc}[${JSON.stringify(segment)}]`;
+  }, '$');
+}
+
+/** Inverse of `formatPath`; also reads single-quoted keys (`['a.b']`). */
+export function parsePath(text: string): JsonPath {
+  const path: JsonPath = [];
+  const pattern = /\.([A-Za-z_$][A-Za-z0-9_$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]|\['((?:[^'\\]|\\.)*)'\]/g;
+  const body = text.startsWith('$') ? text.slice(1) : text;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+  while ((match = pattern.exec(body)) !== null) {
+    if (match.index !== consumed) break;
+    consumed = pattern.lastIndex;
+    if (match[1] !== undefined) path.push(match[1]);
+    else if (match[2] !== undefined) path.push(Number(match[2]));
+    else if (match[3] !== undefined) path.push(JSON.parse(match[3]));
+    else path.push(match[4].replace(/\\(.)/g, '$1'));
+  }
+  if (consumed !== body.length) {
+    throw new Error(t('path.invalid', { path: text }));
+  }
+  return path;
+}
+
+export function getAtPath(root: any, path: JsonPath): any {
+  return path.reduce((node, segment) => (node == null ? undefined : node[segment]), root);
+}
+
+/** Sets a value in place. The parent of the target must already exist. */
+export function setAtPath(root: any, path: JsonPath, value: any): void {
+  if (path.length === 0) {
+    throw new Error('Cannot replace the document root');
+  }
+  const parent = getAtPath(root, path.slice(0, -1));
+  if (parent == null || typeof parent !== 'object') {
+    throw new Error(`Path does not exist: ${formatPath(path)}`);
+  }
+  parent[path[path.length - 1]] = value;
+}
+
+/**
+ * Copy-on-write editor for a JSON document. Every container on the way to a
+ * written path is shallow-copied once, on the first write through it; all
+ * untouched subtrees stay shared with the original, which is never modified.
+ */
+export class PathWriter {
+  private readonly owned = new WeakSet<object>();
+
+  constructor(private root: any) {}
+
+  /** The edited document; the original itself if nothing was written. */
+  get result(): any {
+    return this.root;
+  }
+
+  get(path: JsonPath): any {
+    return getAtPath(this.root, path);
+  }
+
+  set(path: JsonPath, value: any): void {
+    if (path.length === 0) {
+      throw new Error('Cannot replace the document root');
+    }
+    if (this.get(path) === value) return;
+    this.root = this.own(this.root, path);
+    let node = this.root;
+    for (const segment of path.slice(0, -1)) {
+      node = node[segment] = this.own(node[segment], path);
+    }
+    node[path[path.length - 1]] = value;
+  }
+
+  private own(node: any, path: JsonPath): any {
+    if (node == null || typeof node !== 'object') {
+      throw new Error(`Path does not exist: ${formatPath(path)}`);
+    }
+    if (this.owned.has(node)) return node;
+    const copy = Array.isArray(node) ? [...node] : { ...node };
+    this.owned.add(copy);
+    return copy;
+  }
+}
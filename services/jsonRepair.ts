@@ -0,0 +1,238 @@
+import { JsonSyntaxError, StreamingJsonParser } from "./streamingJsonParser";
+import { isKnownCommand } from "./latexNormalizer";
+import { MessageKey, t } from "./i18n";
+
+/**
+ * Lenient repair pass for hand-edited JSON that does not parse. It finds the
+ * usual culprits (stray LaTeX backslashes, trailing commas, comments, smart
+ * quotes, raw line breaks in strings) and proposes a fix for each, which the
+ * user can apply before the file goes into the normal pipeline.
+ */
+
+export type JsonRepairKind =
+  | 'invalid-escape'
+  | 'latex-escape'
+  | 'trailing-comma'
+  | 'comment'
+  | 'smart-quote'
+  | 'control-character';
+
+export interface JsonRepairIssue {
+  kind: JsonRepairKind;
+  /** 1-based position of the problem in the original text. */
+  line: number;
+  column: number;
+  message: string;
+  /** The fix replaces `text.slice(start, end)` with `replacement`. */
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export interface JsonDiagnosis {
+  issues: JsonRepairIssue[];
+  /** Syntax error left after applying every fix, located in the original text; null when the result parses. */
+  remaining: { message: string; line: number; column: number } | null;
+}
+
+export const REPAIR_KIND_LABELS: Record<JsonRepairKind, MessageKey> = {
+  'invalid-escape': 'repair.kind.invalidEscape',
+  'latex-escape': 'repair.kind.latexEscape',
+  'trailing-comma': 'repair.kind.trailingComma',
+  'comment': 'repair.kind.comment',
+  'smart-quote': 'repair.kind.smartQuote',
+  'control-character': 'repair.kind.controlCharacter',
+};
+
+const VALID_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u']);
+/** Escapes that are valid JSON but usually a LaTeX command, e.g. `\frac` read as form feed + "rac". */
+const CONTROL_ESCAPES = new Set(['b', 'f', 'n', 'r', 't']);
+const OPENING_QUOTES = new Set(['“', '”', '＂']);
+const CLOSING_QUOTES = new Set(['”', '“', '＂']);
+const CONTROL_NAMES: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function positionAt(starts: number[], offset: number): { line: number; column: number } {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid; else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - starts[lo] + 1 };
+}
+
+function escapeControl(ch: string): string {
+  return CONTROL_NAMES[ch] ?? `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`;
+}
+
+/** Scans the text once, as a JSON tokenizer would, and collects every fixable problem. */
+function scan(text: string): Omit<JsonRepairIssue, 'line' | 'column'>[] {
+  const issues: Omit<JsonRepairIssue, 'line' | 'column'>[] = [];
+  let i = 0;
+  let pendingComma = -1;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '"' || OPENING_QUOTES.has(ch)) {
+      pendingComma = -1;
+      const smart = ch !== '"';
+      if (smart) {
+        issues.push({ kind: 'smart-quote', message: t('repair.smartQuote', { quote: ch }), start: i, end: i + 1, replacement: '"' });
+      }
+      i = scanString(text, i + 1, smart, issues);
+      continue;
+    }
+    if (ch === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+      const block = text[i + 1] === '*';
+      const close = block ? text.indexOf('*/', i + 2) : text.indexOf('\n', i);
+      const end = close === -1 ? text.length : block ? close + 2 : close;
+      issues.push({ kind: 'comment', message: t('repair.comment'), start: i, end, replacement: '' });
+      i = end;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+    if ((ch === '}' || ch === ']') && pendingComma !== -1) {
+      issues.push({ kind: 'trailing-comma', message: t('repair.trailingComma', { bracket: ch }), start: pendingComma, end: pendingComma + 1, replacement: '' });
+    }
+    pendingComma = ch === ',' ? i : -1;
+    i++;
+  }
+  return issues;
+}
+
+/** Reads a string body starting after its opening quote; returns the index after the closing quote. */
+function scanString(text: string, from: number, smart: boolean, issues: Omit<JsonRepairIssue, 'line' | 'column'>[]): number {
+  let i = from;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"' || (smart && CLOSING_QUOTES.has(ch))) {
+      if (ch !== '"') {
+        issues.push({ kind: 'smart-quote', message: t('repair.smartQuote', { quote: ch }), start: i, end: i + 1, replacement: '"' });
+      }
+      return i + 1;
+    }
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next === undefined) return text.length;
+      const word = /^[A-Za-z]+/.exec(text.slice(i + 1, i + 40))?.[0] ?? '';
+      if (!VALID_ESCAPES.has(next)) {
+        issues.push({
+          kind: 'invalid-escape',
+          message: isKnownCommand(word)
+            ? t('repair.invalidEscapeCommand', { escape: `\\${next}`, command: `\\\\${word}` })
+            : t('repair.invalidEscape', { escape: `\\${next}` }),
+          start: i, end: i + 1, replacement: '\\\\',
+        });
+        i += 2;
+        continue;
+      }
+      if (next === 'u' && !/^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) {
+        issues.push({ kind: 'invalid-escape', message: t('repair.unicodeEscape'), start: i, end: i + 1, replacement: '\\\\' });
+        i += 2;
+        continue;
+      }
+      if (CONTROL_ESCAPES.has(next) && word.length > 1 && isKnownCommand(word)) {
+        issues.push({
+          kind: 'latex-escape',
+          message: t('repair.latexEscape', { command: `\\${word}`, escape: `\\${next}`, rest: word.slice(1) }),
+          start: i, end: i + 1, replacement: '\\\\',
+        });
+      }
+      i += next === 'u' ? 6 : 2;
+      continue;
+    }
+    if (ch < ' ') {
+      // A CRLF inside a string becomes one \n.
+      const end = ch === '\r' && text[i + 1] === '\n' ? i + 2 : i + 1;
+      const name = ch === '\r' || ch === '\n' ? 'repair.lineBreak' : ch === '\t' ? 'repair.tab' : 'repair.controlCharacter';
+      issues.push({ kind: 'control-character', message: t(name), start: i, end, replacement: escapeControl(ch === '\r' && end === i + 2 ? '\n' : ch) });
+      i = end;
+      continue;
+    }
+    i++;
+  }
+  return i;
+}
+
+/** Applies the given fixes; they must come from one diagnosis of `text`. */
+export function applyRepairs(text: string, issues: JsonRepairIssue[]): string {
+  const sorted = [...issues].sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+  for (const issue of sorted) {
+    if (issue.start < cursor) continue;
+    result += text.slice(cursor, issue.start) + issue.replacement;
+    cursor = issue.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/** Maps an offset in the repaired text back to the original, given the fixes that produced it. */
+function originalOffset(offset: number, issues: JsonRepairIssue[]): number {
+  let shift = 0;
+  for (const issue of [...issues].sort((a, b) => a.start - b.start)) {
+    const repairedStart = issue.start + shift;
+    if (offset < repairedStart) break;
+    if (offset < repairedStart + issue.replacement.length) return issue.start;
+    shift += issue.replacement.length - (issue.end - issue.start);
+  }
+  return offset - shift;
+}
+
+function syntaxError(text: string): JsonSyntaxError | null {
+  try {
+    JSON.parse(text);
+    return null;
+  } catch {
+    // JSON.parse messages vary by engine; the streaming parser reports line and column.
+  }
+  try {
+    const parser = new StreamingJsonParser();
+    parser.write(text);
+    parser.end();
+    return new JsonSyntaxError('Invalid JSON', 1, 1);
+  } catch (e) {
+    return e instanceof JsonSyntaxError ? e : new JsonSyntaxError(String(e), 1, 1);
+  }
+}
+
+/** Finds every fixable problem and reports whatever would still fail once all are fixed. */
+export function diagnoseJson(text: string): JsonDiagnosis {
+  const starts = lineStarts(text);
+  const issues = scan(text)
+    .sort((a, b) => a.start - b.start)
+    .map(issue => ({ ...issue, ...positionAt(starts, issue.start) }));
+  const repaired = applyRepairs(text, issues);
+  const error = syntaxError(repaired);
+  if (!error) return { issues, remaining: null };
+
+  const repairedStarts = lineStarts(repaired);
+  const offset = (repairedStarts[error.line - 1] ?? repaired.length) + error.column - 1;
+  const message = error.message.replace(/ \(line \d+, column \d+\)$/, '');
+  return { issues, remaining: { message, ...positionAt(starts, originalOffset(offset, issues)) } };
+}
+
+/** The line around an issue, split so the faulty text can be highlighted. */
+export function issueExcerpt(text: string, issue: Pick<JsonRepairIssue, 'start' | 'end'>, radius = 30) {
+  const lineStart = text.lastIndexOf('\n', issue.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', issue.start);
+  const from = Math.max(lineStart, issue.start - radius);
+  const to = Math.min(lineEnd === -1 ? text.length : lineEnd, issue.end + radius);
+  return {
+    before: (from > lineStart ? '…' : '') + text.slice(from, issue.start),
+    target: text.slice(issue.start, Math.max(issue.end, issue.start)),
+    after: text.slice(Math.max(issue.end, issue.start), Math.max(to, issue.end)) + (lineEnd !== -1 && to < lineEnd ? '…' : ''),
+  };
+}
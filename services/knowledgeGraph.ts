@@ -0,0 +1,233 @@
+import { JsonPath, formatPath } from "./jsonPath";
+import { findKnowledgeItems, relationTarget } from "./schemaLint";
+
+export interface GraphNode {
+  /** The item's id as a string; items without one get their formatted path. */
+  key: string;
+  path: JsonPath;
+  label: string;
+  difficulty?: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  /** Target id as a string; may not match any node (see `dangling`). */
+  to: string;
+  /** Relation type from the entry (`type`, `relation` or `label`), if any. */
+  label?: string;
+  dangling: boolean;
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  nodesByKey: Map<string, GraphNode>;
+  /** Keys of nodes on at least one directed cycle (self-loops included). */
+  cyclic: Set<string>;
+  /** Keys of nodes without any incoming or outgoing edge. */
+  orphans: Set<string>;
+  /** Keys of nodes with at least one relation to a missing id. */
+  dangling: Set<string>;
+}
+
+const RELATION_LABEL_KEYS = ['type', 'relation', 'label'];
+
+export function relationLabel(entry: unknown): string | undefined {
+  if (typeof entry !== 'object' || entry === null) return undefined;
+  const key = RELATION_LABEL_KEYS.find(k => typeof (entry as any)[k] === 'string');
+  return key && (entry as any)[key];
+}
+
+/**
+ * Builds the concept graph of a knowledge base: items are nodes, relation
+ * entries are directed edges from the item to the referenced id. Duplicate ids
+ * keep their first occurrence, as in the lint report.
+ */
+export function buildKnowledgeGraph(data: unknown): KnowledgeGraph {
+  const nodes: GraphNode[] = [];
+  const nodesByKey = new Map<string, GraphNode>();
+  const located = findKnowledgeItems(data);
+  const nodeByPath = new Map<JsonPath, GraphNode>();
+
+  for (const { path, item } of located) {
+    const hasId = typeof item.id === 'string' || typeof item.id === 'number';
+    const key = hasId ? String(item.id) : formatPath(path);
+    if (nodesByKey.has(key)) continue;
+    const node: GraphNode = {
+      key,
+      path,
+      label: typeof item.name === 'string' && item.name ? item.name : key,
+      difficulty: typeof item.difficulty === 'string' || typeof item.difficulty === 'number' ? String(item.difficulty) : undefined,
+    };
+    nodes.push(node);
+    nodesByKey.set(key, node);
+    nodeByPath.set(path, node);
+  }
+
+  const edges: GraphEdge[] = [];
+  for (const { path, item } of located) {
+    const from = nodeByPath.get(path);
+    if (!from || !Array.isArray(item.relations)) continue;
+    for (const entry of item.relations) {
+      const target = relationTarget(entry);
+      if (target === undefined) continue;
+      const to = String(target);
+      edges.push({ from: from.key, to, label: relationLabel(entry), dangling: !nodesByKey.has(to) });
+    }
+  }
+
+  const connected = new Set<string>();
+  const dangling = new Set<string>();
+  for (const edge of edges) {
+    connected.add(edge.from);
+    if (edge.dangling) {
+      dangling.add(edge.from);
+    } else {
+      connected.add(edge.to);
+    }
+  }
+  const orphans = new Set(nodes.filter(node => !connected.has(node.key)).map(node => node.key));
+
+  return { nodes, edges, nodesByKey, cyclic: findCyclicNodes(nodes, edges), orphans, dangling };
+}
+
+/**
+ * Tarjan's strongly connected components, iteratively so deep chains do not
+ * overflow the stack. Nodes in a component of two or more, or with a
+ * self-loop, lie on a cycle.
+ */
+function findCyclicNodes(nodes: GraphNode[], edges: GraphEdge[]): Set<string> {
+  const adjacency = new Map<string, string[]>(nodes.map(node => [node.key, []]));
+  const cyclic = new Set<string>();
+  for (const edge of edges) {
+    if (edge.dangling) continue;
+    adjacency.get(edge.from)!.push(edge.to);
+    if (edge.from === edge.to) cyclic.add(edge.from);
+  }
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  let counter = 0;
+
+  for (const root of nodes) {
+    if (index.has(root.key)) continue;
+    const work: { key: string; next: number }[] = [{ key: root.key, next: 0 }];
+    index.set(root.key, counter);
+    lowLink.set(root.key, counter++);
+    stack.push(root.key);
+    onStack.add(root.key);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const neighbours = adjacency.get(frame.key)!;
+      if (frame.next < neighbours.length) {
+        const next = neighbours[frame.next++];
+        if (!index.has(next)) {
+          index.set(next, counter);
+          lowLink.set(next, counter++);
+          stack.push(next);
+          onStack.add(next);
+          work.push({ key: next, next: 0 });
+        } else if (onStack.has(next)) {
+          lowLink.set(frame.key, Math.min(lowLink.get(frame.key)!, index.get(next)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].key;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.key)!));
+      }
+      if (lowLink.get(frame.key) === index.get(frame.key)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.key);
+        if (component.length > 1) component.forEach(key => cyclic.add(key));
+      }
+    }
+  }
+  return cyclic;
+}
+
+/** Keys of the nodes directly linked to `key`, in either direction. */
+export function neighboursOf(graph: KnowledgeGraph, key: string): string[] {
+  const result = new Set<string>();
+  for (const edge of graph.edges) {
+    if (edge.dangling) continue;
+    if (edge.from === key) result.add(edge.to);
+    if (edge.to === key) result.add(edge.from);
+  }
+  result.delete(key);
+  return Array.from(result);
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Force-directed layout of a subset of the graph: all pairs repel, edges pull
+ * their ends together. Starts from a circle, so the result is deterministic.
+ * Cost is quadratic in `keys`, which the explorer keeps to a few hundred.
+ */
+export function layoutGraph(graph: KnowledgeGraph, keys: string[], width: number, height: number, iterations = 150): Map<string, Point> {
+  const positions = new Map<string, Point>();
+  const radius = Math.min(width, height) * 0.4;
+  keys.forEach((key, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(1, keys.length);
+    positions.set(key, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) });
+  });
+  if (keys.length < 2) return positions;
+
+  const links = graph.edges.filter(edge => edge.from !== edge.to && positions.has(edge.from) && positions.has(edge.to));
+  const ideal = Math.sqrt((width * height) / keys.length) * 0.6;
+  const points = keys.map(key => positions.get(key)!);
+  const indexOf = new Map(keys.map((key, i) => [key, i]));
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = (ideal * (1 - step / iterations)) / 2;
+    const forces = points.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const dx = points[i].x - points[j].x || 0.01;
+        const dy = points[i].y - points[j].y || 0.01;
+        const distance = Math.max(1, Math.hypot(dx, dy));
+        const push = (ideal * ideal) / distance;
+        forces[i].x += (dx / distance) * push;
+        forces[i].y += (dy / distance) * push;
+        forces[j].x -= (dx / distance) * push;
+        forces[j].y -= (dy / distance) * push;
+      }
+    }
+
+    for (const link of links) {
+      const a = indexOf.get(link.from)!;
+      const b = indexOf.get(link.to)!;
+      const dx = points[a].x - points[b].x;
+      const dy = points[a].y - points[b].y;
+      const distance = Math.max(1, Math.hypot(dx, dy));
+      const pull = (distance * distance) / ideal;
+      forces[a].x -= (dx / distance) * pull;
+      forces[a].y -= (dy / distance) * pull;
+      forces[b].x += (dx / distance) * pull;
+      forces[b].y += (dy / distance) * pull;
+    }
+
+    points.forEach((point, i) => {
+      const magnitude = Math.max(1, Math.hypot(forces[i].x, forces[i].y));
+      const move = Math.min(magnitude, temperature);
+      point.x = Math.min(width - 20, Math.max(20, point.x + (forces[i].x / magnitude) * move));
+      point.y = Math.min(height - 20, Math.max(20, point.y + (forces[i].y / magnitude) * move));
+    });
+  }
+  return positions;
+}
@@ -0,0 +1,464 @@
+import { ContentLanguage, NormalizeRule } from "../types";
+import { MessageKey, t } from "./i18n";
+
+/**
+ * Rule-based, offline implementation of the three rules in the default profile:
+ * wrapping bare math in `$…$`, merging adjacent math blocks and repairing
+ * broken backslash escapes.
+ *
+ * Every result carries a `confident` flag. Text is only confident when each
+ * Latin run outside of math could be classified as either math or prose; those
+ * items can skip the LLM entirely, everything else is still sent to the model.
+ *
+ * Where prose ends and math begins depends on the language of the text: in
+ * Chinese every Latin run is a candidate for math, in English most of them are
+ * words, so a few rules are told which language they are looking at.
+ */
+
+export const ALL_RULES: NormalizeRule[] = ['wrap', 'merge', 'escape'];
+
+export interface NormalizeResult {
+  text: string;
+  changed: boolean;
+  confident: boolean;
+  /** Why the text could not be handled with confidence (empty when confident). */
+  issues: string[];
+}
+
+// Commands we recognise when repairing escapes. Kept deliberately small: a
+// control character is only turned back into a command when the result is one
+// of these, so ordinary newlines and tabs in prose survive untouched.
+const KNOWN_COMMANDS = new Set([
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta',
+  'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi',
+  'varphi', 'chi', 'psi', 'omega', 'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma',
+  'Phi', 'Psi', 'Omega',
+  'min', 'max', 'arg', 'sup', 'inf', 'lim', 'log', 'ln', 'exp', 'sin', 'cos', 'tan', 'det', 'dim',
+  'ker', 'Pr', 'operatorname', 'sum', 'prod', 'int', 'partial', 'nabla', 'infty',
+  'in', 'notin', 'subset', 'subseteq', 'cup', 'cap', 'le', 'leq', 'ge', 'geq', 'neq', 'approx',
+  'equiv', 'sim', 'succeq', 'preceq', 'forall', 'exists', 'to', 'rightarrow', 'leftarrow',
+  'Rightarrow', 'Leftrightarrow', 'mapsto', 'times', 'cdot', 'cdots', 'ldots', 'dots', 'pm',
+  'circ', 'top', 'mid', 'langle', 'rangle', 'left', 'right', 'quad', 'qquad',
+  'frac', 'sqrt', 'text', 'mathbb', 'mathbf', 'mathcal', 'mathrm', 'boldsymbol', 'bar', 'hat',
+  'tilde', 'vec', 'overline', 'nonumber', 'begin', 'end', 'textbf', 'mathit',
+]);
+
+const FUNCTION_NAMES = ['argmin', 'argmax', 'min', 'max', 'sup', 'inf', 'lim', 'log', 'ln', 'exp', 'sin', 'cos', 'tan', 'det'];
+
+const FUNCTION_COMMANDS: Record<string, string> = {
+  argmin: '\\arg\\min',
+  argmax: '\\arg\\max',
+};
+
+const SYMBOL_COMMANDS: Record<string, string> = {
+  '∈': '\\in', '∉': '\\notin', '≤': '\\le', '≥': '\\ge', '≠': '\\neq', '≈': '\\approx',
+  '∇': '\\nabla', '∂': '\\partial', '∞': '\\infty', '→': '\\to', '⇒': '\\Rightarrow',
+  '×': '\\times', '∑': '\\sum', '∏': '\\prod', '∀': '\\forall', '∃': '\\exists', '⊆': '\\subseteq',
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\epsilon', 'η': '\\eta',
+  'θ': '\\theta', 'λ': '\\lambda', 'μ': '\\mu', 'ρ': '\\rho', 'σ': '\\sigma', 'τ': '\\tau',
+  'φ': '\\phi', 'ω': '\\omega', 'Δ': '\\Delta', 'Σ': '\\Sigma',
+};
+
+const OPERATOR_COMMANDS: Record<string, string> = {
+  '<=': '\\le', '>=': '\\ge', '!=': '\\neq', '->': '\\to',
+};
+
+const PROSE_ABBREVIATIONS = new Set(['e.g.', 'i.e.', 'etc.', 'vs.', 'cf.']);
+
+// Hyphenated words that start with a single letter but are not "$x$-axis" style compounds.
+const PROSE_COMPOUNDS = new Set(['e-mail', 'x-ray', 'x-rays']);
+
+// Words that follow a variable ("A is", "a and b") rather than an article or the pronoun I.
+const VARIABLE_FOLLOWERS = new Set([
+  'is', 'are', 'was', 'were', 'be', 'has', 'have', 'can', 'must', 'may', 'will', 'should',
+  'and', 'or', 'then', 'if', 'of', 'to', 'with', 'for', 'on', 'at', 'by', 'as',
+  'equals', 'denotes', 'satisfies', 'holds',
+]);
+
+const CONTROL_ESCAPES: Record<string, string> = {
+  '\b': 'b', '\f': 'f', '\n': 'n', '\r': 'r', '\t': 't', '\v': 'v',
+};
+
+/** CJK ideographs, kana and full-width punctuation. */
+export const CJK_CHAR = /[\u2e80-\u2fdf\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+export function isKnownCommand(name: string): boolean {
+  return KNOWN_COMMANDS.has(name);
+}
+
+const restoreControls = (text: string, controls: RegExp) =>
+  text.replace(controls, (match, letters: string) => {
+    const command = CONTROL_ESCAPES[match[0]] + letters;
+    return KNOWN_COMMANDS.has(command) ? `\\${command}` : match;
+  });
+
+/**
+ * Repairs backslashes that were lost or doubled on the way into the JSON file:
+ * `\frac` parsed as form feed + "rac", `\times` as tab + "imes", and
+ * over-escaped `\\min` that JSON.parse left with two backslashes.
+ *
+ * Outside of math a newline or carriage return is left alone even when a
+ * command name follows: "line one⏎nu…" may just as well be a line break before
+ * the word "nu". `hasAmbiguousLineBreak` flags those for the model.
+ */
+export function repairEscapes(text: string): string {
+  const segments = splitMath(text) ?? [{ kind: 'text' as const, content: text }];
+  let result = joinSegments(segments.map(segment => ({
+    ...segment,
+    content: restoreControls(segment.content, segment.kind === 'math' ? /[\b\f\n\r\t\v]([A-Za-z]+)/g : /[\b\f\t\v]([A-Za-z]+)/g),
+  })));
+  result = result.replace(/\\\\([A-Za-z]+)/g, (match, letters: string) =>
+    KNOWN_COMMANDS.has(letters) ? `\\${letters}` : match
+  );
+  return result;
+}
+
+/** True when a line break outside of math is followed by letters that would form a known command. */
+function hasAmbiguousLineBreak(text: string): boolean {
+  const segments = splitMath(text) ?? [{ kind: 'text' as const, content: text }];
+  return segments.some(segment =>
+    segment.kind === 'text' &&
+    Array.from(segment.content.matchAll(/[\n\r]([A-Za-z]+)/g)).some(match => KNOWN_COMMANDS.has(CONTROL_ESCAPES[match[0][0]] + match[1]))
+  );
+}
+
+export type Segment =
+  | { kind: 'text'; content: string }
+  | { kind: 'math'; content: string; display: boolean };
+
+/**
+ * Splits text into prose and `$…$` / `$$…$$` segments. Returns null when the
+ * delimiters are unbalanced, since nothing downstream can be trusted then.
+ */
+export function splitMath(text: string): Segment[] | null {
+  const segments: Segment[] = [];
+  let buffer = '';
+  let open: 'inline' | 'display' | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\' && text[i + 1] === '$') {
+      buffer += '\\$';
+      i++;
+      continue;
+    }
+    if (ch !== '$') {
+      buffer += ch;
+      continue;
+    }
+    const isDouble = text[i + 1] === '$';
+    if (open === null) {
+      if (buffer) segments.push({ kind: 'text', content: buffer });
+      buffer = '';
+      open = isDouble ? 'display' : 'inline';
+      if (isDouble) i++;
+    } else if (open === 'inline') {
+      segments.push({ kind: 'math', content: buffer, display: false });
+      buffer = '';
+      open = null;
+    } else {
+      if (!isDouble) return null;
+      segments.push({ kind: 'math', content: buffer, display: true });
+      buffer = '';
+      open = null;
+      i++;
+    }
+  }
+
+  if (open !== null) return null;
+  if (buffer) segments.push({ kind: 'text', content: buffer });
+  return segments;
+}
+
+function joinSegments(segments: Segment[]): string {
+  return segments
+    .map(s => (s.kind === 'text' ? s.content : s.display ? `$$${s.content}$$` : `$${s.content}$`))
+    .join('');
+}
+
+type WordKind = 'math' | 'number' | 'prose' | 'connector' | 'ambiguous';
+
+interface Word {
+  kind: WordKind;
+  /** Original text of the word. */
+  raw: string;
+  /** LaTeX to emit when the word ends up inside a math span. */
+  latex: string;
+  /** Trailing prose punctuation split off the word. */
+  trailing: string;
+}
+
+function convertFunctions(expr: string): string {
+  return expr.replace(/\\?[A-Za-z]+/g, atom => {
+    if (atom.startsWith('\\')) return atom;
+    if (FUNCTION_COMMANDS[atom]) return FUNCTION_COMMANDS[atom];
+    return FUNCTION_NAMES.includes(atom) ? `\\${atom}` : atom;
+  });
+}
+
+function convertSymbols(word: string): string {
+  let result = '';
+  for (let i = 0; i < word.length; i++) {
+    const command = SYMBOL_COMMANDS[word[i]];
+    if (!command) {
+      result += word[i];
+      continue;
+    }
+    const next = word[i + 1];
+    const needsSpace = next !== undefined && /[A-Za-z0-9]/.test(next);
+    const prev = result[result.length - 1];
+    result += (prev && prev !== ' ' && /\\?[A-Za-z0-9)]/.test(prev) ? ' ' : '') + command + (needsSpace ? ' ' : '');
+  }
+  for (const [op, command] of Object.entries(OPERATOR_COMMANDS)) {
+    result = result.split(op).join(` ${command} `).replace(/\s+/g, ' ').trim();
+  }
+  return result;
+}
+
+function classifyWord(raw: string, language: ContentLanguage): Word {
+  let core = raw;
+  let trailing = '';
+  if (!PROSE_ABBREVIATIONS.has(core) && core !== 's.t.') {
+    const match = core.match(/[,;:!?.]+$/);
+    if (match && match.index! > 0) {
+      trailing = match[0];
+      core = core.slice(0, match.index);
+    }
+  }
+
+  const word = (kind: WordKind, latex = core): Word => ({ kind, raw: core, latex, trailing });
+
+  // English compounds such as "x-axis" or "n-dimensional": only the variable is math.
+  if (language === 'en' && !PROSE_COMPOUNDS.has(core.toLowerCase())) {
+    const compound = core.match(/^([A-Za-z](?:_\{?[A-Za-z0-9]+\}?)?)-([A-Za-z]{2,}(?:-[A-Za-z]{2,})*)$/);
+    if (compound && !/^[aAI]$/.test(compound[1])) {
+      return { kind: 'math', raw: compound[1], latex: compound[1], trailing: `-${compound[2]}${trailing}` };
+    }
+  }
+
+  if (core === 'in') return word('connector', '\\in');
+  if (core === 's.t.') return word('connector', '\\text{s.t.}');
+  if (/^(=|\+|-|\*|\/|<|>|<=|>=|!=|->)$/.test(core)) return word('connector', convertSymbols(core));
+  if (PROSE_ABBREVIATIONS.has(core)) return word('prose');
+
+  if (core.includes('\\$')) return word('prose');
+  if (core.includes('\\') || [...core].some(ch => SYMBOL_COMMANDS[ch])) {
+    const converted = convertSymbols(core);
+    const commands = converted.match(/\\[A-Za-z]+/g) || [];
+    if (commands.some(c => c === '\\begin' || c === '\\end')) return word('ambiguous');
+    if (converted.trim().startsWith('\\') && commands.length === 1 && converted.trim() === commands[0]) {
+      return word(core.includes('\\') ? 'math' : 'connector', converted.trim());
+    }
+    return word('math', convertFunctions(converted));
+  }
+
+  // Single variables with optional subscript, superscript, prime or index digit.
+  if (/^[A-Za-z](?:_\{?[A-Za-z0-9]+\}?|\^\{?[A-Za-z0-9*+\-]+\}?|'+|[0-9])*$/.test(core)) {
+    return word('math');
+  }
+  if (FUNCTION_NAMES.includes(core)) return word('math', convertFunctions(core));
+  if (/^[0-9]+(?:\.[0-9]+)?$/.test(core)) return word('number');
+  if (/^[0-9]+(?:\.[0-9]+)?%$/.test(core)) return word('prose');
+  if (/^[,;:!?.()[\]"'“”]+$/.test(core)) return word('prose');
+  if (/^[A-Za-z]{2,}(?:-[A-Za-z]{2,})*$/.test(core)) return word('prose');
+
+  if (/^[A-Za-z0-9_^{}()[\],=<>+\-*/|'.!]+$/.test(core) && /[=<>+\-*/^_(|]/.test(core)) {
+    const atoms = core.match(/[A-Za-z]+/g) || [];
+    const valid = atoms.every(a => a.length <= 2 || FUNCTION_NAMES.includes(a));
+    if (valid && atoms.length > 0) return word('math', convertSymbols(convertFunctions(core)));
+  }
+
+  return word('ambiguous');
+}
+
+interface WrapOutcome {
+  segments: Segment[];
+  ambiguous: string[];
+}
+
+/**
+ * Finds bare math in a prose segment and turns it into math segments.
+ * `atSentenceStart` tells whether the segment opens the text.
+ */
+function wrapText(content: string, language: ContentLanguage, atSentenceStart: boolean): WrapOutcome {
+  const segments: Segment[] = [];
+  const ambiguous: string[] = [];
+  let prose = '';
+
+  const flushProse = () => {
+    if (prose) segments.push({ kind: 'text', content: prose });
+    prose = '';
+  };
+
+  // CJK text is always prose; only the runs in between can contain math.
+  const runs = content.split(new RegExp(`(${CJK_CHAR.source}+)`));
+  for (const run of runs) {
+    if (!run) continue;
+    if (CJK_CHAR.test(run[0])) {
+      prose += run;
+      continue;
+    }
+
+    const pieces = run.split(/(\s+)/);
+    const words = pieces.map((piece, i) => (i % 2 === 0 && piece ? classifyWord(piece, language) : null));
+
+    // A single a, A or I next to words can be an article, the pronoun or a
+    // variable ("the matrix A is", "let a be"). Only an English sentence that
+    // opens with one before a lowercase word ("A point", "I think") reads as
+    // prose; everywhere else the choice is left to the model.
+    words.forEach((w, i) => {
+      if (!w || w.kind !== 'math' || !/^[aAI]$/.test(w.raw)) return;
+      const before = words[i - 2];
+      const after = words[i + 2];
+      if (![before, after].some(n => n && n.kind === 'prose')) return;
+      const startsSentence = before
+        ? !PROSE_ABBREVIATIONS.has(before.raw) && /[.!?]$/.test(before.raw + before.trailing)
+        : atSentenceStart && !prose && !segments.length;
+      const beforeNoun = !w.trailing && after?.kind === 'prose' && /^[a-z]+$/.test(after.raw) &&
+        !VARIABLE_FOLLOWERS.has(after.raw);
+      w.kind = language === 'en' && startsSentence && beforeNoun ? 'prose' : 'ambiguous';
+    });
+
+    const isMathAt = (i: number) => words[i]?.kind === 'math';
+    const isConnectorAt = (i: number) => words[i]?.kind === 'connector';
+
+    let span: string[] = [];
+    let lastJoined: WordKind | null = null;
+    const flushSpan = (trailing: string) => {
+      lastJoined = null;
+      if (span.length) {
+        flushProse();
+        segments.push({ kind: 'math', content: span.join(' '), display: false });
+        span = [];
+      }
+      prose += trailing;
+    };
+
+    // Whitespace is held back until we know whether it sits inside a math span.
+    let pending = '';
+    for (let i = 0; i < pieces.length; i++) {
+      const w = words[i];
+      if (!w) {
+        pending += pieces[i];
+        continue;
+      }
+
+      // Numbers only count as math when an operator ties them to a variable.
+      const joinsMath = w.kind === 'math' ||
+        (w.kind === 'connector' && (span.length > 0 || isMathAt(i + 2)) &&
+          (w.raw !== 'in' || (span.length > 0 && isMathAt(i + 2)))) ||
+        (w.kind === 'number' && ((span.length > 0 && lastJoined === 'connector') ||
+          (isConnectorAt(i + 2) && isMathAt(i + 4))));
+
+      if (joinsMath) {
+        if (!span.length) prose += pending;
+        pending = '';
+        span.push(w.latex);
+        lastJoined = w.kind;
+        if (w.trailing) flushSpan(w.trailing);
+        continue;
+      }
+
+      flushSpan('');
+      prose += pending;
+      pending = '';
+      if (w.kind === 'ambiguous') ambiguous.push(w.raw);
+      prose += w.raw + w.trailing;
+    }
+    flushSpan('');
+    prose += pending;
+  }
+
+  flushProse();
+  return { segments, ambiguous };
+}
+
+/** Merges inline math blocks separated only by whitespace. */
+function mergeAdjacent(segments: Segment[]): Segment[] {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    const beforeLast = merged[merged.length - 2];
+    if (segment.kind === 'math' && !segment.display) {
+      if (last && last.kind === 'math' && !last.display) {
+        last.content = `${last.content.trim()} ${segment.content.trim()}`;
+        continue;
+      }
+      if (last && last.kind === 'text' && /^\s+$/.test(last.content) &&
+          beforeLast && beforeLast.kind === 'math' && !beforeLast.display) {
+        merged.pop();
+        beforeLast.content = `${beforeLast.content.trim()} ${segment.content.trim()}`;
+        continue;
+      }
+    }
+    merged.push({ ...segment });
+  }
+  return merged;
+}
+
+/**
+ * Normalizes a single string with the given rules, reading its prose as
+ * `language`.
+ */
+export function normalizeLatexText(text: string, rules: NormalizeRule[] = ALL_RULES, language: ContentLanguage = 'zh'): NormalizeResult {
+  const issues: string[] = [];
+  let working = rules.includes('escape') ? repairEscapes(text) : text;
+  if (rules.includes('escape') && hasAmbiguousLineBreak(working)) {
+    issues.push(t('normalizer.ambiguousLineBreak'));
+  }
+
+  const segments = splitMath(working);
+  if (!segments) {
+    return { text: working, changed: working !== text, confident: false, issues: [t('normalizer.unclosedDollar')] };
+  }
+
+  let next: Segment[] = segments;
+  if (rules.includes('wrap')) {
+    next = [];
+    for (const segment of segments) {
+      if (segment.kind === 'math') {
+        next.push(segment);
+        continue;
+      }
+      const outcome = wrapText(segment.content, language, next.length === 0);
+      next.push(...outcome.segments);
+      outcome.ambiguous.forEach(word => issues.push(t('normalizer.ambiguousWord', { word })));
+    }
+  }
+
+  if (rules.includes('merge')) {
+    next = mergeAdjacent(next);
+  }
+
+  working = joinSegments(next);
+  if (/[\b\f\v]/.test(working)) {
+    issues.push(t('normalizer.controlCharacter'));
+  }
+
+  return { text: working, changed: working !== text, confident: issues.length === 0, issues };
+}
+
+export const CONTENT_LANGUAGE_LABELS: Record<ContentLanguage, MessageKey> = {
+  zh: 'language.zh',
+  en: 'language.en',
+};
+
+/**
+ * Guesses the language of the prose around the math: Chinese when CJK
+ * characters outnumber Latin words, English otherwise. Text without either
+ * counts as Chinese, the language the tool started with.
+ */
+export function detectContentLanguage(texts: Iterable<string>): ContentLanguage {
+  let cjk = 0;
+  let latinWords = 0;
+  for (const text of texts) {
+    const prose = (splitMath(text) ?? [{ kind: 'text' as const, content: text }])
+      .filter(segment => segment.kind === 'text')
+      .map(segment => segment.content)
+      .join(' ');
+    cjk += (prose.match(new RegExp(CJK_CHAR.source, 'g')) ?? []).length;
+    // Two-letter runs are as likely to be math (Ax, ij) as words.
+    latinWords += (prose.match(/[A-Za-z]{3,}/g) ?? []).length;
+  }
+  return latinWords > cjk ? 'en' : 'zh';
+}
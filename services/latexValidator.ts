@@ -0,0 +1,62 @@
+import katex from "katex";
+import { splitMath } from "./latexNormalizer";
+import { MessageKey, t } from "./i18n";
+
+export type LatexIssueKind = 'unbalanced-dollar' | 'unbalanced-brace' | 'unknown-command' | 'parse-error';
+
+export interface LatexIssue {
+  kind: LatexIssueKind;
+  message: string;
+  /** The offending math source, when the issue is inside a math segment. */
+  source?: string;
+}
+
+/** Checks `{`/`}` nesting, ignoring escaped braces. */
+function bracesBalanced(math: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < math.length; i++) {
+    if (math[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (math[i] === '{') depth++;
+    if (math[i] === '}' && --depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+/**
+ * Renders one math segment with KaTeX and reports why it fails, if it does.
+ */
+export function validateMath(math: string, displayMode = false): LatexIssue | null {
+  if (!bracesBalanced(math)) {
+    return { kind: 'unbalanced-brace', message: t('latex.unbalancedBraceMessage'), source: math };
+  }
+  try {
+    katex.renderToString(math, { displayMode, throwOnError: true, strict: 'ignore' });
+    return null;
+  } catch (e) {
+    // ParseError.rawMessage omits the underlined source excerpt KaTeX appends.
+    const message = e instanceof katex.ParseError ? e.rawMessage : e instanceof Error ? e.message : String(e);
+    const kind: LatexIssueKind = /Undefined control sequence/.test(message) ? 'unknown-command' : 'parse-error';
+    return { kind, message, source: math };
+  }
+}
+
+/** Validates every math segment of a text. An empty array means it renders cleanly. */
+export function validateLatex(text: string): LatexIssue[] {
+  const segments = splitMath(text);
+  if (!segments) {
+    return [{ kind: 'unbalanced-dollar', message: t('latex.unclosedDollarMessage') }];
+  }
+  return segments.flatMap(segment =>
+    segment.kind === 'math' ? [validateMath(segment.content, segment.display)].filter((i): i is LatexIssue => i !== null) : []
+  );
+}
+
+export const LATEX_ISSUE_LABELS: Record<LatexIssueKind, MessageKey> = {
+  'unbalanced-dollar': 'latex.kind.unbalancedDollar',
+  'unbalanced-brace': 'latex.kind.unbalancedBrace',
+  'unknown-command': 'latex.kind.unknownCommand',
+  'parse-error': 'latex.kind.parseError',
+};
@@ -0,0 +1,125 @@
+import { ProviderSettings, ProviderKind } from "../types";
+import { MessageKey } from "./i18n";
+
+/**
+ * Provider-neutral subset of JSON Schema used to describe the batch response.
+ * Each provider translates it into its own structured-output format.
+ */
+export interface JsonSchema {
+  type: 'array' | 'object' | 'string' | 'integer';
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface GenerateRequest {
+  systemInstruction: string;
+  /** Instruction text sent ahead of the payload. */
+  prompt: string;
+  payload: unknown;
+  schema: JsonSchema;
+  /** Cancels the request when the run is cancelled. */
+  signal?: AbortSignal;
+}
+
+/**
+ * `quota` is a budget that will not come back within the run, e.g. a daily
+ * token limit; unlike `rate_limit` it is not worth waiting for.
+ */
+export type LlmErrorKind = 'rate_limit' | 'quota' | 'auth' | 'malformed' | 'network' | 'aborted' | 'unknown';
+
+export class LlmError extends Error {
+  constructor(
+    public readonly kind: LlmErrorKind,
+    message: string,
+    public readonly status?: number,
+    /** Server-provided hint for when to retry, if any. */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+/** Errors every further request would hit too, so a run stops at the first one. */
+export function isFatalError(error: LlmError): boolean {
+  return error.kind === 'auth' || error.kind === 'quota';
+}
+
+export interface LlmProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  /** Sends one request and returns the parsed JSON response. */
+  generateJson(request: GenerateRequest): Promise<unknown>;
+  /** Maps any error thrown by `generateJson` onto an `LlmError`. */
+  classifyError(error: unknown): LlmError;
+}
+
+export const PROVIDER_LABELS: Record<ProviderKind, MessageKey> = {
+  gemini: 'provider.gemini',
+  openai: 'provider.openai',
+  proxy: 'provider.proxy',
+  mock: 'provider.mock',
+};
+
+export const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  proxy: 'gemini-3-flash-preview',
+  mock: 'mock-normalizer',
+};
+
+// The web app talks to the proxy by default, so no key has to reach the browser.
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  kind: 'proxy',
+  model: DEFAULT_MODELS.proxy,
+};
+
+/**
+ * Parses a model response body, raising a `malformed` error instead of a bare
+ * SyntaxError so callers can classify it.
+ */
+export function parseJsonResponse(text: string | undefined | null): unknown {
+  if (!text) {
+    throw new LlmError('malformed', 'Empty response from model');
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new LlmError('malformed', `Model returned invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/** Reads a `Retry-After` header (seconds or an HTTP date) as milliseconds. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Shared fallback classification based on HTTP status and message text.
+ */
+export function classifyByStatus(error: unknown, status?: number, retryAfterMs?: number): LlmError {
+  if (error instanceof LlmError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if ((error as any)?.name === 'AbortError') {
+    return new LlmError('aborted', message);
+  }
+  if (status === 429 || message.includes('429') || message.includes('RESOURCE_EXHAUSTED')) {
+    return new LlmError('rate_limit', message, 429, retryAfterMs);
+  }
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new LlmError('auth', message, status);
+  }
+  if (error instanceof SyntaxError) {
+    return new LlmError('malformed', message);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new LlmError('network', message);
+  }
+  return new LlmError('unknown', message, status);
+}
@@ -0,0 +1,61 @@
+import { normalizeLatexText } from "./latexNormalizer";
+import { GenerateRequest, LlmError, LlmProvider, classifyByStatus } from "./llmProvider";
+import { abortableDelay, throwIfAborted } from "./runController";
+
+/** A canned reply: a value to return, or an error to throw. */
+export type MockResponse = unknown | Error;
+
+export interface MockProviderOptions {
+  model?: string;
+  /** Replies consumed in order, one per request. */
+  responses?: MockResponse[];
+  /** Artificial latency per request, in milliseconds. */
+  latencyMs?: number;
+}
+
+/**
+ * Deterministic offline provider. It replays `responses` in order and, once
+ * they run out, answers by running every string field of the payload through
+ * the local normalizer. Lets the whole pipeline run without network access.
+ */
+export class MockProvider implements LlmProvider {
+  readonly kind = 'mock' as const;
+  readonly model: string;
+  /** Every request received, for inspection by callers. */
+  readonly requests: GenerateRequest[] = [];
+  private readonly responses: MockResponse[];
+  private readonly latencyMs: number;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.model = options.model ?? 'mock-normalizer';
+    this.responses = [...(options.responses ?? [])];
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  async generateJson(request: GenerateRequest): Promise<unknown> {
+    this.requests.push(request);
+    if (this.latencyMs > 0) {
+      await abortableDelay(this.latencyMs, request.signal);
+    }
+    throwIfAborted(request.signal);
+
+    if (this.responses.length > 0) {
+      const next = this.responses.shift();
+      if (next instanceof Error) throw next;
+      return next;
+    }
+
+    const items = Array.isArray(request.payload) ? request.payload : [request.payload];
+    return items.map((item: any) =>
+      Object.fromEntries(
+        Object.entries(item).map(([key, value]) =>
+          [key, typeof value === 'string' ? normalizeLatexText(value).text : value]
+        )
+      )
+    );
+  }
+
+  classifyError(error: unknown): LlmError {
+    return classifyByStatus(error);
+  }
+}
@@ -0,0 +1,74 @@
+import { GenerateRequest, LlmError, LlmProvider, classifyByStatus, parseJsonResponse, parseRetryAfter } from "./llmProvider";
+
+class HttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Provider for any endpoint implementing the OpenAI chat completions API
+ * (OpenAI itself, DeepSeek, a local vLLM/Ollama server, ...).
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly kind = 'openai' as const;
+
+  constructor(
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async generateJson(request: GenerateRequest): Promise<unknown> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: `${request.prompt}\n${JSON.stringify(request.payload)}` },
+        ],
+        // Chat completions require an object at the top level, so arrays are wrapped.
+        // Not strict: strict mode rejects schemas with optional keys or without
+        // `additionalProperties: false`, and batch schemas have fields only some items carry.
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'normalized_items',
+            strict: false,
+            schema: {
+              type: 'object',
+              properties: { items: request.schema },
+              required: ['items'],
+            },
+          },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new HttpError(
+        `HTTP ${response.status}: ${body.slice(0, 200)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const json = await response.json();
+    const parsed = parseJsonResponse(json?.choices?.[0]?.message?.content) as any;
+    return parsed && typeof parsed === 'object' && 'items' in parsed ? parsed.items : parsed;
+  }
+
+  classifyError(error: unknown): LlmError {
+    if (error instanceof HttpError) {
+      return classifyByStatus(error, error.status, error.retryAfterMs);
+    }
+    return classifyByStatus(error);
+  }
+}
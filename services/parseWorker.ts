@@ -0,0 +1,39 @@
+import { StreamingJsonParser } from "./streamingJsonParser";
+import { hashBytes } from "./checkpointStore";
+
+/**
+ * Web Worker that streams a JSON file through `StreamingJsonParser`, so large
+ * uploads neither block the UI nor exist as one giant string. Started by
+ * `parseJsonFile`; see there for the message protocol.
+ */
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'done'; data: unknown; hash: string }
+  | { type: 'error'; message: string };
+
+const post = (message: ParseWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<File>) => {
+  const file = event.data;
+  try {
+    const parser = new StreamingJsonParser();
+    const decoder = new TextDecoder();
+    const reader = file.stream().getReader();
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.write(decoder.decode(value, { stream: true }));
+      loaded += value.byteLength;
+      post({ type: 'progress', loaded, total: file.size });
+    }
+    parser.write(decoder.decode());
+    const data = parser.end();
+    // The checkpoint key is the hash of the raw bytes, read again once parsing is done.
+    const hash = await hashBytes(await file.arrayBuffer());
+    post({ type: 'done', data, hash });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
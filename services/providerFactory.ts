@@ -0,0 +1,19 @@
+import { ProviderSettings } from "../types";
+import { LlmProvider } from "./llmProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAiCompatibleProvider } from "./openAiProvider";
+import { MockProvider } from "./mockProvider";
+import { DEFAULT_PROXY_URL, ProxyProvider } from "./proxyProvider";
+
+export function createProvider(settings: ProviderSettings): LlmProvider {
+  switch (settings.kind) {
+    case 'gemini':
+      return new GeminiProvider(settings.model, settings.apiKey);
+    case 'openai':
+      return new OpenAiCompatibleProvider(settings.model, settings.baseUrl || 'https://api.openai.com/v1', settings.apiKey);
+    case 'proxy':
+      return new ProxyProvider(settings.model, settings.baseUrl || DEFAULT_PROXY_URL);
+    case 'mock':
+      return new MockProvider({ model: settings.model });
+  }
+}
@@ -0,0 +1,106 @@
+import { GenerateRequest, JsonSchema, LlmError, LlmErrorKind, LlmProvider, classifyByStatus, parseRetryAfter } from "./llmProvider";
+import { MessageKey, MessageParams, t } from "./i18n";
+
+/** Same-origin path of the proxy; the Vite dev server forwards it to `npm run proxy`. */
+export const DEFAULT_PROXY_URL = '/api';
+
+/** Body of `POST <proxy>/generate`. */
+export interface ProxyRequestBody {
+  model: string;
+  systemInstruction: string;
+  prompt: string;
+  payload: unknown;
+  schema: JsonSchema;
+}
+
+export interface ProxySuccessBody {
+  result: unknown;
+}
+
+/** Reasons the proxy itself turns a request down, as opposed to upstream errors. */
+export type ProxyErrorCode =
+  | 'bodyTooLarge'
+  | 'invalidJson'
+  | 'missingText'
+  | 'invalidPayload'
+  | 'modelNotAllowed'
+  | 'tooManyRequests'
+  | 'clientTokensExhausted'
+  | 'serviceTokensExhausted';
+
+export const PROXY_ERROR_MESSAGES: Record<ProxyErrorCode, MessageKey> = {
+  bodyTooLarge: 'proxy.bodyTooLarge',
+  invalidJson: 'proxy.invalidJson',
+  missingText: 'proxy.missingText',
+  invalidPayload: 'proxy.invalidPayload',
+  modelNotAllowed: 'proxy.modelNotAllowed',
+  tooManyRequests: 'proxy.tooManyRequests',
+  clientTokensExhausted: 'proxy.clientTokensExhausted',
+  serviceTokensExhausted: 'proxy.serviceTokensExhausted',
+};
+
+/**
+ * Error replies carry the upstream classification so clients react the same
+ * way. Refusals by the proxy also carry a code, which clients show in their
+ * own language; `message` is then the English text.
+ */
+export interface ProxyErrorBody {
+  error: {
+    kind: LlmErrorKind;
+    message: string;
+    retryAfterMs?: number;
+    code?: ProxyErrorCode;
+    params?: MessageParams;
+  };
+}
+
+const ERROR_KINDS: LlmErrorKind[] = ['rate_limit', 'quota', 'auth', 'malformed', 'network', 'aborted', 'unknown'];
+
+/**
+ * Sends batches to the proxy server (`server/proxyServer.ts`), which holds
+ * the API key and enforces quotas. The browser never sees the key.
+ */
+export class ProxyProvider implements LlmProvider {
+  readonly kind = 'proxy' as const;
+
+  constructor(readonly model: string, private readonly baseUrl: string = DEFAULT_PROXY_URL) {}
+
+  async generateJson(request: GenerateRequest): Promise<unknown> {
+    const body: ProxyRequestBody = {
+      model: this.model,
+      systemInstruction: request.systemInstruction,
+      prompt: request.prompt,
+      payload: request.payload,
+      schema: request.schema,
+    };
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/generate`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      let error: ProxyErrorBody['error'] | undefined;
+      try {
+        error = (JSON.parse(text) as ProxyErrorBody).error;
+      } catch {
+        // Not one of ours, e.g. a gateway error page.
+      }
+      const retryAfterMs = error?.retryAfterMs ?? parseRetryAfter(response.headers.get('retry-after'));
+      if (error && ERROR_KINDS.includes(error.kind)) {
+        const message = error.code && error.code in PROXY_ERROR_MESSAGES ? t(PROXY_ERROR_MESSAGES[error.code], error.params) : error.message;
+        throw new LlmError(error.kind, message, response.status, retryAfterMs);
+      }
+      throw classifyByStatus(new Error(`HTTP ${response.status}: ${text.slice(0, 200)}`), response.status, retryAfterMs);
+    }
+
+    const json = (await response.json()) as ProxySuccessBody;
+    return json.result;
+  }
+
+  classifyError(error: unknown): LlmError {
+    return classifyByStatus(error);
+  }
+}
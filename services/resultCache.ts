@@ -0,0 +1,102 @@
+import { RESULT_CACHE_STORE, clearStore, getAll, getMany, putAll } from "./idb";
+import { hashContent } from "./checkpointStore";
+import { LlmProvider } from "./llmProvider";
+import { RuleProfile, buildSystemInstruction, localizeProfile } from "./ruleProfiles";
+import { t } from "./i18n";
+import { ContentLanguage } from "../types";
+
+/**
+ * Model output for one unit, keyed by the content it was produced from rather
+ * than by file or position: the same concept in another file, another place
+ * in the tree or a re-uploaded knowledge base maps to the same entry.
+ */
+export interface CacheEntry {
+  /** Hash of the cache version plus the normalized input fields. */
+  key: string;
+  /** Input values keyed by field key (`name`, `description`, …). */
+  input: Record<string, string>;
+  /** Output values keyed by field key. */
+  output: Record<string, string>;
+  model: string;
+  profileName: string;
+  createdAt: number;
+}
+
+export interface ResultCache {
+  /** Returns the entries found, keyed by cache key. */
+  getMany(keys: string[]): Promise<Map<string, CacheEntry>>;
+  putMany(entries: CacheEntry[]): Promise<void>;
+  list(): Promise<CacheEntry[]>;
+  clear(): Promise<void>;
+}
+
+export const indexedDbResultCache: ResultCache = {
+  getMany: async (keys) => {
+    const found = await getMany<CacheEntry>(RESULT_CACHE_STORE, keys);
+    return new Map(found.filter((entry): entry is CacheEntry => entry !== undefined).map(entry => [entry.key, entry]));
+  },
+  putMany: (entries) => putAll(RESULT_CACHE_STORE, entries),
+  list: () => getAll<CacheEntry>(RESULT_CACHE_STORE),
+  clear: () => clearStore(RESULT_CACHE_STORE),
+};
+
+/** In-memory cache, e.g. for the CLI to load from and save to a file. */
+export function createMemoryResultCache(initial: CacheEntry[] = []): ResultCache {
+  const entries = new Map(initial.map(entry => [entry.key, entry]));
+  return {
+    getMany: async (keys) => new Map(keys.flatMap(key => (entries.has(key) ? [[key, entries.get(key)!] as const] : []))),
+    putMany: async (added) => added.forEach(entry => entries.set(entry.key, entry)),
+    list: async () => Array.from(entries.values()),
+    clear: async () => entries.clear(),
+  };
+}
+
+/**
+ * Identifies everything besides the input that shapes a result: provider,
+ * model and the full prompt for the content language. Editing a profile
+ * therefore starts a fresh cache for it instead of serving answers to the
+ * old instructions.
+ */
+export function cacheVersion(provider: LlmProvider, profile: RuleProfile, language: ContentLanguage = 'zh'): Promise<string> {
+  return hashContent(JSON.stringify([
+    provider.kind,
+    provider.model,
+    buildSystemInstruction(profile, language),
+    localizeProfile(profile, language).prompt,
+    profile.responseSchema,
+  ]));
+}
+
+/** Ignores differences that do not change the content: Unicode form, line endings, trailing spaces. */
+export function normalizeCacheInput(text: string): string {
+  return text.normalize('NFC').replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+export function cacheKey(version: string, input: Record<string, string>): Promise<string> {
+  const fields = Object.keys(input).sort().map(key => [key, normalizeCacheInput(input[key])]);
+  return hashContent(JSON.stringify([version, fields]));
+}
+
+export function summarizeCache(entries: CacheEntry[]) {
+  const byModel = new Map<string, number>();
+  entries.forEach(entry => byModel.set(entry.model, (byModel.get(entry.model) ?? 0) + 1));
+  return {
+    count: entries.length,
+    /** Rough size of the stored text in bytes. */
+    bytes: entries.reduce((sum, entry) => sum + JSON.stringify(entry).length, 0),
+    byModel,
+  };
+}
+
+export function exportCache(entries: CacheEntry[]): string {
+  return JSON.stringify({ version: 1, entries }, null, 2);
+}
+
+/** Reads a file written by `exportCache`. */
+export function parseCacheExport(text: string): CacheEntry[] {
+  const parsed = JSON.parse(text);
+  if (!parsed || !Array.isArray(parsed.entries)) throw new Error(t('cache.invalidFile'));
+  return parsed.entries.filter((entry: any) =>
+    typeof entry?.key === 'string' && entry.output !== null && typeof entry.output === 'object'
+  );
+}
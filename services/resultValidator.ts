@@ -0,0 +1,190 @@
+import { CJK_CHAR, splitMath } from "./latexNormalizer";
+import { t } from "./i18n";
+import { ContentLanguage } from "../types";
+
+/**
+ * Checks model output against its input before it is written back. The model
+ * may only move text into math and add LaTeX markup; anything that rewrites
+ * prose, drops math or points at the wrong item is rejected.
+ */
+
+export interface ValidatedResult {
+  index: number;
+  result: Record<string, unknown>;
+}
+
+export interface RejectedResult {
+  index: number;
+  reason: string;
+}
+
+export interface BatchValidation {
+  accepted: ValidatedResult[];
+  rejected: RejectedResult[];
+}
+
+// Equivalent spellings that should not count as a lost math token.
+const COMMAND_ALIASES: Record<string, string> = {
+  '\\leq': '\\le',
+  '\\geq': '\\ge',
+  '\\ne': '\\neq',
+  '\\rightarrow': '\\to',
+  '\\lbrace': '\\{',
+  '\\rbrace': '\\}',
+};
+
+const CJK = new RegExp(CJK_CHAR.source, 'g');
+
+function proseOf(text: string): string {
+  const segments = splitMath(text) ?? [{ kind: 'text' as const, content: text }];
+  return segments.filter(s => s.kind === 'text').map(s => s.content).join(' ');
+}
+
+/** Command names used in the math of a text, `\operatorname{rank}` and `\arg\min` read as one name. */
+function mathCommands(text: string): Set<string> {
+  const math = (splitMath(text) ?? []).filter(s => s.kind === 'math').map(s => s.content).join(' ');
+  const normalized = math.replace(/\\operatorname\{(\w+)\}/g, '\\$1').replace(/\\arg\\(min|max)/g, '\\arg$1');
+  return new Set((normalized.match(/\\[A-Za-z]+/g) ?? []).map(command => command.slice(1)));
+}
+
+function mathTokens(text: string): string[] {
+  const segments = splitMath(text) ?? [];
+  return segments
+    .filter(s => s.kind === 'math')
+    .flatMap(s => s.content.match(/\\[A-Za-z]+|[A-Za-z]|[0-9]+/g) ?? [])
+    .map(token => COMMAND_ALIASES[token] ?? token);
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0;
+  for (let j = 0; j < haystack.length && i < needle.length; j++) {
+    if (needle[i] === haystack[j]) i++;
+  }
+  return i === needle.length;
+}
+
+/**
+ * Notation a profile asks the model to replace: an input math token or word,
+ * and the command that may stand for it in the output (`P` → `\Pr`).
+ */
+export type Substitutions = Record<string, string>;
+
+/**
+ * Validates a single field whose prose is in `language`. Returns a reason when
+ * the output must not be applied. A token or word replaced as `substitutions`
+ * allow does not count as lost.
+ */
+export function validateField(
+  input: string,
+  output: unknown,
+  language: ContentLanguage = 'zh',
+  substitutions: Substitutions = {}
+): string | null {
+  if (typeof output !== 'string') {
+    return t('validator.notString');
+  }
+  if (!splitMath(output)) {
+    return t('validator.unbalancedDollar');
+  }
+
+  // Prose left in the output must come from the input: nothing invented or reworded.
+  const outputProse = proseOf(output).replace(/\s+/g, '');
+  if (!isSubsequence(outputProse, input.replace(/\s+/g, ''))) {
+    return t('validator.proseRewritten');
+  }
+
+  // CJK text never moves into math, so it must survive unchanged and in order.
+  const inputCjk = (input.match(CJK) ?? []).join('');
+  const outputCjk = (proseOf(output).match(CJK) ?? []).join('');
+  if (inputCjk !== outputCjk) {
+    return t('validator.cjkChanged');
+  }
+
+  // A token or word the profile replaces counts as kept when its replacement is in the output math.
+  const outputTokens = new Map<string, number>();
+  mathTokens(output).forEach(token => outputTokens.set(token, (outputTokens.get(token) ?? 0) + 1));
+  const alternatives = new Map(Object.entries(substitutions));
+  const replacement = (token: string) => {
+    const command = alternatives.get(token);
+    return command !== undefined ? COMMAND_ALIASES[command] ?? command : undefined;
+  };
+  const substituted = (word: string) => {
+    const command = replacement(word);
+    return command !== undefined && outputTokens.has(command);
+  };
+
+  // Latin words may end up in math (e.g. \text{...}) but must not disappear.
+  const words = proseOf(input).match(/[A-Za-z]{3,}/g) ?? [];
+  const missingWord = words.find(word => !output.includes(word) && !substituted(word));
+  if (missingWord) {
+    return t('validator.wordMissing', { word: missingWord });
+  }
+
+  // English sentences fall apart when their words move into math; only
+  // function names such as "min" or "rank" may become commands.
+  if (language === 'en') {
+    const outputProse = proseOf(output);
+    const commands = mathCommands(output);
+    const movedWord = words.find(word => !outputProse.includes(word) && !commands.has(word) && !substituted(word));
+    if (movedWord) {
+      return t('validator.wordInMath', { word: movedWord });
+    }
+  }
+
+  // Existing math may be extended, never reduced.
+  for (const token of mathTokens(input)) {
+    const spelling = [token, replacement(token)].find(s => s !== undefined && (outputTokens.get(s) ?? 0) > 0);
+    if (spelling === undefined) {
+      return t('validator.mathTokenMissing', { token });
+    }
+    outputTokens.set(spelling, outputTokens.get(spelling)! - 1);
+  }
+
+  return null;
+}
+
+/**
+ * Matches results to payload items by `_index` and validates each one. Items
+ * with a missing, duplicated or invalid result are rejected with a reason.
+ */
+export function validateBatchResults(
+  payload: Record<string, unknown>[],
+  results: unknown[],
+  language: ContentLanguage = 'zh',
+  substitutions: Substitutions = {}
+): BatchValidation {
+  const byIndex = new Map<number, Record<string, unknown>[]>();
+  results.forEach(result => {
+    const index = (result as any)?._index;
+    if (Number.isInteger(index) && index >= 0 && index < payload.length) {
+      byIndex.set(index, [...(byIndex.get(index) ?? []), result as Record<string, unknown>]);
+    }
+  });
+
+  const accepted: ValidatedResult[] = [];
+  const rejected: RejectedResult[] = [];
+
+  payload.forEach((item, index) => {
+    const matches = byIndex.get(index) ?? [];
+    if (matches.length === 0) {
+      rejected.push({ index, reason: t('validator.indexMissing') });
+      return;
+    }
+    if (matches.length > 1) {
+      rejected.push({ index, reason: t('validator.indexDuplicated') });
+      return;
+    }
+    const result = matches[0];
+    for (const [key, value] of Object.entries(item)) {
+      if (key === '_index' || typeof value !== 'string') continue;
+      const reason = validateField(value, result[key], language, substitutions);
+      if (reason) {
+        rejected.push({ index, reason: `${key}: ${reason}` });
+        return;
+      }
+    }
+    accepted.push({ index, result });
+  });
+
+  return { accepted, rejected };
+}
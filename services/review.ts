@@ -0,0 +1,149 @@
+import { FieldRule } from "../types";
+import { findProcessableUnits } from "./fieldSelector";
+import { PathWriter, formatPath, getAtPath, parsePath } from "./jsonPath";
+import { onlyDollarsChanged } from "./textDiff";
+
+export type ReviewDecision = 'pending' | 'accepted' | 'rejected';
+
+/** One field whose value differs between the original and processed data. */
+export interface FieldChange {
+  /** Formatted path of the field, unique per change. */
+  path: string;
+  /** Formatted path of the owning unit, used to group changes per item. */
+  unitPath: string;
+  key: string;
+  before: string;
+  after: string;
+  decision: ReviewDecision;
+  /** Manual replacement for `after`, set when the reviewer edits inline. */
+  edited?: string;
+}
+
+/** A field the item editor can change, by formatted path. */
+export interface EditableField {
+  path: string;
+  unitPath: string;
+  key: string;
+  /** False for fields outside the field rules, which only change by hand. */
+  selected: boolean;
+}
+
+export interface EditableUnit {
+  unitPath: string;
+  fields: EditableField[];
+}
+
+/** Lists every selected field the processing run changed. */
+export function collectChanges(original: any, processed: any, fieldRules: FieldRule[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const unit of findProcessableUnits(original, fieldRules)) {
+    for (const field of unit.fields) {
+      const before = getAtPath(original, field.path);
+      const after = getAtPath(processed, field.path);
+      if (typeof after === 'string' && after !== before) {
+        changes.push({
+          path: formatPath(field.path),
+          unitPath: formatPath(unit.path),
+          key: field.key,
+          before,
+          after,
+          decision: 'pending',
+        });
+      }
+    }
+  }
+  return changes;
+}
+
+export function isDollarOnlyChange(change: FieldChange): boolean {
+  return onlyDollarsChanged(change.before, change.after);
+}
+
+export function finalValue(change: FieldChange): string {
+  return change.edited ?? change.after;
+}
+
+/**
+ * Builds the export: the original document with only the accepted changes
+ * applied. Pending and rejected changes keep their original value.
+ */
+export function applyAcceptedChanges(original: any, changes: FieldChange[]): any {
+  const result = new PathWriter(original);
+  changes
+    .filter(change => change.decision === 'accepted')
+    .forEach(change => result.set(parsePath(change.path), finalValue(change)));
+  return result.result;
+}
+
+/**
+ * Combines the changes of a new run with the earlier ones. Decisions and
+ * edits survive where the run produced the same output, and manual edits of
+ * fields the run did not change are kept.
+ */
+export function mergeChanges(previous: FieldChange[], next: FieldChange[]): FieldChange[] {
+  const previousByPath = new Map(previous.map(change => [change.path, change]));
+  const merged = next.map(change => {
+    const kept = previousByPath.get(change.path);
+    return kept && kept.after === change.after ? kept : change;
+  });
+  const covered = new Set(next.map(change => change.path));
+  return [...merged, ...previous.filter(change => !covered.has(change.path) && change.after === change.before)];
+}
+
+/**
+ * Takes over the selected fields of some units from `rerun`, a result in
+ * which only those units were processed again, and replaces their changes.
+ * Manual edits of the units' other fields stay.
+ */
+export function replaceUnits(
+  state: { data: any; changes: FieldChange[] },
+  original: any,
+  rerun: any,
+  fieldRules: FieldRule[],
+  unitPaths: string[]
+): { data: any; changes: FieldChange[] } {
+  const wanted = new Set(unitPaths);
+  const units = findProcessableUnits(original, fieldRules).filter(unit => wanted.has(formatPath(unit.path)));
+  const doc = new PathWriter(state.data);
+  const paths = new Set<string>();
+  for (const unit of units) {
+    for (const field of unit.fields) {
+      doc.set(field.path, getAtPath(rerun, field.path));
+      paths.add(formatPath(field.path));
+    }
+  }
+  const fresh = collectChanges(original, rerun, fieldRules).filter(change => wanted.has(change.unitPath));
+  return { data: doc.result, changes: [...state.changes.filter(change => !paths.has(change.path)), ...fresh] };
+}
+
+/**
+ * Fields the item editor offers per unit: the selected fields plus the
+ * unit's other plain string properties, such as `id` or `difficulty`.
+ */
+export function listEditableUnits(original: any, fieldRules: FieldRule[]): EditableUnit[] {
+  return findProcessableUnits(original, fieldRules).map(unit => {
+    const unitPath = formatPath(unit.path);
+    const selected = unit.fields.map(field => ({ path: formatPath(field.path), unitPath, key: field.key, selected: true }));
+    const others = Object.entries(getAtPath(original, unit.path) ?? {})
+      .filter(([key, value]) => typeof value === 'string' && !unit.fields.some(field => field.key === key))
+      .map(([key]) => ({ path: formatPath([...unit.path, key]), unitPath, key, selected: false }));
+    return { unitPath, fields: [...selected, ...others] };
+  });
+}
+
+/**
+ * Records a manual edit. The field's change gets `edited` (a field without a
+ * change gets one whose `after` is its unchanged value) and is accepted. An
+ * edit back to the processed value drops `edited`, or the whole change when
+ * nothing else is left of it.
+ */
+export function editField(changes: FieldChange[], field: EditableField, before: string, value: string): FieldChange[] {
+  const existing = changes.find(change => change.path === field.path);
+  const { path, unitPath, key } = field;
+  const { edited: _edited, ...base } = existing ?? { path, unitPath, key, before, after: before, decision: 'accepted' as ReviewDecision };
+  const next: FieldChange | null = value !== base.after
+    ? { ...base, decision: 'accepted', edited: value }
+    : base.after !== base.before ? { ...base, decision: 'accepted' } : null;
+  if (!existing) return next ? [...changes, next] : changes;
+  return next ? changes.map(change => (change === existing ? next : change)) : changes.filter(change => change !== existing);
+}
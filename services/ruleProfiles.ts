@@ -0,0 +1,282 @@
+import { JsonSchema } from "./llmProvider";
+import { Substitutions } from "./resultValidator";
+import { t } from "./i18n";
+import { ContentLanguage } from "../types";
+
+/** A worked example shown to the model: raw text and its normalized form. */
+export interface FewShotExample {
+  input: string;
+  output: string;
+}
+
+/** The parts of a profile written in the language of the content. */
+export type ProfileTexts = Pick<RuleProfile, 'instruction' | 'rules' | 'examples' | 'prompt'>;
+
+/**
+ * Everything that tells the model how to normalize one kind of knowledge
+ * base: its role and domain, the numbered rules, worked examples and the
+ * shape of each result item.
+ */
+export interface RuleProfile {
+  id: string;
+  name: string;
+  /** Opening of the system instruction: role, task and domain. */
+  instruction: string;
+  /** Numbered rules appended to the instruction. */
+  rules: string[];
+  examples: FewShotExample[];
+  /** Instruction text sent ahead of each payload. */
+  prompt: string;
+  /**
+   * Extra properties each result item must carry. The selected fields and
+   * `_index` are always added on top.
+   */
+  responseSchema: JsonSchema;
+  /**
+   * Notation the rules ask to be replaced, e.g. `P` → `\Pr`; results using
+   * the replacement pass validation instead of counting `P` as lost.
+   */
+  substitutions?: Substitutions;
+  /**
+   * Texts for content in a particular language. Languages without an entry
+   * use the top-level texts.
+   */
+  translations?: Partial<Record<ContentLanguage, ProfileTexts>>;
+}
+
+const ROLE = '你是一个专业的数学 LaTeX 和 JSON 格式化专家。';
+const TASK = '你的任务是处理传入的 JSON 对象列表，对每个对象中除 "_index" 以外的所有字符串字段（如 "name"、"description"）进行';
+const ESCAPE_RULE = '**双斜杠转义（核心）**：所有的 LaTeX 指令必须使用双反斜杠以符合 JSON 字符串规范。例如：\\\\min, \\\\mathbb{R}, \\\\in, \\\\text{s.t.}, \\\\to, \\\\le 等。';
+const DEFAULT_PROMPT = '请按照 System Instruction 处理以下数据：';
+const EMPTY_ITEM_SCHEMA: JsonSchema = { type: 'object', properties: {} };
+
+const ROLE_EN = 'You are an expert in formatting mathematical LaTeX inside JSON.';
+const TASK_EN = 'Your task is to process the incoming list of JSON objects. For every string field except "_index" (such as "name" and "description"), clean up and standardize the text of';
+const ESCAPE_RULE_EN = '**Double backslashes (essential)**: every LaTeX command must use a double backslash to be valid in a JSON string, e.g. \\\\min, \\\\mathbb{R}, \\\\in, \\\\text{s.t.}, \\\\to, \\\\le.';
+const MERGE_RULE_EN = '**Merge formulas**: merge adjacent math blocks into one.';
+const DEFAULT_PROMPT_EN = 'Process the following data according to the system instruction:';
+
+export const BUILT_IN_PROFILES: RuleProfile[] = [
+  {
+    id: 'optimization',
+    name: '最优化算法',
+    instruction: `${ROLE}\n${TASK}最优化算法知识点的文本清洗和标准化。`,
+    rules: [
+      '**数学符号补全**：识别文本中所有未包裹的数学变量（如 x, A, b, w, L, n, m, i 等）和表达式（如 Ax=b, f(x), x in X 等），并用美元符号 $ 包裹。',
+      '**公式合并**：将相邻的多个数学公式块合并为一个。例如，将 "$\\\\min$" "$f(x)$" 优化为 "$\\\\min f(x)$"，将 "$\\\\in$" "$\\\\mathbb{R}^n$" 优化为 "$\\\\in \\\\mathbb{R}^n$"。',
+      ESCAPE_RULE,
+    ],
+    examples: [],
+    prompt: DEFAULT_PROMPT,
+    responseSchema: EMPTY_ITEM_SCHEMA,
+    translations: {
+      en: {
+        instruction: `${ROLE_EN}\n${TASK_EN} knowledge points on optimization algorithms.`,
+        rules: [
+          '**Complete math notation**: find every bare mathematical variable (such as x, A, b, w, L, n, m, i) and expression (such as Ax=b, f(x), x in X) and wrap it in dollar signs $.',
+          '**Merge formulas**: merge adjacent math blocks into one. For example, turn "$\\\\min$" "$f(x)$" into "$\\\\min f(x)$", and "$\\\\in$" "$\\\\mathbb{R}^n$" into "$\\\\in \\\\mathbb{R}^n$".',
+          ESCAPE_RULE_EN,
+        ],
+        examples: [],
+        prompt: DEFAULT_PROMPT_EN,
+      },
+    },
+  },
+  {
+    id: 'linear-algebra',
+    name: '线性代数',
+    instruction: `${ROLE}\n${TASK}线性代数知识点的文本清洗和标准化。`,
+    rules: [
+      '**数学符号补全**：识别所有未包裹的数学变量和表达式（如 A, x, Ax=b, det A），并用美元符号 $ 包裹。',
+      '**向量与矩阵**：向量使用粗体小写 \\\\mathbf{x}，矩阵使用大写字母 A；转置写作 A^\\\\top，行列式写作 \\\\det A，秩写作 \\\\operatorname{rank} A。',
+      '**公式合并**：将相邻的多个数学公式块合并为一个。',
+      ESCAPE_RULE,
+    ],
+    examples: [
+      { input: '若向量 x 满足 Ax = 0 且 det A != 0，则 x = 0。', output: '若向量 $\\mathbf{x}$ 满足 $A\\mathbf{x} = \\mathbf{0}$ 且 $\\det A \\neq 0$，则 $\\mathbf{x} = \\mathbf{0}$。' },
+    ],
+    prompt: DEFAULT_PROMPT,
+    responseSchema: EMPTY_ITEM_SCHEMA,
+    translations: {
+      en: {
+        instruction: `${ROLE_EN}\n${TASK_EN} knowledge points on linear algebra.`,
+        rules: [
+          '**Complete math notation**: find every bare variable and expression (such as A, x, Ax=b, det A) and wrap it in dollar signs $.',
+          '**Vectors and matrices**: write vectors in bold lowercase \\\\mathbf{x} and matrices as capital letters A; write the transpose as A^\\\\top, the determinant as \\\\det A and the rank as \\\\operatorname{rank} A.',
+          MERGE_RULE_EN,
+          ESCAPE_RULE_EN,
+        ],
+        examples: [
+          { input: 'If a vector x satisfies Ax = 0 and det A != 0, then x = 0.', output: 'If a vector $\\mathbf{x}$ satisfies $A\\mathbf{x} = \\mathbf{0}$ and $\\det A \\neq 0$, then $\\mathbf{x} = \\mathbf{0}$.' },
+        ],
+        prompt: DEFAULT_PROMPT_EN,
+      },
+    },
+  },
+  {
+    id: 'probability',
+    name: '概率论',
+    instruction: `${ROLE}\n${TASK}概率论与数理统计知识点的文本清洗和标准化。`,
+    rules: [
+      '**数学符号补全**：识别所有未包裹的随机变量、事件和表达式（如 X, A, P(A|B)），并用美元符号 $ 包裹。',
+      '**概率记号**：概率统一写作 \\\\Pr(A)（不要写成 P(A)），期望写作 \\\\mathbb{E}[X]，方差写作 \\\\operatorname{Var}(X)。',
+      '**公式合并**：将相邻的多个数学公式块合并为一个。',
+      ESCAPE_RULE,
+    ],
+    examples: [
+      { input: '若 A 与 B 独立，则 P(A and B) = P(A)P(B)，且 E(X+Y) = EX + EY。', output: '若 $A$ 与 $B$ 独立，则 $\\Pr(A \\cap B) = \\Pr(A)\\Pr(B)$，且 $\\mathbb{E}[X+Y] = \\mathbb{E}[X] + \\mathbb{E}[Y]$。' },
+    ],
+    prompt: DEFAULT_PROMPT,
+    responseSchema: EMPTY_ITEM_SCHEMA,
+    substitutions: { P: '\\Pr', and: '\\cap' },
+    translations: {
+      en: {
+        instruction: `${ROLE_EN}\n${TASK_EN} knowledge points on probability and statistics.`,
+        rules: [
+          '**Complete math notation**: find every bare random variable, event and expression (such as X, A, P(A|B)) and wrap it in dollar signs $.',
+          '**Probability notation**: always write probability as \\\\Pr(A) (not P(A)), expectation as \\\\mathbb{E}[X] and variance as \\\\operatorname{Var}(X).',
+          MERGE_RULE_EN,
+          ESCAPE_RULE_EN,
+        ],
+        examples: [
+          { input: 'If A and B are independent, then P(A and B) = P(A)P(B), and E(X+Y) = EX + EY.', output: 'If $A$ and $B$ are independent, then $\\Pr(A \\cap B) = \\Pr(A)\\Pr(B)$, and $\\mathbb{E}[X+Y] = \\mathbb{E}[X] + \\mathbb{E}[Y]$.' },
+        ],
+        prompt: DEFAULT_PROMPT_EN,
+      },
+    },
+  },
+];
+
+export const DEFAULT_PROFILE = BUILT_IN_PROFILES[0];
+
+/** Wording of the parts every system instruction shares, per content language. */
+const INSTRUCTION_FRAME: Record<ContentLanguage, { rulesHeading: string; extraRules: string[]; examplesHeading: string; input: string; output: string }> = {
+  zh: {
+    rulesHeading: '严格遵守以下规则：',
+    extraRules: ['**输出格式**：你必须严格遵循 JSON Schema 返回数据。'],
+    examplesHeading: '示例（字段值处理前后对照）：',
+    input: '输入：',
+    output: '输出：',
+  },
+  en: {
+    rulesHeading: 'Follow these rules strictly:',
+    extraRules: [
+      '**Keep the prose**: the text is in English. Never translate or reword it, and keep English words out of math, except function names such as \\\\min or \\\\operatorname{rank}.',
+      '**Output format**: you must return data that strictly follows the JSON Schema.',
+    ],
+    examplesHeading: 'Examples (field values before and after):',
+    input: 'Input: ',
+    output: 'Output: ',
+  },
+};
+
+/** The profile with the texts written for `language`, where it has them. */
+export function localizeProfile(profile: RuleProfile, language: ContentLanguage): RuleProfile {
+  const texts = profile.translations?.[language];
+  return texts ? { ...profile, ...texts } : profile;
+}
+
+/** Assembles the system instruction sent with every batch of content in `language`. */
+export function buildSystemInstruction(profile: RuleProfile, language: ContentLanguage = 'zh'): string {
+  const localized = localizeProfile(profile, language);
+  const frame = INSTRUCTION_FRAME[language];
+  const rules = [...localized.rules, ...frame.extraRules];
+  const lines = [
+    localized.instruction.trim(),
+    '',
+    frame.rulesHeading,
+    ...rules.map((rule, i) => `${i + 1}. ${rule}`),
+  ];
+  if (localized.examples.length > 0) {
+    lines.push('', frame.examplesHeading);
+    localized.examples.forEach(example => {
+      lines.push(`${frame.input}${JSON.stringify(example.input)}`, `${frame.output}${JSON.stringify(example.output)}`);
+    });
+  }
+  return lines.join('\n');
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+/** Checks the language-specific texts of a profile or one of its translations. */
+function validateTexts(value: Record<string, unknown>, where: string, defaultPrompt: string): ProfileTexts {
+  if (typeof value.instruction !== 'string' || !value.instruction.trim()) {
+    throw new Error(t('profiles.missingField', { where, key: 'instruction' }));
+  }
+  if (!isStringArray(value.rules)) throw new Error(t('profiles.invalidRules', { where }));
+  const examples = value.examples ?? [];
+  if (!Array.isArray(examples) || !examples.every(e => isObject(e) && typeof e.input === 'string' && typeof e.output === 'string')) {
+    throw new Error(t('profiles.invalidExamples', { where }));
+  }
+  return {
+    instruction: value.instruction,
+    rules: value.rules,
+    examples: examples as FewShotExample[],
+    prompt: typeof value.prompt === 'string' && value.prompt.trim() ? value.prompt : defaultPrompt,
+  };
+}
+
+const DEFAULT_PROMPTS: Record<ContentLanguage, string> = { zh: DEFAULT_PROMPT, en: DEFAULT_PROMPT_EN };
+
+/** Checks one imported profile, filling optional parts with defaults. */
+function validateProfile(value: unknown, index: number): RuleProfile {
+  const where = t('profiles.where', { n: index + 1 });
+  if (!isObject(value)) throw new Error(t('profiles.notObject', { where }));
+  for (const key of ['id', 'name'] as const) {
+    if (typeof value[key] !== 'string' || !(value[key] as string).trim()) {
+      throw new Error(t('profiles.missingField', { where, key }));
+    }
+  }
+  const texts = validateTexts(value, where, DEFAULT_PROMPT);
+  const schema = value.responseSchema ?? EMPTY_ITEM_SCHEMA;
+  if (!isObject(schema) || schema.type !== 'object') {
+    throw new Error(t('profiles.invalidSchema', { where }));
+  }
+  const substitutions = value.substitutions ?? {};
+  if (!isObject(substitutions) || !Object.values(substitutions).every(command => typeof command === 'string' && /^\\[A-Za-z]+$/.test(command))) {
+    throw new Error(t('profiles.invalidSubstitutions', { where }));
+  }
+  const translations: RuleProfile['translations'] = {};
+  if (value.translations !== undefined) {
+    if (!isObject(value.translations)) throw new Error(t('profiles.invalidTranslations', { where }));
+    for (const [language, entry] of Object.entries(value.translations)) {
+      if (!(language in DEFAULT_PROMPTS) || !isObject(entry)) throw new Error(t('profiles.invalidTranslations', { where }));
+      const translationWhere = t('profiles.whereTranslation', { where, language });
+      translations[language as ContentLanguage] = validateTexts(entry, translationWhere, DEFAULT_PROMPTS[language as ContentLanguage]);
+    }
+  }
+  return {
+    id: value.id as string,
+    name: value.name as string,
+    ...texts,
+    responseSchema: schema as unknown as JsonSchema,
+    ...(Object.keys(substitutions).length > 0 && { substitutions: substitutions as Substitutions }),
+    ...(Object.keys(translations).length > 0 && { translations }),
+  };
+}
+
+/** Reads profiles exported by `exportProfiles`, or a single bare profile. */
+export function parseProfiles(text: string): RuleProfile[] {
+  const parsed: unknown = JSON.parse(text);
+  const list = isObject(parsed) && Array.isArray(parsed.profiles) ? parsed.profiles : [parsed];
+  if (list.length === 0) throw new Error(t('profiles.empty'));
+  return list.map(validateProfile);
+}
+
+export function exportProfiles(profiles: RuleProfile[]): string {
+  return JSON.stringify({ version: 1, profiles }, null, 2);
+}
+
+/** Adds imported profiles to the list; one with an existing id replaces it. */
+export function mergeProfiles(current: RuleProfile[], imported: RuleProfile[]): RuleProfile[] {
+  const merged = [...current];
+  for (const profile of imported) {
+    const existing = merged.findIndex(p => p.id === profile.id);
+    if (existing >= 0) merged[existing] = profile; else merged.push(profile);
+  }
+  return merged;
+}
@@ -0,0 +1,74 @@
+import { LlmError } from "./llmProvider";
+
+/**
+ * Lets the UI pause, resume and cancel a running pipeline. Pausing stops new
+ * requests from being sent (requests already in flight finish normally);
+ * cancelling aborts `signal`, which also cancels the in-flight requests.
+ */
+export class RunController {
+  private readonly abortController = new AbortController();
+  private paused = false;
+  private waiters: (() => void)[] = [];
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause() {
+    if (!this.signal.aborted) this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this.release();
+  }
+
+  cancel() {
+    this.paused = false;
+    this.abortController.abort();
+    this.release();
+  }
+
+  /** Resolves immediately unless paused; otherwise once resumed or cancelled. */
+  waitUntilRunning(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  private release() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+export function abortedError(): LlmError {
+  return new LlmError('aborted', 'Run cancelled');
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw abortedError();
+}
+
+/** `setTimeout` as a promise that rejects with an `aborted` error when `signal` fires. */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,184 @@
+import { RateLimits, ThroughputStats } from "../types";
+import { CJK_CHAR } from "./latexNormalizer";
+import { abortableDelay, throwIfAborted } from "./runController";
+
+/**
+ * Request scheduler shared by all batches of a run. It keeps requests and
+ * tokens within per-minute budgets, adapts concurrency (halved on every rate
+ * limit, grown again after a streak of successes) and honours retry-after hints.
+ */
+
+const WINDOW_MS = 60_000;
+const POLL_MS = 100;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 60_000;
+/** Longest retry-after hint worth waiting for; longer ones fail the run instead. */
+export const MAX_RATE_LIMIT_WAIT_MS = 5 * 60_000;
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  requestsPerMinute: 15,
+  tokensPerMinute: 250_000,
+  maxConcurrency: 4,
+};
+
+// Rough per-request overhead for the system instruction and framing.
+const PROMPT_OVERHEAD_TOKENS = 400;
+const CJK = new RegExp(CJK_CHAR.source, 'g');
+
+/**
+ * Cheap token estimate: CJK characters count as one token each, everything
+ * else as one token per four characters.
+ */
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  const cjk = (text.match(CJK) ?? []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/** Tokens for a request carrying `payloadTokens`, counting prompt and response. */
+export function estimateRequestTokens(payloadTokens: number): number {
+  return PROMPT_OVERHEAD_TOKENS + Math.ceil(payloadTokens * 2.2);
+}
+
+/**
+ * Groups items into batches of at most `maxTokens` estimated payload tokens and
+ * `maxItems` items. An item larger than the budget gets a batch of its own.
+ */
+export function planBatches<T>(items: T[], tokensOf: (item: T) => number, maxTokens: number, maxItems: number): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+  for (const item of items) {
+    const tokens = tokensOf(item);
+    if (current.length > 0 && (currentTokens + tokens > maxTokens || current.length >= maxItems)) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+export class RateLimitScheduler {
+  private readonly limits: RateLimits;
+  private concurrency: number;
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private backoffMs = BASE_BACKOFF_MS;
+  private successStreak = 0;
+  private requests: { time: number; tokens: number }[] = [];
+  private completions: { time: number; items: number }[] = [];
+  private readonly startedAt = Date.now();
+  private completedItems = 0;
+
+  constructor(limits: Partial<RateLimits> = {}) {
+    this.limits = { ...DEFAULT_RATE_LIMITS, ...limits };
+    // Start at half capacity and let successes earn the rest.
+    this.concurrency = Math.max(1, Math.ceil(this.limits.maxConcurrency / 2));
+  }
+
+  get maxConcurrency(): number {
+    return this.limits.maxConcurrency;
+  }
+
+  private prune(now: number) {
+    this.requests = this.requests.filter(r => now - r.time < WINDOW_MS);
+    this.completions = this.completions.filter(c => now - c.time < WINDOW_MS);
+  }
+
+  /** Milliseconds until a request of `tokens` may start, or 0 if it may start now. */
+  private waitTime(tokens: number, now: number): number {
+    if (now < this.pausedUntil) return this.pausedUntil - now;
+    if (this.inFlight >= this.concurrency) return POLL_MS;
+    if (this.requests.length >= this.limits.requestsPerMinute) {
+      return this.requests[0].time + WINDOW_MS - now;
+    }
+    const used = this.requests.reduce((sum, r) => sum + r.tokens, 0);
+    // An oversized request may still run alone in an empty window.
+    if (used > 0 && used + tokens > this.limits.tokensPerMinute) {
+      let freed = 0;
+      for (const r of this.requests) {
+        freed += r.tokens;
+        if (used - freed + tokens <= this.limits.tokensPerMinute) return r.time + WINDOW_MS - now;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Runs `task` once the budgets allow a request of `tokens` estimated tokens.
+   * Waiting rejects with an `aborted` error as soon as `signal` fires, and
+   * `gate` (e.g. a paused run) is awaited again before every start attempt.
+   */
+  async schedule<T>(
+    tokens: number,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+    gate?: () => Promise<void>
+  ): Promise<T> {
+    for (;;) {
+      await gate?.();
+      throwIfAborted(signal);
+      const now = Date.now();
+      this.prune(now);
+      const wait = this.waitTime(tokens, now);
+      if (wait <= 0) break;
+      await abortableDelay(Math.min(wait, 1000), signal);
+    }
+
+    this.inFlight++;
+    this.requests.push({ time: Date.now(), tokens });
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  reportSuccess() {
+    this.backoffMs = BASE_BACKOFF_MS;
+    this.successStreak++;
+    if (this.successStreak >= this.concurrency * 2 && this.concurrency < this.limits.maxConcurrency) {
+      this.concurrency++;
+      this.successStreak = 0;
+    }
+  }
+
+  /**
+   * Backs off after a 429, using the server's retry-after hint when present.
+   * Returns false, without pausing, when the hint exceeds MAX_RATE_LIMIT_WAIT_MS.
+   */
+  reportRateLimit(retryAfterMs?: number): boolean {
+    if (retryAfterMs !== undefined && retryAfterMs > MAX_RATE_LIMIT_WAIT_MS) return false;
+    this.successStreak = 0;
+    this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    const wait = retryAfterMs ?? this.backoffMs;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+    this.backoffMs = Math.min(MAX_BACKOFF_MS, this.backoffMs * 2);
+    return true;
+  }
+
+  recordCompleted(items: number) {
+    this.completedItems += items;
+    this.completions.push({ time: Date.now(), items });
+  }
+
+  /** Throughput over the last minute (or since start, if shorter) and ETA for `remaining` items. */
+  stats(remaining: number): ThroughputStats {
+    const now = Date.now();
+    this.prune(now);
+    const windowMs = Math.min(WINDOW_MS, Math.max(1, now - this.startedAt));
+    const recent = this.completions.reduce((sum, c) => sum + c.items, 0);
+    const itemsPerMinute = this.completedItems > 0 ? (recent / windowMs) * 60_000 : 0;
+    return {
+      itemsPerMinute: Math.round(itemsPerMinute * 10) / 10,
+      etaSeconds: itemsPerMinute > 0 ? Math.round((remaining / itemsPerMinute) * 60) : null,
+      concurrency: this.concurrency,
+      inFlight: this.inFlight,
+      pausedForMs: Math.max(0, this.pausedUntil - now),
+    };
+  }
+}
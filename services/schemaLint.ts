@@ -0,0 +1,271 @@
+import { KnowledgeItem } from "../types";
+import { JsonPath, PathWriter, formatPath } from "./jsonPath";
+import { MessageKey, t } from "./i18n";
+
+export type LintCode =
+  | 'missing-id'
+  | 'duplicate-id'
+  | 'dangling-relation'
+  | 'duplicate-relation'
+  | 'invalid-difficulty'
+  | 'empty-description'
+  | 'wrong-type';
+
+export type LintSeverity = 'error' | 'warning';
+
+/** A value to write at `path`. Only offered when it cannot lose information. */
+export interface LintFix {
+  path: JsonPath;
+  value: unknown;
+  description: string;
+}
+
+export interface LintIssue {
+  code: LintCode;
+  severity: LintSeverity;
+  /** Formatted path of the offending value. */
+  path: string;
+  message: string;
+  fix?: LintFix;
+}
+
+export interface LintOptions {
+  /** Allowed `difficulty` values; an empty list disables the check. */
+  difficultyLevels: string[];
+}
+
+export interface LintReport {
+  itemCount: number;
+  issues: LintIssue[];
+}
+
+export const DEFAULT_LINT_OPTIONS: LintOptions = {
+  difficultyLevels: ['easy', 'medium', 'hard'],
+};
+
+export const LINT_CODE_LABELS: Record<LintCode, MessageKey> = {
+  'missing-id': 'lint.code.missingId',
+  'duplicate-id': 'lint.code.duplicateId',
+  'dangling-relation': 'lint.code.danglingRelation',
+  'duplicate-relation': 'lint.code.duplicateRelation',
+  'invalid-difficulty': 'lint.code.invalidDifficulty',
+  'empty-description': 'lint.code.emptyDescription',
+  'wrong-type': 'lint.code.wrongType',
+};
+
+const ITEM_KEYS = ['id', 'name', 'description', 'difficulty', 'relations'];
+// Keys a relation object may use to name its target.
+const RELATION_TARGET_KEYS = ['target', 'targetId', 'id', 'to'];
+
+interface LocatedItem {
+  path: JsonPath;
+  item: KnowledgeItem;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Finds knowledge items: objects inside arrays that carry at least one of the
+ * `KnowledgeItem` keys. Relation lists are not searched, since their entries
+ * may look like items themselves.
+ */
+export function findKnowledgeItems(data: unknown): LocatedItem[] {
+  const found: LocatedItem[] = [];
+  const visit = (node: unknown, path: JsonPath, inArray: boolean) => {
+    if (Array.isArray(node)) {
+      node.forEach((child, i) => visit(child, [...path, i], true));
+    } else if (isPlainObject(node)) {
+      if (inArray && ITEM_KEYS.some(key => key in node)) found.push({ path, item: node });
+      for (const [key, child] of Object.entries(node)) {
+        if (key !== 'relations') visit(child, [...path, key], false);
+      }
+    }
+  };
+  visit(data, [], false);
+  return found;
+}
+
+/** The id a relation entry points at: the entry itself, or one of RELATION_TARGET_KEYS. */
+export function relationTarget(entry: unknown): string | number | undefined {
+  if (typeof entry === 'string' || typeof entry === 'number') return entry;
+  if (isPlainObject(entry)) {
+    const key = RELATION_TARGET_KEYS.find(k => typeof entry[k] === 'string' || typeof entry[k] === 'number');
+    return key === undefined ? undefined : entry[key];
+  }
+  return undefined;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * Checks every knowledge item against the `KnowledgeItem` shape and the
+ * cross-item constraints (unique ids, resolvable relations).
+ */
+export function lintKnowledgeBase(data: unknown, options: LintOptions = DEFAULT_LINT_OPTIONS): LintReport {
+  const items = findKnowledgeItems(data);
+  const issues: LintIssue[] = [];
+  const report = (issue: Omit<LintIssue, 'path'>, path: JsonPath) => issues.push({ ...issue, path: formatPath(path) });
+
+  // Numeric strings are only a type error when the file otherwise uses numeric ids.
+  const ids = items.map(({ item }) => item.id).filter(id => !isBlank(id));
+  const numericIds = ids.length > 0 && ids.filter(id => typeof id === 'number').length > ids.length / 2;
+  const firstPathById = new Map<string, JsonPath>();
+  items.forEach(({ path, item }) => {
+    if (typeof item.id === 'string' || typeof item.id === 'number') {
+      const key = String(item.id);
+      if (!firstPathById.has(key)) firstPathById.set(key, path);
+    }
+  });
+
+  const levels = new Map(options.difficultyLevels.map(level => [level.trim().toLowerCase(), level]));
+
+  for (const { path, item } of items) {
+    const idPath = [...path, 'id'];
+    if (isBlank(item.id)) {
+      report({ code: 'missing-id', severity: 'error', message: t('lint.missingId') }, idPath);
+    } else if (typeof item.id !== 'string' && typeof item.id !== 'number') {
+      report({ code: 'wrong-type', severity: 'error', message: t('lint.idType', { type: describeType(item.id) }) }, idPath);
+    } else {
+      const first = firstPathById.get(String(item.id))!;
+      if (first !== path) {
+        report({ code: 'duplicate-id', severity: 'error', message: t('lint.duplicateId', { id: JSON.stringify(item.id), path: formatPath(first) }) }, idPath);
+      }
+      if (numericIds && typeof item.id === 'string' && /^-?\d+$/.test(item.id.trim())) {
+        report({
+          code: 'wrong-type',
+          severity: 'warning',
+          message: t('lint.stringId', { id: JSON.stringify(item.id) }),
+          fix: { path: idPath, value: Number(item.id), description: t('lint.fix.toNumber') },
+        }, idPath);
+      }
+    }
+
+    if ('name' in item && typeof item.name !== 'string') {
+      report(stringTypeIssue('name', item.name, [...path, 'name']), [...path, 'name']);
+    }
+
+    const descriptionPath = [...path, 'description'];
+    if ('description' in item && !isBlank(item.description) && typeof item.description !== 'string') {
+      report(stringTypeIssue('description', item.description, descriptionPath), descriptionPath);
+    } else if (isBlank(item.description) || (typeof item.description === 'string' && !item.description.trim())) {
+      report({ code: 'empty-description', severity: 'warning', message: 'description' in item ? t('lint.emptyDescription') : t('lint.missingDescription') }, descriptionPath);
+    }
+
+    if ('difficulty' in item && levels.size > 0) {
+      const difficultyPath = [...path, 'difficulty'];
+      const value = item.difficulty;
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        report({ code: 'wrong-type', severity: 'error', message: t('lint.difficultyType', { type: describeType(value) }) }, difficultyPath);
+      } else if (!options.difficultyLevels.includes(String(value))) {
+        const canonical = levels.get(String(value).trim().toLowerCase());
+        report(canonical !== undefined
+          ? {
+              code: 'invalid-difficulty',
+              severity: 'warning',
+              message: t('lint.difficultyCase', { value: JSON.stringify(value), canonical: JSON.stringify(canonical) }),
+              fix: { path: difficultyPath, value: canonical, description: t('lint.fix.changeTo', { value: canonical }) },
+            }
+          : {
+              code: 'invalid-difficulty',
+              severity: 'error',
+              message: t('lint.difficultyInvalid', { value: JSON.stringify(value), levels: options.difficultyLevels.join(' / ') }),
+            }, difficultyPath);
+      }
+    }
+
+    if ('relations' in item && item.relations != null) {
+      const relationsPath = [...path, 'relations'];
+      if (!Array.isArray(item.relations)) {
+        report({
+          code: 'wrong-type',
+          severity: 'error',
+          message: t('lint.relationsType', { type: describeType(item.relations) }),
+          fix: { path: relationsPath, value: [item.relations], description: t('lint.fix.wrapInArray') },
+        }, relationsPath);
+      } else {
+        issues.push(...lintRelations(item.relations, relationsPath, firstPathById));
+      }
+    }
+  }
+
+  return { itemCount: items.length, issues };
+}
+
+function lintRelations(relations: unknown[], path: JsonPath, firstPathById: Map<string, JsonPath>): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const seen = new Set<string>();
+  const unique: unknown[] = [];
+  relations.forEach((entry, i) => {
+    const entryPath = formatPath([...path, i]);
+    const serialized = JSON.stringify(entry);
+    if (seen.has(serialized)) return;
+    seen.add(serialized);
+    unique.push(entry);
+
+    const target = relationTarget(entry);
+    if (target === undefined) {
+      issues.push({
+        code: 'wrong-type',
+        severity: 'error',
+        path: entryPath,
+        message: t('lint.relationTarget', { keys: RELATION_TARGET_KEYS.join(' / ') }),
+      });
+    } else if (!firstPathById.has(String(target))) {
+      issues.push({ code: 'dangling-relation', severity: 'error', path: entryPath, message: t('lint.danglingRelation', { id: JSON.stringify(target) }) });
+    }
+  });
+
+  if (unique.length < relations.length) {
+    issues.push({
+      code: 'duplicate-relation',
+      severity: 'warning',
+      path: formatPath(path),
+      message: t('lint.duplicateRelations', { count: relations.length - unique.length }),
+      fix: { path, value: unique, description: t('lint.fix.removeDuplicates') },
+    });
+  }
+  return issues;
+}
+
+function stringTypeIssue(key: string, value: unknown, path: JsonPath): Omit<LintIssue, 'path'> {
+  const message = t('lint.stringType', { key, type: describeType(value) });
+  // Numbers and booleans stringify without loss; objects and arrays do not.
+  return typeof value === 'number' || typeof value === 'boolean'
+    ? { code: 'wrong-type', severity: 'error', message, fix: { path, value: String(value), description: t('lint.fix.toString') } }
+    : { code: 'wrong-type', severity: 'error', message };
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return t('lint.type.array');
+  const keys: Record<string, MessageKey> = { string: 'lint.type.string', number: 'lint.type.number', boolean: 'lint.type.boolean', object: 'lint.type.object' };
+  return keys[typeof value] ? t(keys[typeof value]) : typeof value;
+}
+
+/** Returns a copy of `data` with every available fix applied. */
+export function applyLintFixes(data: unknown, issues: LintIssue[]): unknown {
+  const copy = new PathWriter(data);
+  for (const issue of issues) {
+    if (issue.fix) copy.set(issue.fix.path, issue.fix.value);
+  }
+  return copy.result;
+}
+
+/** Serializes the report for download, without the internal fix payloads. */
+export function exportLintReport(report: LintReport, fileName: string): string {
+  return JSON.stringify({
+    file: fileName,
+    generatedAt: new Date().toISOString(),
+    items: report.itemCount,
+    errors: report.issues.filter(i => i.severity === 'error').length,
+    warnings: report.issues.filter(i => i.severity === 'warning').length,
+    issues: report.issues.map(({ code, severity, path, message, fix }) => ({
+      code,
+      severity,
+      path,
+      message,
+      ...(fix && { fix: fix.description }),
+    })),
+  }, null, 2);
+}
@@ -0,0 +1,149 @@
+import { FieldRule } from "../types";
+import { ProcessFailure } from "./geminiService";
+import { PathWriter, getAtPath, parsePath } from "./jsonPath";
+import { validateLatex } from "./latexValidator";
+import { EditableField, FieldChange, finalValue, listEditableUnits } from "./review";
+import { MessageKey, t } from "./i18n";
+
+/**
+ * Finding items across a knowledge base, and bulk find-and-replace over the
+ * matches. Fields are searched with their current value: the manual edit,
+ * else the processed value, else the original.
+ */
+
+export type SearchMode = 'text' | 'regex' | 'command';
+
+/** Processing state of an item; before the first run every item is 'unchanged'. */
+export type StatusFilter = 'all' | 'changed' | 'failed' | 'unchanged';
+
+export interface SearchQuery {
+  text: string;
+  mode: SearchMode;
+  /** Only items whose `difficulty` has this value; null for any. */
+  difficulty: string | null;
+  status: StatusFilter;
+  /** Only items with a field that would not typeset. */
+  onlyInvalid: boolean;
+}
+
+export interface SearchField extends EditableField {
+  value: string;
+}
+
+export interface SearchHit {
+  unitPath: string;
+  /** Fields containing the query; every field when the query text is empty. */
+  fields: SearchField[];
+}
+
+export interface Replacement {
+  field: EditableField;
+  before: string;
+  after: string;
+}
+
+export const SEARCH_MODE_LABELS: Record<SearchMode, MessageKey> = {
+  text: 'search.mode.text',
+  regex: 'search.mode.regex',
+  command: 'search.mode.command',
+};
+
+export const STATUS_FILTER_LABELS: Record<StatusFilter, MessageKey> = {
+  all: 'search.status.all',
+  changed: 'search.status.changed',
+  failed: 'search.status.failed',
+  unchanged: 'search.status.unchanged',
+};
+
+export const EMPTY_QUERY: SearchQuery = { text: '', mode: 'text', difficulty: null, status: 'all', onlyInvalid: false };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles the query text into a global pattern; null when the text is empty.
+ * In 'command' mode `R` or `\R` matches the command `\R` but not `\Rightarrow`.
+ * Throws with a readable message when the text is not a valid pattern.
+ */
+export function buildMatcher(text: string, mode: SearchMode): RegExp | null {
+  if (text === '') return null;
+  if (mode === 'text') return new RegExp(escapeRegExp(text), 'g');
+  if (mode === 'command') {
+    const name = text.replace(/^\\/, '');
+    if (!/^([A-Za-z]+|[^A-Za-z\s])$/.test(name)) throw new Error(t('search.invalidCommand', { command: text }));
+    // A control word ends at the first non-letter; a control symbol is a single character.
+    return new RegExp(`\\\\${escapeRegExp(name)}${/^[A-Za-z]/.test(name) ? '(?![A-Za-z])' : ''}`, 'g');
+  }
+  try {
+    return new RegExp(text, 'g');
+  } catch (e) {
+    throw new Error(t('search.invalidRegex', { message: e instanceof Error ? e.message : String(e) }));
+  }
+}
+
+/** Distinct `difficulty` values of the items, for the filter. */
+export function difficultyValues(original: any, fieldRules: FieldRule[]): string[] {
+  const values = new Set<string>();
+  for (const unit of listEditableUnits(original, fieldRules)) {
+    const difficulty = getAtPath(original, parsePath(unit.unitPath))?.difficulty;
+    if (typeof difficulty === 'string') values.add(difficulty);
+  }
+  return Array.from(values).sort();
+}
+
+export function searchUnits(
+  original: any,
+  processed: any | null,
+  changes: FieldChange[],
+  failures: ProcessFailure[],
+  fieldRules: FieldRule[],
+  query: SearchQuery,
+  matcher: RegExp | null
+): SearchHit[] {
+  const changesByPath = new Map(changes.map(change => [change.path, change]));
+  const failed = new Set(failures.map(failure => failure.path));
+  const hits: SearchHit[] = [];
+
+  for (const unit of listEditableUnits(original, fieldRules)) {
+    if (query.difficulty !== null && getAtPath(original, parsePath(unit.unitPath))?.difficulty !== query.difficulty) continue;
+
+    const fields = unit.fields.map(field => {
+      const change = changesByPath.get(field.path);
+      const value = change ? finalValue(change) : getAtPath(processed ?? original, parsePath(field.path));
+      return { ...field, value: typeof value === 'string' ? value : '' };
+    });
+
+    if (query.status !== 'all') {
+      const status = failed.has(unit.unitPath)
+        ? 'failed'
+        : unit.fields.some(field => {
+            const change = changesByPath.get(field.path);
+            return change !== undefined && finalValue(change) !== change.before;
+          }) ? 'changed' : 'unchanged';
+      if (status !== query.status) continue;
+    }
+    if (query.onlyInvalid && !fields.some(field => validateLatex(field.value).length > 0)) continue;
+
+    const matching = matcher ? fields.filter(field => field.value.search(matcher) >= 0) : fields;
+    if (matching.length > 0) hits.push({ unitPath: unit.unitPath, fields: matching });
+  }
+  return hits;
+}
+
+/**
+ * Works out the new value of every matching field. In 'regex' mode the
+ * replacement may use `$1`, `$<name>` and `$&`; otherwise it is inserted as
+ * typed, so dollars in LaTeX need no escaping.
+ */
+export function planReplacements(hits: SearchHit[], matcher: RegExp, replacement: string, mode: SearchMode): Replacement[] {
+  return hits.flatMap(hit => hit.fields.flatMap(({ value, ...field }) => {
+    const after = mode === 'regex' ? value.replace(matcher, replacement) : value.replace(matcher, () => replacement);
+    return after !== value ? [{ field, before: value, after }] : [];
+  }));
+}
+
+/** Writes replacements into the input itself, as is done before processing. */
+export function applyReplacements(data: any, replacements: Replacement[]): any {
+  const doc = new PathWriter(data);
+  replacements.forEach(({ field, after }) => doc.set(parsePath(field.path), after));
+  return doc.result;
+}
@@ -0,0 +1,256 @@
+/**
+ * Incremental JSON parser: text is fed in chunks as it is read and the
+ * document is built as it goes, so a file never has to exist as one string.
+ * Tokens may be split anywhere across chunk boundaries.
+ */
+
+export class JsonSyntaxError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+type State =
+  | 'value'          // expecting a value
+  | 'first-value'    // expecting a value or `]` right after `[`
+  | 'key'            // expecting a key after `,` in an object
+  | 'first-key'      // expecting a key or `}` right after `{`
+  | 'colon'
+  | 'comma-or-close'
+  | 'end';
+
+type Frame = { array: any[] } | { object: Record<string, any>; key: string };
+
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const NUMBER_CHAR = /[0-9+\-.eE]/;
+const STRING_SPECIAL = /["\\\u0000-\u001f]/g;
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+const LITERALS = new Map<string, unknown>([['true', true], ['false', false], ['null', null]]);
+
+export class StreamingJsonParser {
+  private state: State = 'value';
+  private readonly stack: Frame[] = [];
+  private root: unknown = undefined;
+
+  // Token split across chunks.
+  private pending: 'string' | 'number' | 'literal' | null = null;
+  private pendingText = '';
+  private stringParts: string[] = [];
+  private escape: 'none' | 'backslash' | 'unicode' = 'none';
+  private unicodeDigits = '';
+
+  private line = 1;
+  private column = 1;
+
+  write(chunk: string): void {
+    let i = 0;
+    while (i < chunk.length) {
+      if (this.pending === 'string') {
+        i = this.continueString(chunk, i);
+        continue;
+      }
+      if (this.pending === 'number' || this.pending === 'literal') {
+        i = this.continueWord(chunk, i);
+        continue;
+      }
+
+      const ch = chunk[i];
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n') {
+        this.advance(ch);
+        i++;
+        continue;
+      }
+      if (this.token(ch)) i++;
+    }
+  }
+
+  /** Finishes parsing and returns the document. Throws if it is incomplete. */
+  end(): unknown {
+    if (this.pending === 'number' || this.pending === 'literal') {
+      this.finishWord();
+    }
+    if (this.pending === 'string' || this.state !== 'end') {
+      this.fail('Unexpected end of JSON input');
+    }
+    return this.root;
+  }
+
+  private advance(ch: string) {
+    if (ch === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new JsonSyntaxError(message, this.line, this.column);
+  }
+
+  /**
+   * Handles one significant character. Returns false when it starts a number
+   * or literal, which is then read from that character on.
+   */
+  private token(ch: string): boolean {
+    const expectsValue = this.state === 'value' || this.state === 'first-value';
+    const expectsKey = this.state === 'key' || this.state === 'first-key';
+
+    if (ch === '"' && (expectsValue || expectsKey)) {
+      this.pending = 'string';
+      this.stringParts = [];
+      this.advance(ch);
+      return true;
+    }
+    if (expectsValue && (ch === '-' || (ch >= '0' && ch <= '9'))) {
+      this.pending = 'number';
+      this.pendingText = '';
+      return false;
+    }
+    if (expectsValue && (ch === 't' || ch === 'f' || ch === 'n')) {
+      this.pending = 'literal';
+      this.pendingText = '';
+      return false;
+    }
+    if (expectsValue && ch === '{') {
+      const object = {};
+      this.emit(object);
+      this.stack.push({ object, key: '' });
+      this.state = 'first-key';
+    } else if (expectsValue && ch === '[') {
+      const array: any[] = [];
+      this.emit(array);
+      this.stack.push({ array });
+      this.state = 'first-value';
+    } else if (ch === ']' && (this.state === 'first-value' || this.state === 'comma-or-close') && this.top() && 'array' in this.top()!) {
+      this.close();
+    } else if (ch === '}' && (this.state === 'first-key' || this.state === 'comma-or-close') && this.top() && 'object' in this.top()!) {
+      this.close();
+    } else if (ch === ':' && this.state === 'colon') {
+      this.state = 'value';
+    } else if (ch === ',' && this.state === 'comma-or-close') {
+      this.state = 'array' in this.top()! ? 'value' : 'key';
+    } else {
+      this.fail(`Unexpected token ${JSON.stringify(ch)}`);
+    }
+    this.advance(ch);
+    return true;
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private close() {
+    this.stack.pop();
+    this.state = this.stack.length === 0 ? 'end' : 'comma-or-close';
+  }
+
+  /** Attaches a finished value (or a freshly opened container) to its parent. */
+  private emit(value: unknown) {
+    const frame = this.top();
+    if (!frame) {
+      this.root = value;
+      this.state = 'end';
+    } else if ('array' in frame) {
+      frame.array.push(value);
+      this.state = 'comma-or-close';
+    } else if (frame.key === '__proto__') {
+      // Plain assignment would replace the prototype instead of adding a key, unlike JSON.parse.
+      Object.defineProperty(frame.object, '__proto__', { value, enumerable: true, writable: true, configurable: true });
+      this.state = 'comma-or-close';
+    } else {
+      frame.object[frame.key] = value;
+      this.state = 'comma-or-close';
+    }
+  }
+
+  private continueString(chunk: string, start: number): number {
+    let i = start;
+    while (i < chunk.length) {
+      if (this.escape === 'backslash') {
+        const ch = chunk[i++];
+        this.column++;
+        if (ch === 'u') {
+          this.escape = 'unicode';
+          this.unicodeDigits = '';
+        } else if (ch in ESCAPES) {
+          this.stringParts.push(ESCAPES[ch]);
+          this.escape = 'none';
+        } else {
+          this.fail(`Bad escaped character ${JSON.stringify(ch)} in string`);
+        }
+        continue;
+      }
+      if (this.escape === 'unicode') {
+        const ch = chunk[i++];
+        this.column++;
+        if (!/[0-9a-fA-F]/.test(ch)) this.fail('Bad Unicode escape in string');
+        this.unicodeDigits += ch;
+        if (this.unicodeDigits.length === 4) {
+          this.stringParts.push(String.fromCharCode(parseInt(this.unicodeDigits, 16)));
+          this.escape = 'none';
+        }
+        continue;
+      }
+
+      STRING_SPECIAL.lastIndex = i;
+      const match = STRING_SPECIAL.exec(chunk);
+      const stop = match ? match.index : chunk.length;
+      if (stop > i) {
+        this.stringParts.push(chunk.slice(i, stop));
+        this.column += stop - i;
+      }
+      if (!match) return chunk.length;
+
+      i = stop + 1;
+      this.column++;
+      if (match[0] === '\\') {
+        this.escape = 'backslash';
+      } else if (match[0] === '"') {
+        this.finishString();
+        return i;
+      } else {
+        this.fail('Bad control character in string');
+      }
+    }
+    return i;
+  }
+
+  private finishString() {
+    const text = this.stringParts.join('');
+    this.stringParts = [];
+    this.pending = null;
+    if (this.state === 'key' || this.state === 'first-key') {
+      (this.top() as { key: string }).key = text;
+      this.state = 'colon';
+    } else {
+      this.emit(text);
+    }
+  }
+
+  private continueWord(chunk: string, start: number): number {
+    let i = start;
+    const accepts = this.pending === 'number' ? (ch: string) => NUMBER_CHAR.test(ch) : (ch: string) => ch >= 'a' && ch <= 'z';
+    while (i < chunk.length && accepts(chunk[i])) i++;
+    this.pendingText += chunk.slice(start, i);
+    if (i < chunk.length) this.finishWord();
+    return i;
+  }
+
+  private finishWord() {
+    const text = this.pendingText;
+    const kind = this.pending;
+    this.pending = null;
+    this.pendingText = '';
+    if (kind === 'number') {
+      if (!NUMBER.test(text)) this.fail(`Invalid number ${JSON.stringify(text)}`);
+      this.emit(Number(text));
+    } else {
+      if (!LITERALS.has(text)) this.fail(`Unexpected token ${JSON.stringify(text)}`);
+      this.emit(LITERALS.get(text));
+    }
+    this.column += text.length;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Character-level diff (Myers' O(ND) algorithm). Model edits are usually small
+ * relative to the text, so D stays low even for long descriptions.
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Beyond this many edits the texts are effectively rewritten; showing a plain
+// replacement is clearer and keeps the trace memory bounded.
+const MAX_EDITS = 1000;
+
+export function diffChars(before: string, after: string): DiffPart[] {
+  const a = Array.from(before);
+  const b = Array.from(after);
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // trace[d] holds the furthest x for diagonals -d-1..d+1 before round d.
+  const trace: number[][] = [];
+  let found = false;
+
+  outer:
+  for (let d = 0; d <= Math.min(max, MAX_EDITS); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...(before ? [{ type: 'delete' as const, text: before }] : []),
+      ...(after ? [{ type: 'insert' as const, text: after }] : []),
+    ];
+  }
+
+  // Walk the trace backwards to recover the edit script.
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], ch: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text = ch + last.text;
+    else parts.push({ type, text: ch });
+  };
+
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const at = (diagonal: number) => vd[diagonal + d + 1];
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      push('equal', a[x - 1]);
+      x--;
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) push('insert', b[y - 1]);
+    else push('delete', a[x - 1]);
+    x = prevX;
+    y = prevY;
+  }
+
+  return parts.reverse();
+}
+
+/** True when the texts differ only in `$` delimiters. */
+export function onlyDollarsChanged(before: string, after: string): boolean {
+  return before !== after && before.replace(/\$/g, '') === after.replace(/\$/g, '');
+}
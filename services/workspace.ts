@@ -0,0 +1,149 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { FileFormat, SourceFormat, detectFormat, parseDocument, serializeDocument } from "./formats";
+import { CheckpointStore, hashContent } from "./checkpointStore";
+import { ProcessOptions, ProcessResult, processJsonKnowledgeBase } from "./geminiService";
+import { formatPath } from "./jsonPath";
+import { t } from "./i18n";
+import { LlmError, isFatalError } from "./llmProvider";
+import { findKnowledgeItems } from "./schemaLint";
+
+/**
+ * A set of knowledge base files processed together with the same settings,
+ * e.g. every chapter of a course. Paths keep the layout of the upload so the
+ * results can be written back the same way.
+ */
+
+export type WorkspaceFileStatus = 'pending' | 'processing' | 'done' | 'cancelled' | 'error';
+
+export interface WorkspaceFile {
+  /** Relative path as uploaded, e.g. `chapter1/basics.json` inside a zip. */
+  path: string;
+  source: SourceFormat;
+  hash: string;
+  originalData: unknown;
+  status: WorkspaceFileStatus;
+  progress: number;
+  result?: ProcessResult;
+  error?: string;
+}
+
+/** An `id` used by items in more than one file. */
+export interface CrossFileDuplicate {
+  id: string;
+  occurrences: { file: string; path: string }[];
+}
+
+export const ZIP_EXTENSION = '.zip';
+
+/** Text of every supported file in the selection; zips are expanded in place. */
+export async function readWorkspaceInputs(files: File[]): Promise<{ path: string; text: string }[]> {
+  const inputs: { path: string; text: string }[] = [];
+  for (const file of files) {
+    if (!file.name.toLowerCase().endsWith(ZIP_EXTENSION)) {
+      inputs.push({ path: file.webkitRelativePath || file.name, text: await file.text() });
+      continue;
+    }
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+      // Directories and macOS resource forks carry no knowledge items.
+      filter: entry => !entry.name.endsWith('/') && !entry.name.startsWith('__MACOSX/') && detectFormat(entry.name) !== null,
+    });
+    Object.entries(entries)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([path, bytes]) => inputs.push({ path, text: strFromU8(bytes) }));
+  }
+  return inputs;
+}
+
+/** Parses one input; a file that cannot be read stays in the list with an error. */
+export async function loadWorkspaceFile(path: string, text: string): Promise<WorkspaceFile> {
+  const format: FileFormat = detectFormat(path) ?? 'json';
+  const hash = await hashContent(text);
+  try {
+    const { data, source } = parseDocument(text, format);
+    return { path, source, hash, originalData: data, status: 'pending', progress: 0 };
+  } catch (e) {
+    return {
+      path,
+      source: { format, options: {} },
+      hash,
+      originalData: null,
+      status: 'error',
+      progress: 0,
+      error: t('workspace.parseFailed', { message: e instanceof Error ? e.message : String(e) }),
+    };
+  }
+}
+
+export function findCrossFileDuplicateIds(files: WorkspaceFile[]): CrossFileDuplicate[] {
+  const byId = new Map<string, CrossFileDuplicate['occurrences']>();
+  for (const file of files) {
+    if (file.originalData === null) continue;
+    for (const { path, item } of findKnowledgeItems(file.originalData)) {
+      if (typeof item.id !== 'string' && typeof item.id !== 'number') continue;
+      const id = String(item.id);
+      if (!byId.has(id)) byId.set(id, []);
+      byId.get(id)!.push({ file: file.path, path: formatPath(path) });
+    }
+  }
+  return Array.from(byId, ([id, occurrences]) => ({ id, occurrences }))
+    .filter(({ occurrences }) => new Set(occurrences.map(o => o.file)).size > 1);
+}
+
+/** Pending, cancelled, or failed to process (but parsed), i.e. worth another run. */
+export function isRunnable(file: WorkspaceFile): boolean {
+  return file.originalData !== null && (file.status === 'pending' || file.status === 'cancelled' || file.status === 'error');
+}
+
+/**
+ * Processes the runnable files one after another with the same options. A
+ * shared `controller` pauses or cancels the whole queue; each file keeps its
+ * own checkpoint, so an interrupted file resumes where it stopped. An auth
+ * error stops the queue, since every other file would fail the same way.
+ */
+export async function processWorkspace(
+  files: WorkspaceFile[],
+  options: ProcessOptions,
+  checkpoints: CheckpointStore,
+  onUpdate: (path: string, patch: Partial<WorkspaceFile>) => void
+): Promise<void> {
+  const signal = options.signal ?? options.controller?.signal;
+  for (const file of files) {
+    if (signal?.aborted) break;
+    if (!isRunnable(file)) continue;
+    onUpdate(file.path, { status: 'processing', progress: 0, error: undefined });
+    try {
+      const resume = await checkpoints.load(file.hash).catch(() => []);
+      const result = await processJsonKnowledgeBase(
+        file.originalData,
+        (current, total) => onUpdate(file.path, { progress: total > 0 ? Math.round((current / total) * 100) : 100 }),
+        { ...options, checkpoint: { store: checkpoints, fileHash: file.hash, resume } }
+      );
+      onUpdate(file.path, { status: result.cancelled ? 'cancelled' : 'done', result });
+    } catch (e) {
+      onUpdate(file.path, { status: 'error', error: e instanceof Error ? e.message : String(e) });
+      if (e instanceof LlmError && isFatalError(e)) throw e;
+    }
+  }
+}
+
+/**
+ * Zips every processed file under its original path, in its original format.
+ * Files without a result are left out and reported.
+ */
+export function buildResultZip(files: WorkspaceFile[]): { zip: Blob; skipped: string[] } {
+  const entries: Record<string, Uint8Array> = {};
+  const skipped: string[] = [];
+  for (const file of files) {
+    if (!file.result) {
+      skipped.push(file.path);
+      continue;
+    }
+    try {
+      entries[file.path] = strToU8(serializeDocument(file.result.data, file.source));
+    } catch (e) {
+      skipped.push(`${file.path}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  const bytes = zipSync(entries) as Uint8Array<ArrayBuffer>;
+  return { zip: new Blob([bytes], { type: 'application/zip' }), skipped };
+}
@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import App from '../App';
+import { replayFetch } from './replayFetch';
+import knowledgeBase from './fixtures/convex-optimization.json';
+
+// jsdom has no Worker; parse on the main thread instead of streaming in one.
+vi.mock('../services/fileParser', async () => {
+  const { hashContent } = await import('../services/checkpointStore');
+  return {
+    parseJsonFile: async (file: File) => {
+      const text = await file.text();
+      return { data: JSON.parse(text), hash: await hashContent(text) };
+    },
+  };
+});
+
+function upload(container: HTMLElement, name: string, text: string) {
+  const input = container.querySelector<HTMLInputElement>('input[type="file"]')!;
+  fireEvent.change(input, { target: { files: [new File([text], name, { type: 'application/json' })] } });
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+  // jsdom reports en-US; the assertions below are written against the Chinese interface.
+  localStorage.setItem('json-optimizer:locale', 'zh');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('App', () => {
+  it('uploads a knowledge base, sends the uncertain items through the proxy and shows the result', async () => {
+    const replay = replayFetch('proxy-hybrid');
+    const { container } = render(<App />);
+
+    upload(container, 'convex.json', JSON.stringify(knowledgeBase, null, 2));
+    fireEvent.click(await screen.findByRole('button', { name: /开始 AI 格式化/ }));
+
+    expect(await screen.findByRole('button', { name: /下载结果/ })).toBeTruthy();
+    expect(replay.requests).toHaveLength(1);
+    expect(replay.requests[0].url).toBe('/api/generate');
+    expect(replay.requests[0].body.payload.map((item: { name: string }) => item.name)).toEqual(['凸集', 'KKT 条件']);
+    expect(replay.requests[0].body).not.toHaveProperty('apiKey');
+    expect(screen.queryByText('部分完成')).toBeNull();
+  });
+
+  it('stops with an error when the API key is rejected', async () => {
+    replayFetch('invalid-key');
+    localStorage.setItem('json-optimizer:provider-settings', JSON.stringify({ kind: 'gemini', model: 'gemini-3-flash-preview' }));
+    sessionStorage.setItem('json-optimizer:api-key', 'test-key');
+    const { container } = render(<App />);
+
+    upload(container, 'kkt.json', JSON.stringify({ items: [knowledgeBase.chapters[1].knowledge_points[0]] }));
+    fireEvent.click(await screen.findByRole('button', { name: /开始 AI 格式化/ }));
+
+    expect(await screen.findByText(/严重错误导致中断: .*API key not valid/)).toBeTruthy();
+    expect(screen.queryByRole('button', { name: /下载结果/ })).toBeNull();
+  });
+
+  it('offers to repair malformed JSON and continues with the fixed file', async () => {
+    const { container } = render(<App />);
+
+    upload(container, 'broken.json', '{\n  // 第一章\n  "items": [\n    {"name": "最优值", "description": "求 $\\min_x f(x)$",},\n  ]\n}');
+
+    expect(await screen.findByText('修复 JSON 语法')).toBeTruthy();
+    expect(screen.getByText('无效转义 \\m，LaTeX 命令应写作 \\\\min')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: /应用 4 项修复并继续/ }));
+
+    expect(await screen.findByRole('button', { name: /开始 AI 格式化/ })).toBeTruthy();
+    expect(screen.queryByText('修复 JSON 语法')).toBeNull();
+  });
+
+  it('switches the interface language and remembers the choice', async () => {
+    const { container } = render(<App />);
+    upload(container, 'convex.json', JSON.stringify(knowledgeBase));
+    await screen.findByRole('button', { name: /开始 AI 格式化/ });
+
+    fireEvent.change(screen.getByTitle('界面语言').querySelector('select')!, { target: { value: 'en' } });
+
+    expect(screen.getByRole('button', { name: /Start AI formatting/ })).toBeTruthy();
+    expect(screen.getByRole('option', { name: 'Content: auto (Chinese)' })).toBeTruthy();
+    expect(localStorage.getItem('json-optimizer:locale')).toBe('en');
+    expect(document.documentElement.lang).toBe('en');
+  });
+
+  it('edits a field by hand and undoes the edit', async () => {
+    const { container } = render(<App />);
+    upload(container, 'convex.json', JSON.stringify(knowledgeBase));
+    fireEvent.change(await screen.findByTitle('处理模式'), { target: { value: 'local' } });
+    fireEvent.click(screen.getByRole('button', { name: /开始 AI 格式化/ }));
+    const download = await screen.findByRole('button', { name: /下载结果 \(已接受 0\// });
+    const total = Number(download.textContent!.match(/\/(\d+)\)/)![1]);
+
+    fireEvent.click(screen.getByRole('button', { name: /逐条编辑/ }));
+    const difficulty = screen.getByLabelText('$.chapters[0].knowledge_points[0].difficulty');
+    fireEvent.change(difficulty, { target: { value: 'medium' } });
+    fireEvent.blur(difficulty);
+
+    expect(screen.getByRole('button', { name: `下载结果 (已接受 1/${total + 1})` })).toBeTruthy();
+    expect(screen.getByText('已手动修改')).toBeTruthy();
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+
+    expect(screen.getByRole('button', { name: `下载结果 (已接受 0/${total})` })).toBeTruthy();
+    expect(screen.getByLabelText<HTMLTextAreaElement>('$.chapters[0].knowledge_points[0].difficulty').value).toBe('easy');
+    expect(screen.getByTitle('重做：编辑 $.chapters[0].knowledge_points[0].difficulty（Ctrl+Shift+Z）')).toBeTruthy();
+  });
+
+  it('processes only the items found by a search', async () => {
+    const { container } = render(<App />);
+    upload(container, 'convex.json', JSON.stringify(knowledgeBase));
+    fireEvent.change(await screen.findByTitle('处理模式'), { target: { value: 'local' } });
+
+    fireEvent.click(screen.getByRole('button', { name: /搜索/ }));
+    fireEvent.change(screen.getByPlaceholderText('在所有字段中搜索…'), { target: { value: '凸' } });
+    fireEvent.click(screen.getByRole('button', { name: '处理选中的 2 个条目' }));
+
+    await screen.findByRole('button', { name: /下载结果/ });
+    fireEvent.click(screen.getByRole('button', { name: /对比视图/ }));
+    expect(screen.getByText(/格式化结果 \(成功: 2, 其中本地: 2/)).toBeTruthy();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildAuditLog, buildAuditRun, exportAuditHtml, exportAuditJson, parseAuditLog, replayAuditLog } from '../services/auditLog';
+import { processJsonKnowledgeBase } from '../services/geminiService';
+import { MockProvider } from '../services/mockProvider';
+import { DEFAULT_PROFILE } from '../services/ruleProfiles';
+import { DEFAULT_FIELD_RULES } from '../services/fieldSelector';
+import { collectChanges } from '../services/review';
+import knowledgeBase from './fixtures/convex-optimization.json';
+
+async function auditedRun() {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  const provider = new MockProvider();
+  const startedAt = Date.now();
+  const result = await processJsonKnowledgeBase(knowledgeBase, () => {}, { provider, mode: 'hybrid' });
+  const run = await buildAuditRun(provider, DEFAULT_PROFILE, 'hybrid', startedAt, result);
+  const changes = collectChanges(knowledgeBase, result.data, DEFAULT_FIELD_RULES);
+  changes[0].decision = 'accepted';
+  changes[1].edited = '$f$ 满足 Jensen 不等式';
+  const log = buildAuditLog('abc123', 'convex.json', DEFAULT_FIELD_RULES, result.stats, [run], changes, result.sources);
+  return { result, log };
+}
+
+describe('audit log', () => {
+  it('records the model, prompt version and every changed field', async () => {
+    const { result, log } = await auditedRun();
+
+    expect(log.runs[0].provider).toEqual({ kind: 'mock', model: 'mock-normalizer' });
+    expect(log.runs[0].profile.promptVersion).toMatch(/^[0-9a-f]{64}$/);
+    expect(log.runs[0].batches).toEqual(result.batches);
+    expect(log.changes.map(change => [change.path, change.source])).toEqual([
+      ['$.chapters[0].knowledge_points[0].description', 'model'],
+      ['$.chapters[0].knowledge_points[1].description', 'local'],
+      ['$.chapters[1].knowledge_points[0].description', 'model'],
+      ['$.chapters[1].knowledge_points[1].description', 'local'],
+    ]);
+  });
+
+  it('re-applies to the same input and reproduces the result and review state', async () => {
+    const { result, log } = await auditedRun();
+
+    const replay = replayAuditLog(knowledgeBase, parseAuditLog(exportAuditJson(log)));
+
+    expect(replay.mismatched).toEqual([]);
+    expect(replay.data).toEqual(result.data);
+    expect(replay.changes[0].decision).toBe('accepted');
+    expect(replay.changes[1].edited).toBe('$f$ 满足 Jensen 不等式');
+  });
+
+  it('leaves fields whose original value differs and reports them', async () => {
+    const { log } = await auditedRun();
+    const edited = structuredClone(knowledgeBase);
+    edited.chapters[1].knowledge_points[0].description = '已手工修改';
+
+    const replay = replayAuditLog(edited, log);
+
+    expect(replay.mismatched).toEqual(['$.chapters[1].knowledge_points[0].description']);
+    expect(replay.changes).toHaveLength(3);
+  });
+
+  it('rejects files that are not audit logs', () => {
+    expect(() => parseAuditLog('{"version": 1, "entries": []}')).toThrow('不是有效的审计日志文件');
+  });
+
+  it('escapes content in the HTML export', async () => {
+    const { log } = await auditedRun();
+    log.changes[0].before = '<script>alert(1)</script>';
+
+    const html = exportAuditHtml(log);
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('abc123');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { compilePattern, findProcessableUnits } from '../services/fieldSelector';
+import { formatPath, parsePath } from '../services/jsonPath';
+import knowledgeBase from './fixtures/convex-optimization.json';
+
+const summarize = (data: unknown, patterns?: string[]) =>
+  findProcessableUnits(data, patterns?.map(pattern => ({ pattern }))).map(unit => ({
+    path: formatPath(unit.path),
+    keys: unit.fields.map(field => field.key),
+  }));
+
+describe('findProcessableUnits', () => {
+  it('groups name and description by knowledge point, in document order', () => {
+    expect(summarize(knowledgeBase)).toEqual([
+      { path: '$.chapters[0].knowledge_points[0]', keys: ['name', 'description'] },
+      { path: '$.chapters[0].knowledge_points[1]', keys: ['name', 'description'] },
+      { path: '$.chapters[1].knowledge_points[0]', keys: ['name', 'description'] },
+      { path: '$.chapters[1].knowledge_points[1]', keys: ['name', 'description'] },
+    ]);
+  });
+
+  it('assigns strings inside arrays to the enclosing object', () => {
+    const data = { theorem: { name: '弱对偶', conditions: ['x 可行', 'λ >= 0'] } };
+    expect(summarize(data, ['name', 'conditions'])).toEqual([
+      { path: '$.theorem', keys: ['name', 'conditions[0]', 'conditions[1]'] },
+    ]);
+  });
+
+  it('honours anchored and wildcard patterns', () => {
+    expect(summarize(knowledgeBase, ['$.chapters[1].*.*.description'])).toEqual([
+      { path: '$.chapters[1].knowledge_points[0]', keys: ['description'] },
+      { path: '$.chapters[1].knowledge_points[1]', keys: ['description'] },
+    ]);
+    expect(summarize(knowledgeBase, ['$.title'])).toEqual([]);
+  });
+
+  it('reads quoted keys as one segment, dots and brackets included', () => {
+    const data = { 'v1.2': { name: '新版', 'a[0]': { description: 'x ∈ C' } }, v1: { 2: { name: '旧版' } } };
+
+    expect(summarize(data, ["$['v1.2'].name"])).toEqual([{ path: '$["v1.2"]', keys: ['name'] }]);
+    expect(summarize(data, ['$["v1.2"]["a[0]"].description'])).toEqual([{ path: '$["v1.2"]["a[0]"]', keys: ['description'] }]);
+    expect(summarize(data, ["['v1.2'].*"])).toEqual([{ path: '$["v1.2"]', keys: ['name'] }]);
+  });
+
+  it('skips non-string values and a bare root string', () => {
+    expect(summarize({ name: 42, description: null })).toEqual([]);
+    expect(summarize('x ∈ C')).toEqual([]);
+  });
+});
+
+describe('compilePattern', () => {
+  it('rejects empty and malformed patterns', () => {
+    expect(() => compilePattern(' ')).toThrow('字段模式不能为空');
+    expect(() => compilePattern('$.a[b')).toThrow('无效的字段模式');
+    expect(() => compilePattern("$['a.b")).toThrow('无效的字段模式');
+  });
+});
+
+describe('parsePath', () => {
+  it('reads back formatted paths and single-quoted keys with dots', () => {
+    expect(parsePath('$["v1.2"].items[0]')).toEqual(['v1.2', 'items', 0]);
+    expect(parsePath("$['v1.2'].items[0]")).toEqual(['v1.2', 'items', 0]);
+    expect(formatPath(parsePath("$['it\\'s']"))).toBe('$["it\'s"]');
+  });
+});
@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processJsonKnowledgeBase, reprocessUnit, ProcessOptions, ProcessResult } from '../services/geminiService';
+import { GeminiProvider } from '../services/geminiProvider';
+import { MockProvider } from '../services/mockProvider';
+import { LlmError } from '../services/llmProvider';
+import { createMemoryResultCache } from '../services/resultCache';
+import { replayFetch, sentItems } from './replayFetch';
+import knowledgeBase from './fixtures/convex-optimization.json';
+
+const points = (data: typeof knowledgeBase) => data.chapters.flatMap(chapter => chapter.knowledge_points);
+
+/** Runs the pipeline on fake timers, so back-off and rate-limit pauses take no real time. */
+async function run(options: ProcessOptions, data: unknown = knowledgeBase): Promise<ProcessResult> {
+  let settled = false;
+  const result = processJsonKnowledgeBase(data, () => {}, { mode: 'llm', ...options });
+  result.then(() => (settled = true), () => (settled = true));
+  while (!settled) await vi.advanceTimersByTimeAsync(1000);
+  return result;
+}
+
+const gemini = () => new GeminiProvider('gemini-3-flash-preview', 'test-key');
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('processJsonKnowledgeBase', () => {
+  it('writes results back by _index without touching the input', async () => {
+    const before = JSON.stringify(knowledgeBase);
+    const provider = new MockProvider({
+      responses: [[
+        { _index: 3, name: '梯度下降', description: '迭代 $x_k \\to x^*$, 步长 $t$ 满足 Armijo 条件' },
+        { _index: 1, name: '凸函数', description: '$f$ 满足 $f(\\theta x + (1-\\theta)y) \\le \\theta f(x) + (1-\\theta)f(y)$' },
+        { _index: 0, name: '凸集', description: '若 $x \\in C$ 且 $y \\in C$, 则对任意 $\\theta \\in [0, 1]$ 有 $\\theta x + (1-\\theta)y \\in C$' },
+        { _index: 2, name: 'KKT 条件', description: '$\\operatorname{rank} A$ 等于 $m$ 时, KKT 条件是最优性的充要条件' },
+      ]],
+    });
+
+    const result = await run({ provider });
+
+    expect(result.stats).toMatchObject({ total: 4, success: 4, failed: 0 });
+    const [convexSet, convexFunction, kkt, gradient] = points(result.data);
+    expect(convexSet.description).toContain('$\\theta \\in [0, 1]$');
+    expect(convexFunction.description.startsWith('$f$ 满足')).toBe(true);
+    expect(kkt.description).toBe('$\\operatorname{rank} A$ 等于 $m$ 时, KKT 条件是最优性的充要条件');
+    expect(gradient.description).toBe('迭代 $x_k \\to x^*$, 步长 $t$ 满足 Armijo 条件');
+    // Only the selected fields change; everything else is carried over.
+    expect(kkt.relations).toEqual([{ target: 'kp-convex-function', type: 'prerequisite' }]);
+    expect(JSON.stringify(knowledgeBase)).toBe(before);
+  });
+
+  it('normalizes confident items locally in hybrid mode and sends only the rest', async () => {
+    const provider = new MockProvider();
+    const result = await run({ provider, mode: 'hybrid' });
+
+    expect(result.stats).toMatchObject({ total: 4, success: 4, local: 2 });
+    expect(result.sources).toEqual({
+      '$.chapters[0].knowledge_points[0]': 'model',
+      '$.chapters[0].knowledge_points[1]': 'local',
+      '$.chapters[1].knowledge_points[0]': 'model',
+      '$.chapters[1].knowledge_points[1]': 'local',
+    });
+    const sent = provider.requests.flatMap(request => request.payload as { name: string }[]);
+    expect(sent.map(item => item.name)).toEqual(['凸集', 'KKT 条件']);
+  });
+
+  it('changes nothing in local mode', async () => {
+    const provider = new MockProvider();
+    const result = await run({ provider, mode: 'local' });
+
+    expect(provider.requests).toHaveLength(0);
+    expect(result.stats).toMatchObject({ total: 4, success: 4, local: 4 });
+  });
+
+  it('rejects a result that rewrites the prose and keeps the original text', async () => {
+    const provider = new MockProvider({
+      responses: [
+        [{ _index: 0, name: 'KKT 条件', description: 'KKT 条件总是充分的' }],
+        [{ _index: 0, name: 'KKT 条件', description: 'KKT 条件总是充分的' }],
+        [{ _index: 0, name: 'KKT 条件', description: 'KKT 条件总是充分的' }],
+      ],
+    });
+    const data = { items: [points(knowledgeBase)[2]] };
+
+    const result = await run({ provider }, data);
+
+    expect(result.stats).toMatchObject({ total: 1, success: 0, failed: 1 });
+    expect(result.failures[0]).toEqual({ path: '$.items[0]', reason: 'description: 正文文字被改写' });
+    expect(result.data.items[0].description).toBe(data.items[0].description);
+  });
+
+  it('keeps the original text of an item the model fails on, without half-done local edits', async () => {
+    const down = new LlmError('network', 'fetch failed');
+    const provider = new MockProvider({ responses: [down, down, down] });
+    const data = { items: [points(knowledgeBase)[2]] };
+
+    const result = await run({ provider, mode: 'hybrid' }, data);
+
+    expect(result.stats).toMatchObject({ total: 1, success: 0, failed: 1, local: 0 });
+    expect(provider.requests[0].payload).toEqual([{ _index: 0, name: 'KKT 条件', description: 'rank A 等于 m 时, KKT 条件是最优性的充要条件' }]);
+    expect(result.data).toEqual(data);
+  });
+
+  it('rejects an English word moved into math when the content is English', async () => {
+    const moved = [{ _index: 0, name: 'Convex set', description: '$\\text{minimize} f$ over the set $C$' }];
+    const provider = new MockProvider({ responses: [moved, moved, moved] });
+    const data = { items: [{ name: 'Convex set', description: 'minimize f over the set C' }] };
+
+    const result = await run({ provider, mode: 'llm', language: 'en' }, data);
+
+    expect(result.language).toBe('en');
+    expect(result.failures[0].reason).toBe('description: 英文单词 "minimize" 被移入公式');
+    expect(result.data).toEqual(data);
+  });
+
+  it('stops the run on an auth error instead of retrying', async () => {
+    const provider = new MockProvider({ responses: [new LlmError('auth', 'API key not valid')] });
+    await expect(run({ provider })).rejects.toMatchObject({ kind: 'auth' });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('stops every worker after an auth error instead of sending the remaining batches', async () => {
+    const provider = new MockProvider({ responses: [new LlmError('auth', 'API key not valid')], latencyMs: 500 });
+    const data = { items: Array.from({ length: 8 }, (_, i) => ({ name: `点 ${i}`, description: `x_${i} >= 0` })) };
+
+    await expect(run({ provider, batchSize: 1, concurrency: 4 }, data)).rejects.toMatchObject({ kind: 'auth' });
+    const sent = provider.requests.length;
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(sent).toBeLessThan(8);
+    expect(provider.requests).toHaveLength(sent);
+  });
+
+  it('fails the run instead of waiting when a 429 asks to retry hours later', async () => {
+    const untilTomorrow = new LlmError('rate_limit', 'Daily quota exceeded', 429, 20 * 60 * 60_000);
+    const provider = new MockProvider({ responses: [untilTomorrow] });
+
+    await expect(run({ provider })).rejects.toMatchObject({ kind: 'quota', message: 'Daily quota exceeded' });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('sends identical items once even without a cache', async () => {
+    const provider = new MockProvider();
+    const kkt = points(knowledgeBase)[2];
+    const data = { items: [kkt, { ...kkt }, points(knowledgeBase)[0]] };
+
+    const result = await run({ provider }, data);
+
+    expect(provider.requests.flatMap(request => request.payload as unknown[])).toHaveLength(2);
+    expect(result.stats).toMatchObject({ total: 3, success: 2, cached: 1, failed: 0 });
+    expect(result.sources['$.items[1]']).toBe('cache');
+    expect(result.data.items[1]).toEqual(result.data.items[0]);
+  });
+
+  it('serves a repeated run from the cache', async () => {
+    const cache = createMemoryResultCache();
+    await run({ provider: new MockProvider(), cache });
+    const provider = new MockProvider();
+
+    const result = await run({ provider, cache });
+
+    expect(provider.requests).toHaveLength(0);
+    expect(result.stats).toMatchObject({ total: 4, success: 0, cached: 4, failed: 0 });
+  });
+});
+
+describe('reprocessUnit', () => {
+  it('sends only the requested item and leaves the others unchanged', async () => {
+    const provider = new MockProvider({
+      responses: [[{ _index: 0, name: 'KKT 条件', description: '$\\operatorname{rank} A$ 等于 $m$ 时, KKT 条件是最优性的充要条件' }]],
+    });
+
+    const result = await reprocessUnit(knowledgeBase, '$.chapters[1].knowledge_points[0]', { provider });
+
+    expect(provider.requests.map(request => request.payload)).toEqual([
+      [{ _index: 0, name: 'KKT 条件', description: 'rank A 等于 m 时, KKT 条件是最优性的充要条件' }],
+    ]);
+    expect(result.stats).toMatchObject({ total: 1, success: 1, failed: 0 });
+    expect(result.sources).toEqual({ '$.chapters[1].knowledge_points[0]': 'model' });
+    expect(points(result.data)[2].description).toBe('$\\operatorname{rank} A$ 等于 $m$ 时, KKT 条件是最优性的充要条件');
+    expect(points(result.data).filter((_, i) => i !== 2)).toEqual(points(knowledgeBase).filter((_, i) => i !== 2));
+  });
+
+  it('reports a rejected result without applying it', async () => {
+    const provider = new MockProvider({ responses: [[{ _index: 0, name: 'KKT 条件', description: 'KKT 条件总是充分的' }]] });
+
+    const result = await reprocessUnit(knowledgeBase, '$.chapters[1].knowledge_points[0]', { provider });
+
+    expect(provider.requests).toHaveLength(1);
+    expect(result.failures).toEqual([{ path: '$.chapters[1].knowledge_points[0]', reason: 'description: 正文文字被改写' }]);
+    expect(result.data).toEqual(knowledgeBase);
+  });
+});
+
+describe('processJsonKnowledgeBase with recorded Gemini responses', () => {
+  it('waits out a 429 for as long as its RetryInfo asks and retries the batch', async () => {
+    const replay = replayFetch('rate-limited');
+
+    const result = await run({ provider: gemini() });
+
+    expect(replay.requests).toHaveLength(2);
+    expect(sentItems(replay.requests[1])).toEqual(sentItems(replay.requests[0]));
+    expect(result.stats).toMatchObject({ success: 4, failed: 0 });
+    expect(result.batches).toHaveLength(1);
+    expect(result.batches[0].attempts.map(attempt => attempt.error?.kind)).toEqual(['rate_limit', undefined]);
+    // The scheduler's own back-off would resume after 5 s; the recorded hint asks for 13 s.
+    const [limited, retried] = result.batches[0].attempts;
+    expect(retried.startedAt + retried.durationMs - limited.startedAt).toBeGreaterThanOrEqual(13_000);
+    expect(points(result.data)[2].description).toBe('$\\operatorname{rank} A$ 等于 $m$ 时, KKT 条件是最优性的充要条件');
+  });
+
+  it('retries when the response has no text', async () => {
+    const replay = replayFetch('empty-text');
+
+    const result = await run({ provider: gemini() });
+
+    expect(replay.remaining()).toBe(0);
+    expect(result.stats).toMatchObject({ success: 4, failed: 0 });
+  });
+
+  it('soft-fails a batch that keeps returning malformed JSON', async () => {
+    const replay = replayFetch('malformed-json');
+
+    const result = await run({ provider: gemini() });
+
+    expect(replay.requests).toHaveLength(3);
+    expect(result.stats).toMatchObject({ total: 4, success: 0, failed: 4 });
+    expect(result.failures[0].reason).toMatch(/^Model returned invalid JSON/);
+    expect(result.data).toEqual(knowledgeBase);
+  });
+
+  it('retries an item whose _index is out of range on its own', async () => {
+    const replay = replayFetch('index-out-of-range');
+
+    const result = await run({ provider: gemini() });
+
+    expect(replay.requests).toHaveLength(2);
+    expect(sentItems(replay.requests[1])).toEqual([
+      { _index: 0, name: '梯度下降', description: '迭代 x_k -> x^*, 步长 t 满足 Armijo 条件' },
+    ]);
+    expect(result.stats).toMatchObject({ success: 4, failed: 0 });
+    expect(points(result.data)[3].description).toBe('迭代 $x_k \\to x^*$, 步长 $t$ 满足 Armijo 条件');
+    expect(result.batches[0].attempts).toEqual([
+      expect.objectContaining({ rejected: [{ path: '$.chapters[1].knowledge_points[1]', reason: '模型未返回该条目（_index 缺失）' }] }),
+      expect.objectContaining({ soloPath: '$.chapters[1].knowledge_points[1]', rejected: [] }),
+    ]);
+  });
+
+  it('classifies an invalid key as an auth error', async () => {
+    replayFetch('invalid-key');
+    await expect(run({ provider: gemini() })).rejects.toMatchObject({ kind: 'auth' });
+  });
+});
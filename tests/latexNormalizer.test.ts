@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { ALL_RULES, detectContentLanguage, normalizeLatexText, repairEscapes, splitMath } from '../services/latexNormalizer';
+
+describe('normalizeLatexText', () => {
+  it.each([
+    ['wraps bare math and converts symbols', '若 x ∈ X 且 f(x) <= 0', '若 $x \\in X$ 且 $f(x) \\le 0$'],
+    ['wraps single-letter variables', 'A 为正定矩阵', '$A$ 为正定矩阵'],
+    ['turns argmin into a command', 'argmin f(x) 的解', '$\\arg\\min f(x)$ 的解'],
+    ['merges adjacent inline math', '$x$ $\\in$ $X$', '$x \\in X$'],
+    ['converts arrows and keeps sub/superscripts', 'x_k -> x^*', '$x_k \\to x^*$'],
+    ['restores a command read as a control character', '\frac{1}{2} 是常数', '$\\frac{1}{2}$ 是常数'],
+    ['collapses an over-escaped command', '求 \\\\min_x f(x) 的最优解', '求 $\\min_x f(x)$ 的最优解'],
+    ['leaves English prose alone', 'strong duality holds', 'strong duality holds'],
+    ['leaves acronyms in Chinese text alone', 'KKT 条件', 'KKT 条件'],
+  ])('%s', (_, input, expected) => {
+    const result = normalizeLatexText(input);
+    expect(result.text).toBe(expected);
+    expect(result.confident).toBe(true);
+    expect(result.changed).toBe(input !== expected);
+  });
+
+  it('is not confident about a word it cannot classify', () => {
+    const result = normalizeLatexText('rank A 等于 n');
+    expect(result.confident).toBe(false);
+    expect(result.issues).toEqual(['无法判断是否为公式: "A"']);
+  });
+
+  it('gives up on unbalanced $ delimiters', () => {
+    expect(normalizeLatexText('价格为 $5 元')).toMatchObject({ text: '价格为 $5 元', confident: false, changed: false });
+  });
+
+  it('applies only the requested rules', () => {
+    expect(normalizeLatexText('$x$ $\\in$ $X$', ['wrap']).text).toBe('$x$ $\\in$ $X$');
+    expect(normalizeLatexText('若 x ∈ X', ['merge']).text).toBe('若 x ∈ X');
+  });
+});
+
+describe('normalizeLatexText on English content', () => {
+  it.each([
+    ['wraps variables next to articles', 'A point x lies in the set C', 'A point $x$ lies in the set $C$'],
+    ['reads an article after a full stop as prose', 'Fix x. A point y is near x', 'Fix $x$. A point $y$ is near $x$'],
+    ['wraps the variable of a compound word', 'the x-axis of the plot', 'the $x$-axis of the plot'],
+    ['keeps the pronoun I as prose', 'I think x ∈ X', 'I think $x \\in X$'],
+  ])('%s', (_, input, expected) => {
+    const result = normalizeLatexText(input, undefined, 'en');
+    expect(result.text).toBe(expected);
+    expect(result.confident).toBe(true);
+  });
+
+  it.each([
+    ['The matrix A is symmetric.', 'A'],
+    ['Let a be a scalar.', 'a'],
+    ['If A is invertible then Ax=b has a solution.', 'A'],
+    ['A is invertible.', 'A'],
+  ])('is not confident whether a single letter is a variable in "%s"', (input, letter) => {
+    const result = normalizeLatexText(input, undefined, 'en');
+    expect(result.confident).toBe(false);
+    expect(result.issues).toContain(`无法判断是否为公式: "${letter}"`);
+  });
+
+  it('is not confident about articles when the content is Chinese', () => {
+    expect(normalizeLatexText('Let x be a point in the set C').confident).toBe(false);
+  });
+});
+
+describe('detectContentLanguage', () => {
+  it('picks the language most of the prose is written in', () => {
+    expect(detectContentLanguage(['Let $x$ be a point in the convex set $C$'])).toBe('en');
+    expect(detectContentLanguage(['若 $x$ 属于凸集 $C$', 'KKT conditions'])).toBe('zh');
+  });
+});
+
+describe('repairEscapes', () => {
+  it('only restores known commands', () => {
+    expect(repairEscapes('\theta 与 \times')).toBe('\\theta 与 \\times');
+    expect(repairEscapes('第一行\n第二行\tnext')).toBe('第一行\n第二行\tnext');
+  });
+
+  it('leaves line breaks in prose to the model, but repairs them inside math', () => {
+    expect(repairEscapes('$\nabla f$ 与 $\rho$')).toBe('$\\nabla f$ 与 $\\rho$');
+
+    const result = normalizeLatexText('line one\nu is bad', ALL_RULES, 'en');
+
+    expect(result.text).not.toContain('\\nu');
+    expect(result.confident).toBe(false);
+    expect(result.issues).toContain('换行后紧跟的字母可能是丢失反斜杠的命令');
+  });
+});
+
+describe('splitMath', () => {
+  it('splits inline and display math', () => {
+    expect(splitMath('设 $x$ 满足 $$x^2 = 1$$')).toEqual([
+      { kind: 'text', content: '设 ' },
+      { kind: 'math', content: 'x', display: false },
+      { kind: 'text', content: ' 满足 ' },
+      { kind: 'math', content: 'x^2 = 1', display: true },
+    ]);
+  });
+
+  it('keeps escaped dollars as text', () => {
+    expect(splitMath('价格 \\$5')).toEqual([{ kind: 'text', content: '价格 \\$5' }]);
+  });
+
+  it('returns null for unbalanced delimiters', () => {
+    expect(splitMath('$x')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ProxyConfig, createProxyServer } from '../server/proxyServer';
+import { MockProvider } from '../services/mockProvider';
+import { ProxyProvider, ProxyRequestBody } from '../services/proxyProvider';
+import { setLocale } from '../services/i18n';
+
+const config: ProxyConfig = {
+  models: ['mock-model'],
+  maxBodyBytes: 8192,
+  quota: { requestsPerMinute: 10, tokensPerDay: 2000, totalTokensPerDay: 100_000 },
+  allowedOrigins: [],
+  trustProxy: false,
+};
+
+const request = (systemInstruction: string): ProxyRequestBody => ({
+  model: 'mock-model',
+  systemInstruction,
+  prompt: '请处理：',
+  payload: [{ _index: 0, name: 'x' }],
+  schema: { type: 'array', items: { type: 'object', properties: {} } },
+});
+
+describe('proxy server', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeEach(async () => {
+    server = createProxyServer(config, model => new MockProvider({ model }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    setLocale('zh');
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('charges the system instruction and prompt against the quota, and ends the run once it is used up', async () => {
+    const post = (body: ProxyRequestBody) =>
+      fetch(`${url}/generate`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+    expect((await post(request('短'))).status).toBe(200);
+
+    // About 1500 tokens of instruction with a tiny payload: over what is left of the day.
+    const response = await post(request('长'.repeat(1500)));
+    expect(response.status).toBe(429);
+    expect((await response.json()).error).toMatchObject({
+      kind: 'quota',
+      code: 'clientTokensExhausted',
+      message: 'Your token quota for today is used up',
+    });
+  });
+
+  it('answers an oversized streamed body with a 413 reply instead of resetting the connection', async () => {
+    const chunk = new TextEncoder().encode(' '.repeat(1024));
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ < 64) controller.enqueue(chunk); else controller.close();
+      },
+    });
+
+    const response = await fetch(`${url}/generate`, { method: 'POST', body, duplex: 'half' } as RequestInit);
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error).toMatchObject({ code: 'bodyTooLarge', params: { maxBytes: 8192 } });
+  });
+
+  it('shows its refusals in the language of the client', async () => {
+    setLocale('en');
+    const provider = new ProxyProvider('gpt-4o', url);
+
+    await expect(provider.generateJson(request('x'))).rejects.toMatchObject({ kind: 'unknown', status: 403, message: 'The model gpt-4o is not allowed' });
+
+    setLocale('zh');
+    await expect(provider.generateJson(request('x'))).rejects.toThrow('不允许使用模型 gpt-4o');
+  });
+});
@@ -0,0 +1,38 @@
+import { vi } from 'vitest';
+import recordings from './fixtures/gemini-recordings.json';
+
+/** One recorded HTTP reply. */
+export interface RecordedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export type RecordingName = keyof typeof recordings;
+
+/**
+ * Replaces `fetch` with one that replays a recording in order and keeps every
+ * request body. A request past the end of the recording fails instead of
+ * reaching the network.
+ */
+export function replayFetch(name: RecordingName) {
+  const queue: RecordedResponse[] = [...recordings[name]];
+  const requests: { url: string; body: any }[] = [];
+  const fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    requests.push({ url, body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined });
+    const next = queue.shift();
+    if (!next) throw new Error(`Unexpected request to ${url}: recording "${name}" is exhausted`);
+    return new Response(JSON.stringify(next.body), {
+      status: next.status,
+      headers: { 'Content-Type': 'application/json', ...next.headers },
+    });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return { requests, remaining: () => queue.length };
+}
+
+/** Items of a recorded Gemini request, as sent in the second content part. */
+export function sentItems(request: { body: any }): Record<string, unknown>[] {
+  return JSON.parse(request.body.contents[0].parts[1].text);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PROFILES, localizeProfile, parseProfiles } from '../services/ruleProfiles';
+import { validateField } from '../services/resultValidator';
+import { ContentLanguage } from '../types';
+
+const probability = BUILT_IN_PROFILES.find(profile => profile.id === 'probability')!;
+
+describe('built-in profiles', () => {
+  const cases = BUILT_IN_PROFILES.flatMap(profile =>
+    (['zh', 'en'] as ContentLanguage[]).flatMap(language =>
+      localizeProfile(profile, language).examples.map(example => [profile.id, language, example, profile.substitutions] as const)
+    )
+  );
+
+  // An example the validator rejects teaches the model output that is thrown away.
+  it.each(cases)('%s (%s) shows the model output the validator accepts', (_, language, example, substitutions) => {
+    expect(validateField(example.input, example.output, language, substitutions)).toBeNull();
+  });
+
+  it('lets the probability profile rewrite P as \\Pr, but not other profiles', () => {
+    expect(validateField('$P(A)$ 是概率', '$\\Pr(A)$ 是概率', 'zh', probability.substitutions)).toBeNull();
+    expect(validateField('$P(A)$ 是概率', '$\\Pr(A)$ 是概率', 'zh')).toBe('公式内容 "P" 丢失');
+    expect(validateField('$P(A)$ 是概率', '$\\Pr(\\Pr)$ 是概率', 'zh', probability.substitutions)).toBe('公式内容 "A" 丢失');
+  });
+});
+
+describe('parseProfiles', () => {
+  it('keeps substitutions and rejects ones that are not commands', () => {
+    const profile = { id: 'p', name: 'P', instruction: '说明', rules: [], substitutions: { P: '\\Pr' } };
+    expect(parseProfiles(JSON.stringify(profile))[0].substitutions).toEqual({ P: '\\Pr' });
+    expect(() => parseProfiles(JSON.stringify({ ...profile, substitutions: { P: 'Pr' } }))).toThrow('第 1 个配置的 "substitutions"');
+  });
+});
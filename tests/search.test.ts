@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_QUERY, SearchQuery, applyReplacements, buildMatcher, planReplacements, searchUnits } from '../services/search';
+import { DEFAULT_FIELD_RULES } from '../services/fieldSelector';
+import { FieldChange } from '../services/review';
+
+const data = {
+  items: [
+    { name: '实数集', description: '$x \\in \\R$ 且 $A \\Rightarrow B$', difficulty: 'easy' },
+    { name: '范数', description: '$\\|x\\|_2$ 为 2-范数', difficulty: 'medium' },
+    { name: '映射', description: '$f: \\R^n \\to \\R$ 连续', difficulty: 'medium' },
+  ],
+};
+
+const search = (query: Partial<SearchQuery>, changes: FieldChange[] = [], failures: { path: string; reason: string }[] = []) => {
+  const full = { ...EMPTY_QUERY, ...query };
+  return searchUnits(data, data, changes, failures, DEFAULT_FIELD_RULES, full, buildMatcher(full.text, full.mode));
+};
+
+describe('search', () => {
+  it('finds a LaTeX command without matching longer commands that start with it', () => {
+    const hits = search({ text: '\\R', mode: 'command' });
+
+    expect(hits.map(hit => hit.unitPath)).toEqual(['$.items[0]', '$.items[2]']);
+    expect(hits[0].fields.map(field => field.key)).toEqual(['description']);
+  });
+
+  it('replaces a command everywhere and writes the result into the input', () => {
+    const matcher = buildMatcher('R', 'command')!;
+    const replacements = planReplacements(search({ text: 'R', mode: 'command' }), matcher, '\\mathbb{R}', 'command');
+
+    expect(replacements.map(r => r.after)).toEqual([
+      '$x \\in \\mathbb{R}$ 且 $A \\Rightarrow B$',
+      '$f: \\mathbb{R}^n \\to \\mathbb{R}$ 连续',
+    ]);
+    expect(applyReplacements(data, replacements).items[2].description).toBe('$f: \\mathbb{R}^n \\to \\mathbb{R}$ 连续');
+    expect(data.items[2].description).toBe('$f: \\R^n \\to \\R$ 连续');
+  });
+
+  it('supports capture groups in regex replacements', () => {
+    const matcher = buildMatcher('(\\d)-范数', 'regex')!;
+    const [replacement] = planReplacements(search({ text: '(\\d)-范数', mode: 'regex' }), matcher, '$1 阶范数', 'regex');
+
+    expect(replacement.after).toBe('$\\|x\\|_2$ 为 2 阶范数');
+  });
+
+  it('filters by difficulty, processing status and validation errors', () => {
+    const change: FieldChange = {
+      path: '$.items[1].description',
+      unitPath: '$.items[1]',
+      key: 'description',
+      before: data.items[1].description,
+      after: '$\\|x\\|_2 为 2-范数',
+      decision: 'pending',
+    };
+
+    expect(search({ difficulty: 'medium' }).map(hit => hit.unitPath)).toEqual(['$.items[1]', '$.items[2]']);
+    expect(search({ status: 'changed' }, [change]).map(hit => hit.unitPath)).toEqual(['$.items[1]']);
+    expect(search({ status: 'failed' }, [], [{ path: '$.items[2]', reason: '' }]).map(hit => hit.unitPath)).toEqual(['$.items[2]']);
+    expect(search({ onlyInvalid: true }, [change]).map(hit => hit.unitPath)).toEqual(['$.items[1]']);
+  });
+
+  it('explains an invalid pattern', () => {
+    expect(() => buildMatcher('(', 'regex')).toThrow(/^正则表达式无效：/);
+    expect(() => buildMatcher('\\R x', 'command')).toThrow('“\\R x”不是 LaTeX 命令名');
+  });
+});
@@ -0,0 +1,23 @@
+// Checkpoints and the result cache live in IndexedDB, which neither Node nor jsdom provide.
+import 'fake-indexeddb/auto';
+
+// jsdom's Blob has no text(), which uploads are read with; browsers and Node do.
+if (typeof FileReader !== 'undefined' && !Blob.prototype.text) {
+  Blob.prototype.text = function (this: Blob) {
+    return new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(this);
+    });
+  };
+}
+
+// jsdom does no layout, so there is never a resize to observe.
+if (typeof window !== 'undefined' && !window.ResizeObserver) {
+  window.ResizeObserver = class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+}
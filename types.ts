@@ -7,10 +7,66 @@ export interface KnowledgeItem {
   [key: string]: any;
 }
 
+/**
+ * How items are normalized: local rules first with the LLM as fallback,
+ * local rules only, or everything through the LLM as before.
+ */
+export type NormalizationMode = 'hybrid' | 'local' | 'llm';
+
+/**
+ * Language of the prose in a knowledge base. It picks the prompt sent to the
+ * model and the local rules for telling math from words.
+ */
+export type ContentLanguage = 'zh' | 'en';
+
 export type ProcessingStatus = 'idle' | 'parsing' | 'processing' | 'complete' | 'error';
 
 export interface ProcessProgress {
   total: number;
   current: number;
   percentage: number;
-}
\ No newline at end of file
+  throughput?: ThroughputStats;
+}
+
+/** Live scheduler figures shown next to the progress bar. */
+export interface ThroughputStats {
+  itemsPerMinute: number;
+  /** Estimated seconds left, or null until there is enough data. */
+  etaSeconds: number | null;
+  concurrency: number;
+  inFlight: number;
+  /** Remaining back-off after a rate limit, 0 when not paused. */
+  pausedForMs: number;
+}
+
+/** Per-provider request budgets enforced by the scheduler. */
+export interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxConcurrency: number;
+}
+export type ProviderKind = 'gemini' | 'openai' | 'proxy' | 'mock';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  model: string;
+  /** Endpoint for OpenAI-compatible providers and the proxy. */
+  baseUrl?: string;
+  /** Key pasted by the user; the web app keeps it in session storage only. */
+  apiKey?: string;
+  limits?: Partial<RateLimits>;
+}
+
+/** Individual rules of the local normalizer. */
+export type NormalizeRule = 'wrap' | 'merge' | 'escape';
+
+/**
+ * Selects string fields to normalize. `pattern` is either a JSONPath-style
+ * path (`$..relations[*].note`) or a glob over dotted paths (`**.formula`);
+ * a bare name such as `formula` matches that key at any depth.
+ */
+export interface FieldRule {
+  pattern: string;
+  /** Local normalizer rules for matching fields; all rules when omitted. */
+  rules?: NormalizeRule[];
+}
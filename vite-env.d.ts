@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Provider selected on first visit; the proxy when unset. */
+  readonly VITE_DEFAULT_PROVIDER?: string;
+}
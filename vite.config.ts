@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -5,10 +6,19 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   define: {
-    // Defines process.env.API_KEY global for the client code to work as requested.
-    // Ensure API_KEY is set in your Vercel/Netlify environment variables.
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    // No API key is defined here: it would end up in the bundle. Keys live in the
+    // proxy server (npm run proxy) or are pasted by the user into the settings.
     // Define empty process.env object to prevent "process is not defined" crashes if libraries try to access it
     'process.env': {}
-  }
+  },
+  server: {
+    proxy: {
+      '/api': process.env.PROXY_TARGET ?? 'http://localhost:8787',
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.{ts,tsx}'],
+    setupFiles: ['tests/setup.ts'],
+    unstubGlobals: true,
+  },
 })
\ No newline at end of file